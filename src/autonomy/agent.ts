@@ -7,7 +7,9 @@
 
 import { EventEmitter } from "events";
 import type { HyperscapeClient } from "../client.js";
-import type { GameState } from "../types.js";
+import type { GameState, CommandResult } from "../types.js";
+import type { LocationKind } from "../world-map.js";
+import { monotonicNow } from "../clock.js";
 import { 
   selectGoal, 
   createGoalContext, 
@@ -21,20 +23,56 @@ import {
   formatGuardrailsPrompt,
   type ProposedAction 
 } from "./guardrails.js";
+import {
+  LlmPlanner,
+  RuleBasedPlanner,
+  type CompletionFunction,
+  type Planner,
+  type PlannerDecision
+} from "./planner.js";
+import {
+  ConsoleLogSink,
+  CallbackLogSink,
+  TelegramEventSink,
+  createLogSink,
+  type LogSink,
+  type LogSinkConfig
+} from "./sinks.js";
+import {
+  formatEventLine,
+  type AgentEvent,
+  type AgentEventLevel,
+  type AgentEventPayloads,
+  type AgentEventType
+} from "./events.js";
+import { AgentMetrics } from "./metrics.js";
+
+/** Longest a single navigation may hold up the tick loop */
+const NAVIGATION_TIMEOUT = 30000;
 
 export interface AgentConfig {
   /** Telegram chat ID for logging (optional) */
   telegramChatId?: string;
   /** Telegram topic ID for logging (optional) */
   telegramTopicId?: number;
+  /** Telegram bot token (default: TELEGRAM_BOT_TOKEN env var) */
+  telegramBotToken?: string;
+  /** Telegram Bot API base URL (default https://api.telegram.org) */
+  telegramApiUrl?: string;
   /** Tick interval in ms (default 10000 = 10s) */
   tickInterval?: number;
   /** Maximum session duration in ms (default 3600000 = 1 hour) */
   maxSessionDuration?: number;
-  /** Enable verbose logging */
+  /** Enable verbose logging (console output including debug events) */
   verbose?: boolean;
+  /** Log sinks receiving structured events (console, jsonl, webhook, telegram or custom) */
+  sinks?: Array<LogSink | LogSinkConfig>;
   /** Custom system prompt additions */
   customPrompt?: string;
+  /** Planner for the THINKING step (default: LlmPlanner when `complete` is set, else rule-based) */
+  planner?: Planner;
+  /** Model completion function; shorthand for `planner: new LlmPlanner(complete)` */
+  complete?: CompletionFunction;
 }
 
 export interface AgentThought {
@@ -43,6 +81,8 @@ export interface AgentThought {
   action: string | null;
   goal: string | null;
   warnings: string[];
+  /** Planner that produced this thought ("llm", "rules", ...) */
+  planner?: string;
 }
 
 export interface AgentStats {
@@ -57,9 +97,17 @@ export interface AgentStats {
 
 export class AutonomousAgent extends EventEmitter {
   private client: HyperscapeClient;
-  private config: Required<AgentConfig>;
+  private config: Required<Omit<AgentConfig, "planner" | "complete">>;
+  private planner: Planner | null;
+  private fallbackPlanner = new RuleBasedPlanner();
   private running = false;
+  /** Ticks are suspended while the client reconnects */
+  private paused = false;
   private tickTimer: NodeJS.Timeout | null = null;
+  /** A tick is running (planning, executing, logging) */
+  private ticking = false;
+  /** Bumped on start/stop so callbacks from an earlier loop don't reschedule */
+  private loopGeneration = 0;
   
   private goalContext: GoalContext;
   private currentGoal: GoalTemplate | null = null;
@@ -68,8 +116,9 @@ export class AutonomousAgent extends EventEmitter {
   private thoughts: AgentThought[] = [];
   private stats: AgentStats;
   
-  // Callback for sending messages (will be wired to Telegram)
-  private sendLog: ((message: string) => Promise<void>) | null = null;
+  private sinks: LogSink[] = [];
+  private metrics = new AgentMetrics();
+  private lastCoins: number | null = null;
 
   constructor(client: HyperscapeClient, config: AgentConfig = {}) {
     super();
@@ -77,14 +126,21 @@ export class AutonomousAgent extends EventEmitter {
     this.config = {
       telegramChatId: config.telegramChatId ?? "",
       telegramTopicId: config.telegramTopicId ?? 0,
+      telegramBotToken: config.telegramBotToken ?? process.env.TELEGRAM_BOT_TOKEN ?? "",
+      telegramApiUrl: config.telegramApiUrl ?? "https://api.telegram.org",
       tickInterval: config.tickInterval ?? 10000,
       maxSessionDuration: config.maxSessionDuration ?? 3600000,
       verbose: config.verbose ?? false,
       customPrompt: config.customPrompt ?? "",
+      sinks: config.sinks ?? [],
     };
     
+    this.planner = config.planner ?? (config.complete ? new LlmPlanner(config.complete) : null);
+
     this.goalContext = createGoalContext();
     this.stats = this.createStats();
+
+    this.setupSinks();
     
     // Wire up client events
     this.setupClientListeners();
@@ -102,20 +158,101 @@ export class AutonomousAgent extends EventEmitter {
     };
   }
 
+  private setupSinks(): void {
+    const textLevel: AgentEventLevel = this.config.verbose ? "debug" : "info";
+    for (const sink of this.config.sinks) {
+      this.addSink("write" in sink ? sink : createLogSink(sink));
+    }
+
+    if (this.config.verbose && !this.sinks.some(s => s instanceof ConsoleLogSink)) {
+      this.addSink(new ConsoleLogSink({ level: "debug" }));
+    }
+
+    if (this.config.telegramChatId && this.config.telegramBotToken) {
+      this.addSink(new TelegramEventSink({
+        botToken: this.config.telegramBotToken,
+        chatId: this.config.telegramChatId,
+        topicId: this.config.telegramTopicId,
+        apiBaseUrl: this.config.telegramApiUrl,
+      }, { level: textLevel }));
+    } else if (this.config.telegramChatId) {
+      console.error("[HyperscapeAgent] telegramChatId set but no bot token; Telegram logging disabled");
+    }
+  }
+
   private setupClientListeners(): void {
-    this.client.on("xpDrop", (data: { skill: string; xp: number }) => {
+    this.client.on("xpDrop", (data: { skill: string; xp: number; totalXp: number; level: number }) => {
       this.stats.xpGained[data.skill] = (this.stats.xpGained[data.skill] ?? 0) + data.xp;
+      this.record("xp_gained", {
+        skill: data.skill,
+        xp: data.xp,
+        totalXp: data.totalXp,
+        level: data.level,
+        sessionXp: this.stats.xpGained[data.skill],
+      }, `✨ +${data.xp} ${data.skill} XP`, "debug");
     });
 
-    this.client.on("death", () => {
+    this.client.on("death", (data?: { killedBy?: string }) => {
       this.stats.deaths++;
-      this.log("💀 Agent died! Will respawn...");
+      this.record("death", { killedBy: data?.killedBy, deaths: this.stats.deaths },
+        `💀 Agent died${data?.killedBy ? ` (killed by ${data.killedBy})` : ""}! Will respawn...`);
+
+      // Dying ends the current goal; a new one is picked after respawning
+      if (this.currentGoal && this.goalProgress) {
+        this.record("goal_failed", {
+          goalId: this.currentGoal.id,
+          goalName: this.currentGoal.name,
+          reason: "death",
+          durationMs: monotonicNow() - this.goalProgress.startedAt,
+        }, `❌ Goal failed: ${this.currentGoal.name} (died)`);
+        this.currentGoal = null;
+        this.goalProgress = null;
+      }
+    });
+
+    this.client.on("coinsUpdated", (data: { coins: number }) => {
+      const previous = this.lastCoins;
+      this.lastCoins = data.coins;
+      if (previous === null || data.coins === previous) return;
+      const delta = data.coins - previous;
+      this.record("coins_changed", { coins: data.coins, delta },
+        `💰 ${delta > 0 ? "+" : ""}${delta.toLocaleString()} coins`, "debug");
     });
 
     this.client.on("respawned", () => {
       this.log("🔄 Respawned successfully");
     });
 
+    this.client.on("reconnecting", (data: { attempt: number; delayMs: number }) => {
+      if (!this.running) return;
+      if (!this.paused) {
+        this.paused = true;
+        if (this.tickTimer) {
+          clearTimeout(this.tickTimer);
+          this.tickTimer = null;
+        }
+        this.client.navigation.cancel();
+        this.log("📡 Connection lost, pausing until reconnected");
+      }
+      if (this.config.verbose) {
+        this.log(`📡 Reconnect attempt ${data.attempt} in ${(data.delayMs / 1000).toFixed(1)}s`);
+      }
+    });
+
+    this.client.on("reconnected", () => {
+      if (!this.running || !this.paused) return;
+      this.paused = false;
+      this.log("📡 Reconnected, resuming");
+      // A tick still in flight reschedules itself when it ends
+      if (!this.ticking) this.scheduleNextTick();
+    });
+
+    this.client.on("reconnectFailed", (data: { attempts: number }) => {
+      if (!this.running) return;
+      this.log(`📡 Could not reconnect after ${data.attempts} attempts, stopping...`);
+      this.stop();
+    });
+
     this.client.on("gatheringComplete", () => {
       this.stats.resourcesGathered++;
       if (this.goalProgress) {
@@ -134,32 +271,85 @@ export class AutonomousAgent extends EventEmitter {
   }
 
   /**
-   * Set the logging callback (typically wired to Telegram)
+   * Set a plain text logging callback (replaces any previous one)
    */
   setLogger(logger: (message: string) => Promise<void>): void {
-    this.sendLog = logger;
+    this.removeSink("logger");
+    this.addSink(new CallbackLogSink("logger", logger, { level: this.config.verbose ? "debug" : "info" }));
   }
 
   /**
-   * Log a message (emits event + sends to Telegram if configured)
+   * Add a sink for structured events
    */
-  private async log(message: string): Promise<void> {
-    const timestamp = new Date().toISOString().split("T")[1].split(".")[0];
-    const formatted = `[${timestamp}] ${message}`;
-    
-    this.emit("log", formatted);
-    
-    if (this.config.verbose) {
-      console.log(`[HyperscapeAgent] ${formatted}`);
+  addSink(sink: LogSink): void {
+    this.sinks.push(sink);
+  }
+
+  /**
+   * Remove a sink by name
+   */
+  removeSink(name: string): boolean {
+    const index = this.sinks.findIndex(s => s.name === name);
+    if (index < 0) return false;
+    this.sinks.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Names of the active sinks
+   */
+  getSinks(): string[] {
+    return this.sinks.map(s => s.name);
+  }
+
+  /**
+   * True when log lines are streamed to Telegram
+   */
+  isLoggingToTelegram(): boolean {
+    return this.sinks.some(s => s instanceof TelegramEventSink);
+  }
+
+  /**
+   * Record a structured event: emits "event" (and "log" for the text line)
+   * and delivers it to the metrics and every sink
+   */
+  private async record<T extends AgentEventType>(
+    type: T,
+    data: AgentEventPayloads[T],
+    message: string,
+    level: AgentEventLevel = "info"
+  ): Promise<void> {
+    const event = { type, level, timestamp: Date.now(), message, data } as AgentEvent;
+
+    this.emit("event", event);
+    this.metrics.write(event);
+    if (level === "info" || this.config.verbose) {
+      this.emit("log", formatEventLine(event));
     }
-    
-    if (this.sendLog) {
+
+    await Promise.all(this.sinks.map(async sink => {
       try {
-        await this.sendLog(formatted);
+        await sink.write(event);
       } catch (err) {
-        console.error("[HyperscapeAgent] Failed to send log:", err);
+        console.error(`[HyperscapeAgent] Sink ${sink.name} failed:`, err);
       }
-    }
+    }));
+  }
+
+  /**
+   * Log a status line
+   */
+  private async log(message: string): Promise<void> {
+    await this.record("status", {}, message);
+  }
+
+  /**
+   * Wait for every sink to deliver buffered events
+   */
+  private async flushSinks(): Promise<void> {
+    await Promise.all(this.sinks.map(sink => sink.flush?.().catch(err => {
+      console.error(`[HyperscapeAgent] Sink ${sink.name} failed to flush:`, err);
+    })));
   }
 
   /**
@@ -176,8 +366,13 @@ export class AutonomousAgent extends EventEmitter {
     }
 
     this.running = true;
+    this.paused = false;
+    this.ticking = false;
+    this.loopGeneration++;
     this.stats = this.createStats();
     this.goalContext = createGoalContext();
+    this.metrics.reset(this.stats.sessionStart);
+    this.lastCoins = this.client.state.playerEntity?.coins ?? null;
     
     await this.log("🚀 Autonomous agent started");
     await this.log(`⏱️ Max session: ${(this.config.maxSessionDuration / 60000).toFixed(0)} minutes`);
@@ -194,14 +389,19 @@ export class AutonomousAgent extends EventEmitter {
     if (!this.running) return;
 
     this.running = false;
+    this.paused = false;
+    this.ticking = false;
+    this.loopGeneration++;
     
     if (this.tickTimer) {
       clearTimeout(this.tickTimer);
       this.tickTimer = null;
     }
+    this.client.navigation.cancel();
 
     await this.log("🛑 Autonomous agent stopped");
     await this.logStats();
+    await this.flushSinks();
   }
 
   /**
@@ -211,6 +411,13 @@ export class AutonomousAgent extends EventEmitter {
     return this.running;
   }
 
+  /**
+   * Check if the agent is waiting for the client to reconnect
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
   /**
    * Get current stats
    */
@@ -218,6 +425,13 @@ export class AutonomousAgent extends EventEmitter {
     return { ...this.stats };
   }
 
+  /**
+   * Timestamped session metrics (rates, goal success, exports)
+   */
+  getMetrics(): AgentMetrics {
+    return this.metrics;
+  }
+
   /**
    * Get recent thoughts
    */
@@ -226,11 +440,19 @@ export class AutonomousAgent extends EventEmitter {
   }
 
   private scheduleNextTick(): void {
-    if (!this.running) return;
+    if (!this.running || this.paused || this.tickTimer) return;
 
+    const generation = this.loopGeneration;
     this.tickTimer = setTimeout(async () => {
-      await this.tick();
-      this.scheduleNextTick();
+      this.tickTimer = null;
+      if (generation !== this.loopGeneration) return;
+      this.ticking = true;
+      try {
+        await this.tick();
+      } finally {
+        if (generation === this.loopGeneration) this.ticking = false;
+      }
+      if (generation === this.loopGeneration) this.scheduleNextTick();
     }, this.config.tickInterval);
   }
 
@@ -238,7 +460,7 @@ export class AutonomousAgent extends EventEmitter {
    * Main tick - one decision cycle
    */
   private async tick(): Promise<void> {
-    if (!this.running) return;
+    if (!this.running || this.paused) return;
 
     this.stats.tickCount++;
     const state = this.client.state;
@@ -247,6 +469,11 @@ export class AutonomousAgent extends EventEmitter {
     this.goalContext.sessionDuration = Date.now() - this.stats.sessionStart;
     this.goalContext.timeSinceLastCombat += this.config.tickInterval;
     this.goalContext.timeSinceLastSkilling += this.config.tickInterval;
+    const knownBank = this.client.worldMap.nearest("bank");
+    this.goalContext.nearestKnownBank = knownBank
+      ? { id: knownBank.id, position: knownBank.position, distance: knownBank.distance }
+      : null;
+    this.goalContext.trainingPlans = this.client.training.getActivePlans();
 
     // Check session timeout
     if (this.goalContext.sessionDuration >= this.config.maxSessionDuration) {
@@ -264,7 +491,11 @@ export class AutonomousAgent extends EventEmitter {
     // Check if current goal is complete
     if (this.currentGoal && this.goalProgress) {
       if (this.currentGoal.isComplete(state, this.goalProgress)) {
-        await this.log(`✅ Goal complete: ${this.currentGoal.name}`);
+        await this.record("goal_completed", {
+          goalId: this.currentGoal.id,
+          goalName: this.currentGoal.name,
+          durationMs: monotonicNow() - this.goalProgress.startedAt,
+        }, `✅ Goal complete: ${this.currentGoal.name}`);
         this.goalContext = updateGoalContext(this.goalContext, this.currentGoal.id);
         this.stats.goalsCompleted++;
         this.currentGoal = null;
@@ -278,9 +509,13 @@ export class AutonomousAgent extends EventEmitter {
       if (this.currentGoal) {
         this.goalProgress = {
           goalId: this.currentGoal.id,
-          startedAt: Date.now(),
+          startedAt: monotonicNow(),
         };
-        await this.log(`🎯 New goal: ${this.currentGoal.name}`);
+        await this.record("goal_selected", {
+          goalId: this.currentGoal.id,
+          goalName: this.currentGoal.name,
+          category: this.currentGoal.category,
+        }, `🎯 New goal: ${this.currentGoal.name}`);
       } else {
         await this.log("🤔 No suitable goals available, exploring...");
         // Default to random movement
@@ -316,50 +551,39 @@ export class AutonomousAgent extends EventEmitter {
       warnings: [],
     };
 
-    // Get current constraints
-    const constraints = formatGuardrailsPrompt(state);
-    
-    // Build thinking
-    const thinkingParts: string[] = [];
-    
-    // Current state assessment
-    const hp = state.playerEntity?.health ?? 0;
-    const maxHp = state.playerEntity?.maxHealth ?? 1;
-    const hpPercent = (hp / maxHp * 100).toFixed(0);
-    thinkingParts.push(`HP: ${hpPercent}%`);
-    
-    if (this.currentGoal) {
-      thinkingParts.push(`Goal: ${this.currentGoal.name}`);
-      thinkingParts.push(this.currentGoal.getPrompt(state));
-    }
+    const decision = await this.plan(state);
+    thought.thinking = decision.thinking;
+    thought.planner = decision.planner;
 
-    if (constraints) {
-      thinkingParts.push(`Constraints: ${constraints}`);
-    }
+    // Whatever the planner chose still has to pass the guardrails
+    const action = decision.action;
+    if (action) {
+      const guardrailCheck = checkGuardrails(state, action);
 
-    thought.thinking = thinkingParts.join(" | ");
-
-    // Determine action based on goal
-    if (this.currentGoal) {
-      const action = this.selectActionForGoal(state, this.currentGoal);
-      if (action) {
-        // Check guardrails
-        const guardrailCheck = checkGuardrails(state, action);
-        
-        if (guardrailCheck.allowed) {
-          thought.action = JSON.stringify(action);
-          thought.warnings = guardrailCheck.warnings;
-        } else {
-          // Action blocked by guardrails
-          thought.warnings = guardrailCheck.violations.map(v => v.message);
-          thought.thinking += ` | BLOCKED: ${guardrailCheck.violations[0]?.message}`;
-          
-          // Try to find alternative action
-          const altAction = this.getAlternativeAction(state, guardrailCheck);
-          if (altAction) {
-            thought.action = JSON.stringify(altAction);
-          }
+      if (guardrailCheck.allowed) {
+        thought.action = JSON.stringify(action);
+        thought.warnings = guardrailCheck.warnings;
+      } else {
+        // Action blocked by guardrails
+        thought.warnings = guardrailCheck.violations.map(v => v.message);
+        thought.thinking += ` | BLOCKED: ${guardrailCheck.violations[0]?.message}`;
+
+        // Try to find alternative action
+        const altAction = this.getAlternativeAction(state, guardrailCheck);
+        if (altAction) {
+          thought.action = JSON.stringify(altAction);
         }
+
+        await this.record("guardrail_blocked", {
+          tool: action.tool,
+          params: action.params,
+          violations: guardrailCheck.violations.map(v => ({
+            guardrailId: v.guardrail.id,
+            severity: v.guardrail.severity,
+            message: v.message,
+          })),
+          alternative: altAction?.tool ?? null,
+        }, `🛡️ Blocked ${action.tool}: ${guardrailCheck.violations[0]?.message}`, "debug");
       }
     }
 
@@ -367,85 +591,36 @@ export class AutonomousAgent extends EventEmitter {
   }
 
   /**
-   * Select the appropriate action for current goal
+   * Ask the configured planner, falling back to the rule-based one
    */
-  private selectActionForGoal(state: GameState, goal: GoalTemplate): ProposedAction | null {
-    const nearbyMobs = Array.from(state.nearbyEntities.values())
-      .filter(e => e.type === "mob" && e.alive !== false);
-    const nearbyResources = Array.from(state.nearbyEntities.values())
-      .filter(e => ["resource", "tree", "rock", "fishing"].includes(e.type ?? ""));
-    const groundItems = Array.from(state.nearbyEntities.values())
-      .filter(e => e.type === "item" || e.type === "groundItem");
-
-    switch (goal.id) {
-      case "flee_danger":
-        // Move away from threats
-        return { tool: "hyperscape_home_teleport", params: {} };
-
-      case "eat_food":
-        const food = state.playerEntity?.inventory?.find(i => 
-          i.name?.toLowerCase().includes("fish") || 
-          i.name?.toLowerCase().includes("meat") ||
-          i.name?.toLowerCase().includes("bread")
-        );
-        if (food) {
-          return { tool: "hyperscape_use_item", params: { itemId: food.itemId } };
-        }
-        break;
-
-      case "respawn":
-        return { tool: "hyperscape_respawn", params: {} };
-
-      case "train_combat":
-        if (nearbyMobs.length > 0) {
-          // Pick lowest level mob
-          const target = nearbyMobs.sort((a, b) => (a.level ?? 1) - (b.level ?? 1))[0];
-          return { tool: "hyperscape_attack", params: { targetId: target.id } };
-        }
-        break;
-
-      case "gather_resources":
-        if (nearbyResources.length > 0) {
-          const target = nearbyResources[0];
-          return { tool: "hyperscape_gather", params: { resourceId: target.id } };
-        }
-        break;
-
-      case "collect_loot":
-        if (groundItems.length > 0) {
-          const target = groundItems[0];
-          return { tool: "hyperscape_pickup", params: { itemId: target.id } };
-        }
-        break;
-
-      case "explore_area":
-        // Random movement
-        const pos = state.playerEntity?.position ?? [0, 0, 0];
-        const angle = Math.random() * Math.PI * 2;
-        const distance = 10 + Math.random() * 20;
-        return {
-          tool: "hyperscape_move",
-          params: {
-            x: pos[0] + Math.cos(angle) * distance,
-            y: pos[1],
-            z: pos[2] + Math.sin(angle) * distance,
-          }
-        };
+  private async plan(state: GameState): Promise<PlannerDecision & { planner: string }> {
+    const input = {
+      state,
+      goal: this.currentGoal,
+      goalContext: this.goalContext,
+      stateContext: this.client.getStateContext(),
+      knownLocations: this.client.worldMap.getContext(),
+      training: this.client.training.getContext(),
+      availableActions: this.client.getAvailableActions(),
+      constraints: formatGuardrailsPrompt(state),
+      customPrompt: this.config.customPrompt,
+      recentThinking: this.thoughts.slice(-3).map(t => t.thinking),
+    };
 
-      case "bank_items":
-        if (state.bankOpen) {
-          return { tool: "hyperscape_bank_deposit_all", params: {} };
-        }
-        // Find bank NPC
-        const bankNpc = Array.from(state.nearbyEntities.values())
-          .find(e => e.name?.toLowerCase().includes("bank"));
-        if (bankNpc) {
-          return { tool: "hyperscape_npc_interact", params: { npcId: bankNpc.id, action: "bank" } };
+    if (this.planner) {
+      try {
+        const decision = await this.planner.plan(input);
+        if (decision) {
+          return { ...decision, planner: this.planner.name };
         }
-        break;
+        await this.log(`⚠️ Planner ${this.planner.name} gave no usable action, using rules`);
+      } catch (err) {
+        await this.log(`⚠️ Planner ${this.planner.name} failed (${err instanceof Error ? err.message : err}), using rules`);
+      }
     }
 
-    return null;
+    const decision = await this.fallbackPlanner.plan(input);
+    return { ...decision, planner: this.fallbackPlanner.name };
   }
 
   /**
@@ -496,41 +671,71 @@ export class AutonomousAgent extends EventEmitter {
   }
 
   /**
-   * Execute a game action
+   * Execute a game action and report if the server rejected it
    */
-  private async executeAction(tool: string, params: Record<string, unknown>): Promise<void> {
-    if (this.config.verbose) {
-      await this.log(`🎮 Action: ${tool} ${JSON.stringify(params)}`);
-    }
+  private async executeAction(tool: string, params: Record<string, unknown>): Promise<CommandResult | null> {
 
     // Map tool to client method
+    let result: CommandResult | null = null;
     switch (tool) {
       case "hyperscape_move":
-        this.client.move([params.x as number, params.y as number, params.z as number], true);
+        this.client.move([
+          params.x as number,
+          (params.y as number | undefined) ?? this.client.state.playerEntity?.position?.[1] ?? 0,
+          params.z as number,
+        ], true);
+        break;
+      case "hyperscape_navigate_to": {
+        const navigation = await this.client.navigation.navigateTo(params.x as number, params.z as number, {
+          timeoutMs: NAVIGATION_TIMEOUT,
+        });
+        result = { success: navigation.success, resolvedBy: navigation.outcome, message: navigation.message };
+        break;
+      }
+      case "hyperscape_go_to_nearest": {
+        const navigation = await this.client.navigation.goToNearest(params.type as string, {
+          name: params.name as string | undefined,
+          timeoutMs: NAVIGATION_TIMEOUT,
+        });
+        result = { success: navigation.success, resolvedBy: navigation.outcome, message: navigation.message };
+        break;
+      }
+      case "hyperscape_go_to_known": {
+        const location = this.client.worldMap.nearest(params.kind as LocationKind, { name: params.name as string | undefined });
+        if (!location) {
+          result = { success: false, resolvedBy: "unreachable", message: `No known ${params.kind} in this world` };
+          break;
+        }
+        const navigation = await this.client.navigation.navigateTo(location.position[0], location.position[2], {
+          arriveDistance: 1.5,
+          timeoutMs: NAVIGATION_TIMEOUT,
+        });
+        result = { success: navigation.success, resolvedBy: navigation.outcome, message: navigation.message };
         break;
+      }
       case "hyperscape_attack":
-        this.client.attack(params.targetId as string);
+        result = await this.client.attack(params.targetId as string);
         break;
       case "hyperscape_gather":
-        this.client.interactResource(params.resourceId as string);
+        result = await this.client.interactResource(params.resourceId as string);
         break;
       case "hyperscape_pickup":
-        this.client.pickup(params.itemId as string);
+        result = await this.client.pickup(params.itemId as string);
         break;
       case "hyperscape_use_item":
-        this.client.useItem(params.itemId as string);
+        result = await this.client.useItem(params.itemId as string);
         break;
       case "hyperscape_respawn":
-        this.client.respawn();
+        result = await this.client.respawn();
         break;
       case "hyperscape_home_teleport":
-        this.client.homeTeleport();
+        result = await this.client.homeTeleport();
         break;
       case "hyperscape_npc_interact":
-        this.client.npcInteract(params.npcId as string, params.action as string);
+        result = await this.client.npcInteract(params.npcId as string, params.action as string);
         break;
       case "hyperscape_bank_deposit_all":
-        this.client.bankDepositAll();
+        result = await this.client.bankDepositAll();
         break;
       case "hyperscape_bank_close":
         this.client.bankClose();
@@ -539,7 +744,7 @@ export class AutonomousAgent extends EventEmitter {
         this.client.storeClose();
         break;
       case "hyperscape_dialogue_continue":
-        this.client.dialogueContinue();
+        result = await this.client.dialogueContinue();
         break;
       case "hyperscape_dialogue_close":
         this.client.dialogueClose();
@@ -547,6 +752,24 @@ export class AutonomousAgent extends EventEmitter {
       default:
         console.warn(`[HyperscapeAgent] Unknown action: ${tool}`);
     }
+
+    if (result && !result.success) {
+      await this.record("action_executed", {
+        tool,
+        params,
+        success: false,
+        resolvedBy: result.resolvedBy,
+        error: result.message,
+      }, `❌ Action failed: ${tool} - ${result.message ?? result.resolvedBy}`);
+    } else {
+      await this.record("action_executed", {
+        tool,
+        params,
+        success: true,
+        resolvedBy: result?.resolvedBy ?? null,
+      }, `🎮 Action: ${tool} ${JSON.stringify(params)}`, "debug");
+    }
+    return result;
   }
 
   /**
@@ -556,19 +779,19 @@ export class AutonomousAgent extends EventEmitter {
     const pos = state.playerEntity?.position ?? [0, 0, 0];
     const angle = Math.random() * Math.PI * 2;
     const distance = 5 + Math.random() * 15;
-    
-    this.client.move([
-      pos[0] + Math.cos(angle) * distance,
-      pos[1],
-      pos[2] + Math.sin(angle) * distance
-    ], true);
+
+    await this.executeAction("hyperscape_navigate_to", {
+      x: pos[0] + Math.cos(angle) * distance,
+      z: pos[2] + Math.sin(angle) * distance,
+    });
   }
 
   /**
    * Log session statistics
    */
   private async logStats(): Promise<void> {
-    const duration = Math.floor((Date.now() - this.stats.sessionStart) / 60000);
+    const durationMs = Date.now() - this.stats.sessionStart;
+    const duration = Math.floor(durationMs / 60000);
     const totalXp = Object.values(this.stats.xpGained).reduce((a, b) => a + b, 0);
     
     const statsMsg = `
@@ -581,7 +804,7 @@ export class AutonomousAgent extends EventEmitter {
 💀 Deaths: ${this.stats.deaths}
 `.trim();
 
-    await this.log(statsMsg);
+    await this.record("session_stats", { ...this.getStats(), durationMs, totalXp }, statsMsg);
   }
 }
 
@@ -0,0 +1,104 @@
+/**
+ * Structured Events for Autonomous Hyperscape Agent
+ *
+ * Every agent log line is backed by a typed event so dashboards and
+ * log sinks can consume data instead of parsing emoji text.
+ */
+
+import type { AgentStats } from "./agent.js";
+
+export interface AgentEventPayloads {
+  /** Lifecycle and other free-form status lines */
+  status: Record<string, never>;
+  goal_selected: {
+    goalId: string;
+    goalName: string;
+    category: string;
+  };
+  goal_completed: {
+    goalId: string;
+    goalName: string;
+    durationMs: number;
+  };
+  goal_failed: {
+    goalId: string;
+    goalName: string;
+    reason: "death";
+    durationMs: number;
+  };
+  action_executed: {
+    tool: string;
+    params: Record<string, unknown>;
+    success: boolean;
+    /** Packet (or "timeout"/"disconnected") that settled the command, null for fire-and-forget actions */
+    resolvedBy: string | null;
+    error?: string;
+  };
+  guardrail_blocked: {
+    tool: string;
+    params: Record<string, unknown>;
+    violations: Array<{ guardrailId: string; severity: string; message: string }>;
+    /** Tool chosen instead, if any */
+    alternative: string | null;
+  };
+  death: {
+    killedBy?: string;
+    deaths: number;
+  };
+  xp_gained: {
+    skill: string;
+    xp: number;
+    totalXp: number;
+    level: number;
+    sessionXp: number;
+  };
+  coins_changed: {
+    coins: number;
+    /** Change since the previous coinsUpdated (negative when spending) */
+    delta: number;
+  };
+  session_stats: AgentStats & {
+    durationMs: number;
+    totalXp: number;
+  };
+}
+
+export type AgentEventType = keyof AgentEventPayloads;
+
+/**
+ * "debug" events (individual actions, XP drops, coin changes, guardrail blocks) are
+ * frequent; text sinks skip them unless configured otherwise
+ */
+export type AgentEventLevel = "debug" | "info";
+
+export type AgentEvent<T extends AgentEventType = AgentEventType> = {
+  [K in T]: {
+    type: K;
+    level: AgentEventLevel;
+    timestamp: number;
+    /** Human-readable line, as shown in console/Telegram */
+    message: string;
+    data: AgentEventPayloads[K];
+  };
+}[T];
+
+export const AGENT_EVENT_TYPES: AgentEventType[] = [
+  "status",
+  "goal_selected",
+  "goal_completed",
+  "goal_failed",
+  "action_executed",
+  "guardrail_blocked",
+  "death",
+  "xp_gained",
+  "coins_changed",
+  "session_stats",
+];
+
+/**
+ * Format an event as a timestamped text line
+ */
+export function formatEventLine(event: AgentEvent): string {
+  const timestamp = new Date(event.timestamp).toISOString().split("T")[1].split(".")[0];
+  return `[${timestamp}] ${event.message}`;
+}
@@ -6,6 +6,10 @@
  */
 
 import type { GameState, Entity, SkillData } from "../types.js";
+import { RESOURCE_ENTITY_TYPES, selectResourceTarget } from "../resources.js";
+import type { SkillPlan } from "../training.js";
+import { assessNearbyThreats, selectCombatTarget } from "../combat.js";
+import { monotonicNow } from "../clock.js";
 
 export interface GoalTemplate {
   id: string;
@@ -14,7 +18,7 @@ export interface GoalTemplate {
   category: "combat" | "skilling" | "gathering" | "exploration" | "social" | "survival";
   
   /** Check if this goal is currently possible */
-  isPossible: (state: GameState) => boolean;
+  isPossible: (state: GameState, context: GoalContext) => boolean;
   
   /** Score this goal (higher = more priority). Returns 0-100 */
   score: (state: GameState, context: GoalContext) => number;
@@ -33,10 +37,19 @@ export interface GoalContext {
   timeSinceLastSkilling: number;   // ms
   sessionDuration: number;         // ms
   xpGained: Record<string, number>;
+  nearestKnownBank: KnownBank | null;  // From the world map, may be out of view
+  trainingPlans: SkillPlan[];          // Unmet skill targets, fewest XP left first
+}
+
+export interface KnownBank {
+  id: string;
+  position: [number, number, number];
+  distance: number | null;
 }
 
 export interface GoalProgress {
   goalId: string;
+  /** When the goal was selected (see monotonicNow) */
   startedAt: number;
   targetsKilled?: number;
   resourcesGathered?: number;
@@ -74,7 +87,8 @@ function getNearbyMobs(state: GameState): Entity[] {
 
 function getNearbyResources(state: GameState): Entity[] {
   return Array.from(state.nearbyEntities.values())
-    .filter(e => ["resource", "tree", "rock", "fishing"].includes(e.type ?? ""));
+    .filter(e => RESOURCE_ENTITY_TYPES.includes(e.type ?? ""))
+    .filter(e => state.resources.get(e.id)?.status !== "depleted");
 }
 
 function getGroundItems(state: GameState): Entity[] {
@@ -82,16 +96,24 @@ function getGroundItems(state: GameState): Entity[] {
     .filter(e => e.type === "item" || e.type === "groundItem");
 }
 
-function getSkillLevel(state: GameState, skill: string): number {
-  return state.playerEntity?.skills?.[skill]?.level ?? 1;
-}
-
 function getInventorySpace(state: GameState): number {
   const inv = state.playerEntity?.inventory ?? [];
   return 28 - inv.length; // Assuming 28 slot inventory
 }
 
+/**
+ * Goals that train toward an explicit skill target get a bonus and skip the diversity penalty
+ */
+function isTrainingGoal(goalId: string, context: GoalContext): boolean {
+  return context.trainingPlans.some(p => p.recommendation.goalId === goalId);
+}
+
+function getTrainingBonus(goalId: string, context: GoalContext): number {
+  return isTrainingGoal(goalId, context) ? 25 : 0;
+}
+
 function getDiversityPenalty(goalId: string, context: GoalContext): number {
+  if (isTrainingGoal(goalId, context)) return 0;
   const count = context.recentGoalCounts[goalId] ?? 0;
   return Math.min(count * 15, 45); // Max 45 point penalty
 }
@@ -160,7 +182,7 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
     isPossible: (state) => {
       return hasWeapon(state) && 
              getHealthPercent(state) > 40 && 
-             getNearbyMobs(state).length > 0;
+             selectCombatTarget(state) !== null;
     },
     score: (state, ctx) => {
       let score = 50;
@@ -168,28 +190,28 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
       // Bonus if we have good HP
       if (getHealthPercent(state) > 80) score += 10;
       
-      // Bonus if mobs are low level
-      const mobs = getNearbyMobs(state);
-      const lowLevelMobs = mobs.filter(m => (m.level ?? 1) <= getSkillLevel(state, "attack") + 5);
-      if (lowLevelMobs.length > 3) score += 15;
+      // Bonus if there are plenty of easy fights
+      const easyMobs = assessNearbyThreats(state).filter(t => t.threat === "trivial" || t.threat === "low");
+      if (easyMobs.length > 3) score += 15;
       
       // Penalty for recent combat (encourage diversity)
       if (ctx.timeSinceLastCombat < 60000) score -= 10;
       
       // Diversity penalty
       score -= getDiversityPenalty("train_combat", ctx);
+      score += getTrainingBonus("train_combat", ctx);
       
       return Math.max(0, score);
     },
     isComplete: (state, progress) => {
       // Complete after killing 5 mobs or 5 minutes
       return (progress.targetsKilled ?? 0) >= 5 || 
-             (Date.now() - progress.startedAt > 300000);
+             (monotonicNow() - progress.startedAt > 300000);
     },
     getPrompt: (state) => {
-      const mobs = getNearbyMobs(state);
-      const target = mobs[0];
-      return `Train combat by fighting nearby mobs. Target: ${target?.name || "nearest enemy"} (id: ${target?.id}). Attack and defeat enemies to gain combat XP.`;
+      const target = selectCombatTarget(state);
+      const odds = target ? `, ${target.threat} threat, ~${Math.round(target.winProbability * 100)}% win` : "";
+      return `Train combat by fighting nearby mobs. Target: ${target?.mobName || "nearest enemy"} (id: ${target?.mobId}${odds}). Attack and defeat enemies to gain combat XP.`;
     },
   },
 
@@ -217,17 +239,17 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
       if (ctx.timeSinceLastSkilling < 60000) score -= 15;
       
       score -= getDiversityPenalty("gather_resources", ctx);
+      score += getTrainingBonus("gather_resources", ctx);
       
       return Math.max(0, score);
     },
     isComplete: (state, progress) => {
       return getInventorySpace(state) < 3 || 
              (progress.resourcesGathered ?? 0) >= 10 ||
-             (Date.now() - progress.startedAt > 300000);
+             (monotonicNow() - progress.startedAt > 300000);
     },
     getPrompt: (state) => {
-      const resources = getNearbyResources(state);
-      const target = resources[0];
+      const target = selectResourceTarget(state);
       return `Gather resources from ${target?.name || target?.type || "nearby resource"} (id: ${target?.id}). Continue until inventory is full or resources depleted.`;
     },
   },
@@ -258,7 +280,7 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
     },
     isComplete: (state, progress) => {
       // Explore for 2 minutes then reassess
-      return Date.now() - progress.startedAt > 120000;
+      return monotonicNow() - progress.startedAt > 120000;
     },
     getPrompt: (state) => {
       const pos = state.playerEntity?.position;
@@ -306,10 +328,10 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
     name: "Bank Inventory",
     description: "Deposit items to bank when inventory is full",
     category: "exploration",
-    isPossible: (state) => {
+    isPossible: (state, context) => {
       const hasNearbyBank = Array.from(state.nearbyEntities.values())
         .some(e => e.name?.toLowerCase().includes("bank") || e.type === "bank");
-      return getInventorySpace(state) < 5 && hasNearbyBank;
+      return getInventorySpace(state) < 5 && (hasNearbyBank || context.nearestKnownBank !== null);
     },
     score: (state) => {
       if (getInventorySpace(state) === 0) return 70;
@@ -327,7 +349,7 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
  * Select the best goal based on current state
  */
 export function selectGoal(state: GameState, context: GoalContext): GoalTemplate | null {
-  const possibleGoals = GOAL_TEMPLATES.filter(g => g.isPossible(state));
+  const possibleGoals = GOAL_TEMPLATES.filter(g => g.isPossible(state, context));
   
   if (possibleGoals.length === 0) return null;
   
@@ -355,6 +377,8 @@ export function createGoalContext(): GoalContext {
     timeSinceLastSkilling: Infinity,
     sessionDuration: 0,
     xpGained: {},
+    nearestKnownBank: null,
+    trainingPlans: [],
   };
 }
 
@@ -5,7 +5,9 @@
  * These are hard limits the agent cannot violate.
  */
 
-import type { GameState, Entity } from "../types.js";
+import type { GameState, TradeOfferItem } from "../types.js";
+import { assessThreat, getPlayerCombatLevel, SAFE_THREATS } from "../combat.js";
+import { monotonicNow } from "../clock.js";
 
 export interface Guardrail {
   id: string;
@@ -51,19 +53,32 @@ function isValuableItem(itemId: string, itemName?: string): boolean {
   return valuablePatterns.some(p => name.includes(p));
 }
 
-function getMobLevel(mob: Entity): number {
-  return mob.level ?? mob.combatLevel ?? 1;
+const COINS_ITEM_ID = "coins";
+
+/**
+ * Coin value of one unit of a staked item: coins are worth 1, other items
+ * what the server reported for them (null if it has not)
+ */
+function getUnitValue(item: TradeOfferItem): number | null {
+  if (item.itemId === COINS_ITEM_ID) return 1;
+  return typeof item.value === "number" ? item.value : null;
 }
 
-function getPlayerCombatLevel(state: GameState): number {
-  const skills = state.playerEntity?.skills ?? {};
-  const attack = skills.attack?.level ?? 1;
-  const strength = skills.strength?.level ?? 1;
-  const defence = skills.defence?.level ?? 1;
-  const hitpoints = skills.hitpoints?.level ?? 10;
-  
-  // Simplified combat level calc
-  return Math.floor((attack + strength + defence + hitpoints) / 4);
+/**
+ * Coin value of a stake, plus the items we can't value
+ */
+function getStakeValue(stakes: TradeOfferItem[]): { value: number; unpriced: TradeOfferItem[] } {
+  let value = 0;
+  const unpriced: TradeOfferItem[] = [];
+  for (const item of stakes) {
+    const unit = getUnitValue(item);
+    if (unit === null) {
+      unpriced.push(item);
+    } else {
+      value += unit * item.quantity;
+    }
+  }
+  return { value, unpriced };
 }
 
 // === Guardrails ===
@@ -127,7 +142,7 @@ export const GUARDRAILS: Guardrail[] = [
   {
     id: "no_attack_high_level",
     name: "Don't Attack Overpowered Mobs",
-    description: "Don't attack mobs significantly higher level",
+    description: "Don't attack mobs we are unlikely to beat",
     severity: "warning",
     isTriggered: (state, action) => {
       if (action.tool !== "hyperscape_attack") return false;
@@ -135,14 +150,11 @@ export const GUARDRAILS: Guardrail[] = [
       const target = state.nearbyEntities.get(targetId);
       if (!target) return false;
       
-      const mobLevel = getMobLevel(target);
-      const playerLevel = getPlayerCombatLevel(state);
-      
-      return mobLevel > playerLevel + 10;
+      return !SAFE_THREATS.includes(assessThreat(state, target).threat);
     },
     getMessage: (state) => {
       const playerLevel = getPlayerCombatLevel(state);
-      return `⚠️ WARNING: Target is much higher level than you (combat level ~${playerLevel}). Consider finding easier targets.`;
+      return `⚠️ WARNING: Target is likely to beat you (your combat level is ${playerLevel}). Consider finding easier targets.`;
     },
   },
 
@@ -164,6 +176,23 @@ export const GUARDRAILS: Guardrail[] = [
     getMessage: () => `⚠️ WARNING: Already fighting another target. Focus on current enemy first.`,
   },
 
+  {
+    id: "no_ability_on_cooldown",
+    name: "Don't Spam Abilities on Cooldown",
+    description: "Don't cast spells or use abilities that are still on cooldown",
+    severity: "block",
+    isTriggered: (state, action) => {
+      const abilityId = action.tool === "hyperscape_cast_spell"
+        ? action.params.spellId as string
+        : action.tool === "hyperscape_use_ability"
+          ? action.params.abilityId as string
+          : null;
+      if (!abilityId) return false;
+      return (state.abilityCooldowns.get(abilityId) ?? 0) > monotonicNow();
+    },
+    getMessage: () => `⚠️ BLOCKED: That ability is still on cooldown. Attack normally or wait.`,
+  },
+
   // === RESOURCE MANAGEMENT ===
   {
     id: "inventory_full_warning",
@@ -180,6 +209,55 @@ export const GUARDRAILS: Guardrail[] = [
     getMessage: () => `⚠️ WARNING: Inventory almost full (26+/28 slots). Consider banking soon.`,
   },
 
+  // === TRADE SAFETY ===
+  {
+    id: "no_accept_changed_trade",
+    name: "Don't Accept Changed Trades",
+    description: "Never accept a trade confirm screen if the partner changed their offer after we last accepted it",
+    severity: "block",
+    isTriggered: (state, action) => {
+      if (action.tool !== "hyperscape_trade_accept") return false;
+      const trade = state.trade;
+      return trade?.stage === "confirm" && trade.counterOfferChanged;
+    },
+    getMessage: (state) => `⚠️ BLOCKED: ${state.trade?.partnerName || "Trade partner"} changed their offer after you accepted. Cancel the trade instead.`,
+  },
+
+  // === DUEL SAFETY ===
+  {
+    id: "duel_stake_limit",
+    name: "Respect Duel Stake Limit",
+    description: "Never stake more coin value than the limit set when the duel was issued or accepted",
+    severity: "block",
+    isTriggered: (state, action) => {
+      const duel = state.duel;
+      if (!duel || duel.stakeLimit === null) return false;
+      const staked = getStakeValue(duel.myStakes);
+      if (action.tool === "hyperscape_duel_stake") {
+        // Items the server has not valued yet are checked again on accept
+        const itemId = action.params.itemId as string;
+        const quantity = (action.params.quantity as number | undefined) ?? 1;
+        const known = [...duel.myStakes, ...duel.theirStakes].find(i => i.itemId === itemId);
+        const unit = getUnitValue(known ?? { itemId, quantity }) ?? 0;
+        return staked.value + unit * quantity > duel.stakeLimit;
+      }
+      if (action.tool === "hyperscape_duel_accept") {
+        return (duel.stage === "stakes" || duel.stage === "confirm")
+          && (staked.value > duel.stakeLimit || staked.unpriced.length > 0);
+      }
+      return false;
+    },
+    getMessage: (state) => {
+      const duel = state.duel;
+      const unpriced = duel ? getStakeValue(duel.myStakes).unpriced : [];
+      if (unpriced.length > 0) {
+        const names = unpriced.map(i => i.name ?? i.itemId).join(", ");
+        return `⚠️ BLOCKED: The value of ${names} is unknown, so your ${duel?.stakeLimit} coin stake limit can't be checked. Remove it or cancel the duel.`;
+      }
+      return `⚠️ BLOCKED: Duel stake would be worth more than your limit of ${duel?.stakeLimit} coins. Remove stakes or cancel the duel.`;
+    },
+  },
+
   // === UI STATE GUARDRAILS ===
   {
     id: "respect_dialogue",
@@ -293,6 +371,12 @@ export function getActiveConstraints(state: GameState): string[] {
   if (state.storeOpen) {
     constraints.push("🏪 STORE OPEN: Must close store before moving or fighting");
   }
+  if (state.smeltingOpen || state.smithingOpen) {
+    constraints.push("🔨 FURNACE/ANVIL OPEN: Smelt/smith or close the interface before moving");
+  }
+  if (state.trade?.counterOfferChanged) {
+    constraints.push("🤝 TRADE CHANGED: Partner altered their offer after you accepted, do not accept");
+  }
 
   // Check inventory
   const invSpace = 28 - (state.playerEntity?.inventory?.length ?? 0);
@@ -304,7 +388,13 @@ export function getActiveConstraints(state: GameState): string[] {
 
   // Check combat state
   if (state.currentTarget) {
-    constraints.push(`⚔️ IN COMBAT with target ${state.currentTarget}: Focus on current fight`);
+    const target = state.nearbyEntities.get(state.currentTarget);
+    const threat = target ? assessThreat(state, target) : null;
+    const odds = threat ? ` (${threat.threat} threat, ~${Math.round(threat.winProbability * 100)}% win)` : "";
+    constraints.push(`⚔️ IN COMBAT with target ${state.currentTarget}${odds}: Focus on current fight`);
+    if (threat && !SAFE_THREATS.includes(threat.threat)) {
+      constraints.push("🏃 LOSING FIGHT: Consider eating or fleeing before HP gets low");
+    }
   }
 
   return constraints;
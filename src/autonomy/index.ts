@@ -7,3 +7,8 @@
 export * from "./goals.js";
 export * from "./guardrails.js";
 export * from "./agent.js";
+export * from "./planner.js";
+export * from "./events.js";
+export * from "./sinks.js";
+export * from "./telegram.js";
+export * from "./metrics.js";
@@ -0,0 +1,191 @@
+/**
+ * Session Metrics for Autonomous Hyperscape Agent
+ *
+ * A log sink that keeps timestamped XP, coin, death and goal events and
+ * turns them into rates over rolling windows (XP/hour per skill, GP/hour,
+ * deaths/hour, goal success rates). Exports as JSON or CSV so runs with
+ * different agent configurations can be compared.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, extname } from "path";
+import type { AgentEvent } from "./events.js";
+import type { LogSink } from "./sinks.js";
+import { perHour, rateWindowStart } from "../rates.js";
+
+export type MetricName = "xp" | "gp" | "death" | "goal_selected" | "goal_completed" | "goal_failed";
+
+export interface MetricSample {
+  timestamp: number;
+  metric: MetricName;
+  /** Skill for xp, goal id for goals, killer for deaths ("" if none) */
+  key: string;
+  /** XP gained, coin delta, 1 per death, goal duration in ms (0 when selected) */
+  value: number;
+}
+
+export interface GoalMetrics {
+  selected: number;
+  completed: number;
+  failed: number;
+  /** completed / (completed + failed), null until a goal has ended */
+  successRate: number | null;
+}
+
+export interface MetricsSummary {
+  /** Rolling window length, null for the whole session */
+  windowMs: number | null;
+  from: number;
+  to: number;
+  xpPerHour: Record<string, number>;
+  totalXpPerHour: number;
+  gpPerHour: number;
+  deathsPerHour: number;
+  goals: Record<string, GoalMetrics>;
+  goalSuccessRate: number | null;
+}
+
+export type MetricsFormat = "json" | "csv";
+
+/** 15 minutes, 1 hour and the whole session */
+export const DEFAULT_METRICS_WINDOWS: Array<number | null> = [900000, 3600000, null];
+
+/** Oldest samples are dropped beyond this */
+const MAX_SAMPLES = 50000;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+function successRate(completed: number, failed: number): number | null {
+  return completed + failed > 0 ? round(completed / (completed + failed)) : null;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export class AgentMetrics implements LogSink {
+  readonly name = "metrics";
+  private samples: MetricSample[] = [];
+  private sessionStart = Date.now();
+
+  /**
+   * Forget everything and start a new session
+   */
+  reset(now = Date.now()): void {
+    this.samples = [];
+    this.sessionStart = now;
+  }
+
+  write(event: AgentEvent): void {
+    switch (event.type) {
+      case "xp_gained":
+        this.add(event.timestamp, "xp", event.data.skill, event.data.xp);
+        break;
+      case "coins_changed":
+        this.add(event.timestamp, "gp", "", event.data.delta);
+        break;
+      case "death":
+        this.add(event.timestamp, "death", event.data.killedBy ?? "", 1);
+        break;
+      case "goal_selected":
+        this.add(event.timestamp, "goal_selected", event.data.goalId, 0);
+        break;
+      case "goal_completed":
+        this.add(event.timestamp, "goal_completed", event.data.goalId, event.data.durationMs);
+        break;
+      case "goal_failed":
+        this.add(event.timestamp, "goal_failed", event.data.goalId, event.data.durationMs);
+        break;
+    }
+  }
+
+  private add(timestamp: number, metric: MetricName, key: string, value: number): void {
+    this.samples.push({ timestamp, metric, key, value });
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+  }
+
+  /**
+   * All samples, oldest first
+   */
+  getSamples(): MetricSample[] {
+    return [...this.samples];
+  }
+
+  /**
+   * Rates and goal outcomes over the last `windowMs` (null = whole session)
+   */
+  getSummary(windowMs: number | null = null, now = Date.now()): MetricsSummary {
+    const from = rateWindowStart(this.sessionStart, windowMs, now);
+    const rate = (total: number) => round(perHour(total, from, now));
+    const samples = this.samples.filter(s => s.timestamp >= from && s.timestamp <= now);
+
+    const xp: Record<string, number> = {};
+    let gp = 0;
+    let deaths = 0;
+    const goals: Record<string, GoalMetrics> = {};
+    const goal = (id: string) => goals[id] ??= { selected: 0, completed: 0, failed: 0, successRate: null };
+
+    for (const sample of samples) {
+      switch (sample.metric) {
+        case "xp": xp[sample.key] = (xp[sample.key] ?? 0) + sample.value; break;
+        case "gp": gp += sample.value; break;
+        case "death": deaths++; break;
+        case "goal_selected": goal(sample.key).selected++; break;
+        case "goal_completed": goal(sample.key).completed++; break;
+        case "goal_failed": goal(sample.key).failed++; break;
+      }
+    }
+
+    let completed = 0;
+    let failed = 0;
+    for (const stats of Object.values(goals)) {
+      stats.successRate = successRate(stats.completed, stats.failed);
+      completed += stats.completed;
+      failed += stats.failed;
+    }
+
+    const xpPerHour = Object.fromEntries(Object.entries(xp).map(([skill, total]) => [skill, rate(total)]));
+    return {
+      windowMs,
+      from,
+      to: now,
+      xpPerHour,
+      totalXpPerHour: rate(Object.values(xp).reduce((a, b) => a + b, 0)),
+      gpPerHour: rate(gp),
+      deathsPerHour: rate(deaths),
+      goals,
+      goalSuccessRate: successRate(completed, failed),
+    };
+  }
+
+  /**
+   * Summaries for several windows plus every sample
+   */
+  toJSON(windows = DEFAULT_METRICS_WINDOWS, now = Date.now()) {
+    return {
+      sessionStart: this.sessionStart,
+      exportedAt: now,
+      summaries: windows.map(w => this.getSummary(w, now)),
+      samples: this.getSamples(),
+    };
+  }
+
+  /**
+   * One row per sample: timestamp,metric,key,value
+   */
+  toCsv(): string {
+    const rows = this.samples.map(s =>
+      [new Date(s.timestamp).toISOString(), s.metric, csvField(s.key), String(s.value)].join(","));
+    return ["timestamp,metric,key,value", ...rows].join("\n") + "\n";
+  }
+
+  /**
+   * Write an export to disk (format from the extension unless given)
+   */
+  async export(path: string, format?: MetricsFormat): Promise<MetricsFormat> {
+    const resolved = format ?? (extname(path).toLowerCase() === ".csv" ? "csv" : "json");
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, resolved === "csv" ? this.toCsv() : JSON.stringify(this.toJSON(), null, 2));
+    return resolved;
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Planners for Autonomous Hyperscape Agent
+ *
+ * A planner turns the current state and goal into THINKING + ACTION.
+ * LlmPlanner asks a model through an injected completion function;
+ * RuleBasedPlanner is the deterministic fallback used when no model is
+ * configured or the model's answer can't be used.
+ */
+
+import type { GameState } from "../types.js";
+import { selectResourceTarget } from "../resources.js";
+import { selectCombatTarget } from "../combat.js";
+import type { GoalContext, GoalTemplate } from "./goals.js";
+import type { ProposedAction } from "./guardrails.js";
+
+export interface PlannerInput {
+  state: GameState;
+  goal: GoalTemplate | null;
+  goalContext: GoalContext;
+  /** HyperscapeClient.getStateContext() */
+  stateContext: string;
+  /** WorldMap.getContext() - remembered banks, stores and resources */
+  knownLocations: string;
+  /** TrainingPlanner.getContext() - skill targets, XP rates and ETAs */
+  training: string;
+  /** HyperscapeClient.getAvailableActions() */
+  availableActions: string[];
+  /** formatGuardrailsPrompt() output, empty when nothing is active */
+  constraints: string;
+  /** AgentConfig.customPrompt */
+  customPrompt: string;
+  /** Recent THINKING lines, oldest first */
+  recentThinking: string[];
+}
+
+export interface PlannerDecision {
+  thinking: string;
+  action: ProposedAction | null;
+}
+
+export interface Planner {
+  readonly name: string;
+  /** Return null when no usable decision could be made (the agent falls back) */
+  plan(input: PlannerInput): Promise<PlannerDecision | null>;
+}
+
+export interface CompletionMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+/**
+ * Model call injected by the host (OpenAI, Anthropic, local model, stub...)
+ */
+export type CompletionFunction = (messages: CompletionMessage[]) => Promise<string>;
+
+/**
+ * Tools the agent loop can execute, with their parameters
+ */
+export const AGENT_TOOLS: Record<string, string> = {
+  hyperscape_move: '{"x": number, "z": number, "y"?: number}',
+  hyperscape_navigate_to: '{"x": number, "z": number}',
+  hyperscape_go_to_nearest: '{"type": string, "name"?: string}',
+  hyperscape_go_to_known: '{"kind": "bank" | "store" | "resource" | "npc", "name"?: string}',
+  hyperscape_attack: '{"targetId": string}',
+  hyperscape_gather: '{"resourceId": string}',
+  hyperscape_pickup: '{"itemId": string}',
+  hyperscape_use_item: '{"itemId": string}',
+  hyperscape_respawn: "{}",
+  hyperscape_home_teleport: "{}",
+  hyperscape_npc_interact: '{"npcId": string, "action"?: string}',
+  hyperscape_bank_deposit_all: "{}",
+  hyperscape_bank_close: "{}",
+  hyperscape_store_close: "{}",
+  hyperscape_dialogue_continue: "{}",
+  hyperscape_dialogue_close: "{}",
+};
+
+const SYSTEM_PROMPT = `You are an autonomous agent playing Hyperscape, a RuneScape-style MMORPG.
+Each turn you see the game state and your current goal, reason briefly, then pick ONE action.
+Hard constraints are enforced after you answer; actions that break them are rejected.
+
+Answer in exactly this format:
+THINKING: <one or two sentences of reasoning>
+ACTION: {"tool": "<tool name>", "params": { ... }}
+
+Use ACTION: none if waiting is the best choice.`;
+
+/**
+ * Pull THINKING text and a tool call out of a model response.
+ * Accepts {"tool", "params"} or {"name", "arguments"} objects, optionally in a code fence.
+ * Returns null if the response has no parseable action.
+ */
+export function parseToolCall(response: string): PlannerDecision | null {
+  const thinkingMatch = response.match(/THINKING:\s*([\s\S]*?)(?=\n\s*ACTION:|$)/i);
+  const thinking = (thinkingMatch?.[1] ?? "").trim();
+
+  const actionIndex = response.search(/ACTION:/i);
+  const actionText = actionIndex >= 0 ? response.slice(actionIndex + "ACTION:".length) : response;
+
+  if (/^\s*(none|wait|null)\b/i.test(actionText)) {
+    return { thinking, action: null };
+  }
+
+  const json = extractJsonObject(actionText);
+  if (!json) return null;
+
+  try {
+    const call = JSON.parse(json) as {
+      tool?: unknown;
+      name?: unknown;
+      params?: unknown;
+      arguments?: unknown;
+    };
+    const tool = call.tool ?? call.name;
+    let params = call.params ?? call.arguments ?? {};
+    if (typeof params === "string") params = JSON.parse(params);
+    if (typeof tool !== "string" || typeof params !== "object" || params === null) return null;
+
+    return { thinking, action: { tool, params: params as Record<string, unknown> } };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * First balanced {...} in the text (string-aware)
+ */
+function extractJsonObject(text: string): string | null {
+  const start = text.indexOf("{");
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * Asks a model for the next action
+ */
+export class LlmPlanner implements Planner {
+  readonly name = "llm";
+
+  constructor(private complete: CompletionFunction) {}
+
+  async plan(input: PlannerInput): Promise<PlannerDecision | null> {
+    const response = await this.complete(this.buildMessages(input));
+    const decision = parseToolCall(response);
+    if (!decision) return null;
+
+    // Only tools the agent loop can actually execute
+    if (decision.action && !(decision.action.tool in AGENT_TOOLS)) {
+      console.warn(`[LlmPlanner] Ignoring ${decision.action.tool}: the agent loop cannot execute it`);
+      return null;
+    }
+
+    return { ...decision, thinking: decision.thinking || "(no reasoning given)" };
+  }
+
+  buildMessages(input: PlannerInput): CompletionMessage[] {
+    const system = input.customPrompt ? `${SYSTEM_PROMPT}\n\n${input.customPrompt}` : SYSTEM_PROMPT;
+    // The client lists every tool the game state allows; offer only the ones the loop can run
+    const actions = input.availableActions.filter(action => action in AGENT_TOOLS);
+
+    const sections = [
+      input.goal
+        ? `## Current Goal\n${input.goal.name}: ${input.goal.getPrompt(input.state)}`
+        : "## Current Goal\nNone",
+      input.stateContext,
+      input.knownLocations,
+      input.training,
+      `## Available Actions\n${actions.length > 0 ? actions.map(a => `- ${a}`).join("\n") : "None"}`,
+    ];
+    if (input.constraints) {
+      sections.push(input.constraints);
+    }
+    if (input.recentThinking.length > 0) {
+      sections.push(`## Recent Thinking\n${input.recentThinking.map(t => `- ${t}`).join("\n")}`);
+    }
+    sections.push(`## Tools\n${Object.entries(AGENT_TOOLS).map(([tool, params]) => `- ${tool} ${params}`).join("\n")}`);
+
+    return [
+      { role: "system", content: system },
+      { role: "user", content: sections.join("\n\n") },
+    ];
+  }
+}
+
+/**
+ * Hard-coded goal → action mapping
+ */
+export class RuleBasedPlanner implements Planner {
+  readonly name = "rules";
+
+  async plan(input: PlannerInput): Promise<PlannerDecision> {
+    const { state, goal } = input;
+    const thinkingParts: string[] = [];
+
+    // Current state assessment
+    const hp = state.playerEntity?.health ?? 0;
+    const maxHp = state.playerEntity?.maxHealth ?? 1;
+    const hpPercent = (hp / maxHp * 100).toFixed(0);
+    thinkingParts.push(`HP: ${hpPercent}%`);
+
+    if (goal) {
+      thinkingParts.push(`Goal: ${goal.name}`);
+      thinkingParts.push(goal.getPrompt(state));
+    }
+
+    if (input.constraints) {
+      thinkingParts.push(`Constraints: ${input.constraints}`);
+    }
+
+    return {
+      thinking: thinkingParts.join(" | "),
+      action: goal ? this.selectActionForGoal(state, goal, input.goalContext) : null,
+    };
+  }
+
+  /**
+   * Select the appropriate action for current goal
+   */
+  selectActionForGoal(state: GameState, goal: GoalTemplate, context: GoalContext): ProposedAction | null {
+    const groundItems = Array.from(state.nearbyEntities.values())
+      .filter(e => e.type === "item" || e.type === "groundItem");
+
+    switch (goal.id) {
+      case "flee_danger":
+        // Move away from threats
+        return { tool: "hyperscape_home_teleport", params: {} };
+
+      case "eat_food":
+        const food = state.playerEntity?.inventory?.find(i =>
+          i.name?.toLowerCase().includes("fish") ||
+          i.name?.toLowerCase().includes("meat") ||
+          i.name?.toLowerCase().includes("bread")
+        );
+        if (food) {
+          return { tool: "hyperscape_use_item", params: { itemId: food.itemId } };
+        }
+        break;
+
+      case "respawn":
+        return { tool: "hyperscape_respawn", params: {} };
+
+      case "train_combat":
+        // Safest mob we expect to beat
+        const fight = selectCombatTarget(state);
+        if (fight) {
+          return { tool: "hyperscape_attack", params: { targetId: fight.mobId } };
+        }
+        break;
+
+      case "gather_resources":
+        // Nearest available node (of the type a skill target needs); if all are depleted, wait for the next respawn
+        const trainingType = context.trainingPlans.find(p => p.recommendation.resourceType)?.recommendation.resourceType;
+        const resource = (trainingType && selectResourceTarget(state, { type: trainingType })) || selectResourceTarget(state);
+        if (resource?.status === "available") {
+          return { tool: "hyperscape_gather", params: { resourceId: resource.id } };
+        }
+        break;
+
+      case "collect_loot":
+        if (groundItems.length > 0) {
+          const target = groundItems[0];
+          return { tool: "hyperscape_pickup", params: { itemId: target.id } };
+        }
+        break;
+
+      case "explore_area":
+        // Random movement
+        const pos = state.playerEntity?.position ?? [0, 0, 0];
+        const angle = Math.random() * Math.PI * 2;
+        const distance = 10 + Math.random() * 20;
+        return {
+          tool: "hyperscape_navigate_to",
+          params: {
+            x: pos[0] + Math.cos(angle) * distance,
+            z: pos[2] + Math.sin(angle) * distance,
+          }
+        };
+
+      case "bank_items":
+        if (state.bankOpen) {
+          return { tool: "hyperscape_bank_deposit_all", params: {} };
+        }
+        // Find bank NPC
+        const bankNpc = Array.from(state.nearbyEntities.values())
+          .find(e => e.name?.toLowerCase().includes("bank"));
+        if (bankNpc) {
+          return { tool: "hyperscape_npc_interact", params: { npcId: bankNpc.id, action: "bank" } };
+        }
+        // Walk to the bank remembered on the world map
+        if (context.nearestKnownBank) {
+          const [x, , z] = context.nearestKnownBank.position;
+          return { tool: "hyperscape_navigate_to", params: { x, z } };
+        }
+        break;
+    }
+
+    return null;
+  }
+}
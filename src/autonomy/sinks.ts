@@ -0,0 +1,186 @@
+/**
+ * Log Sinks for Autonomous Hyperscape Agent
+ *
+ * A sink receives every structured agent event. Several sinks can run
+ * at once (e.g. console + JSONL file + Telegram); each filters by level
+ * and event type on its own.
+ */
+
+import { appendFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import type { AgentEvent, AgentEventLevel, AgentEventType } from "./events.js";
+import { formatEventLine } from "./events.js";
+import { TelegramLogSink, type TelegramSinkConfig } from "./telegram.js";
+
+export interface LogSink {
+  /** Unique name, used by removeSink() */
+  readonly name: string;
+  write(event: AgentEvent): void | Promise<void>;
+  /** Wait for buffered events to be delivered */
+  flush?(): Promise<void>;
+}
+
+interface SinkFilter {
+  /** Lowest level to deliver ("info" skips debug events) */
+  level?: AgentEventLevel;
+  /** Only deliver these event types */
+  events?: AgentEventType[];
+}
+
+export type LogSinkConfig =
+  | ({ type: "console" } & SinkFilter)
+  | ({ type: "jsonl"; path: string } & SinkFilter)
+  | ({ type: "webhook"; url: string; headers?: Record<string, string> } & SinkFilter)
+  | ({ type: "telegram" } & TelegramSinkConfig & SinkFilter);
+
+/**
+ * Check an event against a sink's level/type filter
+ */
+export function acceptsEvent(filter: SinkFilter, event: AgentEvent): boolean {
+  if (filter.level === "info" && event.level === "debug") return false;
+  if (filter.events && !filter.events.includes(event.type)) return false;
+  return true;
+}
+
+/**
+ * Prints event lines to stdout
+ */
+export class ConsoleLogSink implements LogSink {
+  readonly name = "console";
+
+  constructor(private filter: SinkFilter = { level: "info" }) {}
+
+  write(event: AgentEvent): void {
+    if (!acceptsEvent(this.filter, event)) return;
+    console.log(`[HyperscapeAgent] ${formatEventLine(event)}`);
+  }
+}
+
+/**
+ * Appends one JSON object per event to a file
+ */
+export class JsonlFileLogSink implements LogSink {
+  readonly name: string;
+  private writing: Promise<void> = Promise.resolve();
+  private ready: Promise<unknown> | null = null;
+
+  constructor(private path: string, private filter: SinkFilter = {}) {
+    this.name = `jsonl:${path}`;
+  }
+
+  write(event: AgentEvent): Promise<void> {
+    if (!acceptsEvent(this.filter, event)) return Promise.resolve();
+
+    this.ready ??= mkdir(dirname(this.path), { recursive: true });
+    const line = JSON.stringify(event) + "\n";
+    // Chain appends so lines stay in event order
+    this.writing = this.writing
+      .then(() => this.ready)
+      .then(() => appendFile(this.path, line))
+      .catch(err => console.error(`[JsonlFileLogSink] Failed to write ${this.path}:`, err));
+    return this.writing;
+  }
+
+  flush(): Promise<void> {
+    return this.writing;
+  }
+}
+
+/**
+ * POSTs each event as JSON to an HTTP endpoint
+ */
+export class WebhookLogSink implements LogSink {
+  readonly name: string;
+  private pending = new Set<Promise<void>>();
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {},
+    private filter: SinkFilter = {},
+  ) {
+    this.name = `webhook:${url}`;
+  }
+
+  write(event: AgentEvent): void {
+    if (!acceptsEvent(this.filter, event)) return;
+
+    // Don't hold up the agent loop on the network; flush() waits instead
+    const request = this.post(event).finally(() => this.pending.delete(request));
+    this.pending.add(request);
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  private async post(event: AgentEvent): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.headers },
+        body: JSON.stringify(event),
+      });
+      if (!response.ok) {
+        console.error(`[WebhookLogSink] ${this.url} responded ${response.status}`);
+      }
+    } catch (err) {
+      console.error(`[WebhookLogSink] Failed to post to ${this.url}:`, err);
+    }
+  }
+}
+
+/**
+ * Sends event lines to a Telegram chat/topic
+ */
+export class TelegramEventSink implements LogSink {
+  readonly name: string;
+  private telegram: TelegramLogSink;
+
+  constructor(config: TelegramSinkConfig, private filter: SinkFilter = { level: "info" }) {
+    this.telegram = new TelegramLogSink(config);
+    this.name = `telegram:${config.chatId}${config.topicId ? `/${config.topicId}` : ""}`;
+  }
+
+  write(event: AgentEvent): Promise<void> | void {
+    if (!acceptsEvent(this.filter, event)) return;
+    return this.telegram.send(formatEventLine(event));
+  }
+
+  flush(): Promise<void> {
+    return this.telegram.flush();
+  }
+}
+
+/**
+ * Wraps a plain text callback (the old setLogger API) as a sink
+ */
+export class CallbackLogSink implements LogSink {
+  constructor(
+    readonly name: string,
+    private callback: (message: string) => Promise<void>,
+    private filter: SinkFilter = { level: "info" },
+  ) {}
+
+  write(event: AgentEvent): Promise<void> | void {
+    if (!acceptsEvent(this.filter, event)) return;
+    return this.callback(formatEventLine(event));
+  }
+}
+
+/**
+ * Build a sink from its declarative config
+ */
+export function createLogSink(config: LogSinkConfig): LogSink {
+  const filter: SinkFilter = { level: config.level, events: config.events };
+
+  switch (config.type) {
+    case "console":
+      return new ConsoleLogSink({ ...filter, level: config.level ?? "info" });
+    case "jsonl":
+      return new JsonlFileLogSink(config.path, filter);
+    case "webhook":
+      return new WebhookLogSink(config.url, config.headers, filter);
+    case "telegram":
+      return new TelegramEventSink(config, { ...filter, level: config.level ?? "info" });
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Telegram Log Sink for Autonomous Hyperscape Agent
+ *
+ * Streams agent log lines to a Telegram chat (optionally a forum topic)
+ * through the Bot API sendMessage method. Lines are batched to stay under
+ * Telegram's rate limits, and 429 responses are retried after retry_after.
+ * A batch the API refuses to parse as MarkdownV2 is resent once as plain text.
+ */
+
+export interface TelegramSinkConfig {
+  /** Bot token from @BotFather (default: TELEGRAM_BOT_TOKEN env var) */
+  botToken?: string;
+  /** Target chat ID */
+  chatId: string;
+  /** Forum topic (message_thread_id), 0 or undefined for the main chat */
+  topicId?: number;
+  /** Bot API base URL (default https://api.telegram.org) */
+  apiBaseUrl?: string;
+  /** How long to collect lines before sending a batch in ms (default 2000) */
+  batchInterval?: number;
+  /** Attempts per batch before it is dropped (default 5) */
+  maxRetries?: number;
+}
+
+/** Telegram rejects messages longer than 4096 characters */
+const MAX_MESSAGE_LENGTH = 4096;
+
+/** Characters that must be escaped in MarkdownV2 text */
+const MARKDOWN_V2_SPECIAL = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+
+/** A message as MarkdownV2 and as the plain-text fallback */
+interface TelegramBatch {
+  text: string;
+  plain: string;
+}
+
+/**
+ * Escape text for Telegram MarkdownV2, keeping **bold** spans as bold
+ */
+export function escapeTelegramMarkdown(text: string): string {
+  return text
+    .split(/(\*\*[^*\n]+\*\*)/g)
+    .map(part => {
+      const bold = part.match(/^\*\*([^*\n]+)\*\*$/);
+      if (bold) {
+        return `*${bold[1].replace(MARKDOWN_V2_SPECIAL, "\\$&")}*`;
+      }
+      return part.replace(MARKDOWN_V2_SPECIAL, "\\$&");
+    })
+    .join("");
+}
+
+/**
+ * Cut a line so that its escaped form fits in one message. Truncating the
+ * escaped text instead could leave a dangling backslash or half a bold span.
+ */
+function fitLine(line: string): TelegramBatch {
+  let plain = line.slice(0, MAX_MESSAGE_LENGTH);
+  let text = escapeTelegramMarkdown(plain);
+  while (text.length > MAX_MESSAGE_LENGTH) {
+    // An escaped character takes at most two, so this never cuts more than needed
+    plain = plain.slice(0, plain.length - Math.ceil((text.length - MAX_MESSAGE_LENGTH) / 2));
+    text = escapeTelegramMarkdown(plain);
+  }
+  return { text, plain };
+}
+
+export class TelegramLogSink {
+  private config: Required<TelegramSinkConfig>;
+  private queue: string[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(config: TelegramSinkConfig) {
+    this.config = {
+      botToken: config.botToken ?? process.env.TELEGRAM_BOT_TOKEN ?? "",
+      chatId: config.chatId,
+      topicId: config.topicId ?? 0,
+      apiBaseUrl: (config.apiBaseUrl ?? "https://api.telegram.org").replace(/\/$/, ""),
+      batchInterval: config.batchInterval ?? 2000,
+      maxRetries: config.maxRetries ?? 5,
+    };
+
+    if (!this.config.botToken) {
+      throw new Error("Telegram bot token missing (set TELEGRAM_BOT_TOKEN)");
+    }
+  }
+
+  /**
+   * Queue a log line; it is sent with the next batch
+   */
+  async send(message: string): Promise<void> {
+    this.queue.push(message);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, this.config.batchInterval);
+    }
+  }
+
+  /**
+   * Send everything queued so far and wait for delivery
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const lines = this.queue.splice(0);
+    if (lines.length > 0) {
+      // Chain batches so they arrive in order
+      this.sending = this.sending.then(() => this.sendBatches(lines));
+    }
+    await this.sending;
+  }
+
+  private async sendBatches(lines: string[]): Promise<void> {
+    for (const batch of this.buildBatches(lines)) {
+      await this.sendMessage(batch);
+    }
+  }
+
+  /**
+   * Join escaped lines into messages that fit Telegram's length limit
+   */
+  private buildBatches(lines: string[]): TelegramBatch[] {
+    const batches: TelegramBatch[] = [];
+    let current: TelegramBatch | null = null;
+
+    for (const line of lines) {
+      const fitted = fitLine(line);
+      if (current && current.text.length + 1 + fitted.text.length > MAX_MESSAGE_LENGTH) {
+        batches.push(current);
+        current = null;
+      }
+      current = current
+        ? { text: `${current.text}\n${fitted.text}`, plain: `${current.plain}\n${fitted.plain}` }
+        : fitted;
+    }
+    if (current) batches.push(current);
+
+    return batches;
+  }
+
+  private async sendMessage(batch: TelegramBatch): Promise<void> {
+    const rejection = await this.post({ text: batch.text, parse_mode: "MarkdownV2" });
+    if (rejection === null) return;
+
+    console.warn(`[TelegramLogSink] sendMessage rejected (${rejection}), resending as plain text`);
+    const plainRejection = await this.post({ text: batch.plain });
+    if (plainRejection !== null) {
+      console.error(`[TelegramLogSink] sendMessage failed: ${plainRejection}`);
+    }
+  }
+
+  /**
+   * POST a sendMessage call, retrying rate limits and server errors.
+   * Returns the reason for a 4xx rejection, or null once sent or given up.
+   */
+  private async post(message: { text: string; parse_mode?: string }): Promise<string | null> {
+    const url = `${this.config.apiBaseUrl}/bot${this.config.botToken}/sendMessage`;
+    const body = {
+      chat_id: this.config.chatId,
+      ...message,
+      disable_web_page_preview: true,
+      ...(this.config.topicId ? { message_thread_id: this.config.topicId } : {}),
+    };
+
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        if (response.ok) return null;
+
+        const result = await response.json().catch(() => ({})) as {
+          description?: string;
+          parameters?: { retry_after?: number };
+        };
+
+        if (response.status === 429) {
+          const retryAfter = result.parameters?.retry_after ?? 1;
+          await sleep(retryAfter * 1000);
+          continue;
+        }
+        if (response.status < 500) {
+          // Bad request, wrong chat, etc. - retrying the same body will not help
+          return result.description ?? String(response.status);
+        }
+      } catch (err) {
+        if (attempt === this.config.maxRetries) {
+          console.error("[TelegramLogSink] sendMessage failed:", err);
+          return null;
+        }
+      }
+      await sleep(Math.min(1000 * 2 ** (attempt - 1), 30000));
+    }
+
+    console.error(`[TelegramLogSink] Dropped log batch after ${this.config.maxRetries} attempts`);
+    return null;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
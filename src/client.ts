@@ -5,9 +5,9 @@
  * using binary MessagePack protocol.
  */
 
-import WebSocket from "ws";
 import { Packr, Unpackr } from "msgpackr";
 import { EventEmitter } from "events";
+import { gunzipSync, inflateSync } from "zlib";
 import type {
   ConnectionConfig,
   GameState,
@@ -19,25 +19,156 @@ import type {
   SkillData,
   InventoryItem,
   EquippedItem,
+  TileUpdate,
+  TileMovement,
+  PositionCorrection,
+  ResourceState,
+  Quest,
+  QuestStep,
+  TradeOfferItem,
+  TradeSession,
+  DuelSession,
+  DuelStage,
+  Friend,
+  PrivateMessage,
+  ProductionInterface,
+  ProductionRecipe,
+  RecipeInput,
+  ChatMessage,
+  CommandResult,
+  CharacterSummary,
+  ReconnectConfig,
+  ConnectionStatus,
+  ConnectionHealth,
+  DisconnectInfo,
 } from "./types.js";
 import { getPacketId, getPacketName, formatSkillName, getLevelForXp } from "./types.js";
+import { webSocketTransport, type ClientTransport } from "./transport.js";
+import { Navigator } from "./navigation.js";
+import { WorldMap } from "./world-map.js";
+import { TrainingPlanner } from "./training.js";
+import { formatResourceContext, type RawResource } from "./resources.js";
+import { toPosition, type RawPosition } from "./geometry.js";
+import { LatencyTracker, computeServerTimeOffset, monotonicNow, parseServerTime, serverNow } from "./clock.js";
 
 const packr = new Packr({ structuredClone: true });
 const unpackr = new Unpackr();
 
+/** Private messages kept in GameState.social.messages */
+const MAX_PRIVATE_MESSAGES = 50;
+/** Chat messages kept per channel in GameState.chatHistory */
+const MAX_CHAT_MESSAGES = 100;
+/** Respawn durations kept per resource kind for estimating the next one */
+const MAX_RESPAWN_SAMPLES = 10;
+/** Server game tick length, for respawn times given in ticks */
+const TICK_MS = 600;
+/** Hits kept in GameState.combatHits for damage averages */
+const MAX_COMBAT_HITS = 200;
+
+/** Resource lifecycle packet: the raw resource plus availability and respawn timing */
+interface RawResourceUpdate extends RawResource {
+  depleted?: boolean;
+  isAvailable?: boolean;
+  /** ms until respawn */
+  respawnTime?: number;
+  respawnTicks?: number;
+}
+
+/** Entity in state/delta updates; positions may arrive as {x, y, z} */
+type RawEntityUpdate = Omit<Partial<Entity>, "position"> & {
+  id: string;
+  position?: RawPosition;
+};
+
+/** correction payload, before the position is normalized */
+type RawCorrection = Omit<PositionCorrection, "position"> & Pick<RawEntityUpdate, "position">;
+
+/** serverStateUpdate / deltaUpdate / (decoded) compressedUpdate payload */
+interface RawStateUpdate {
+  entities?: RawEntityUpdate[] | Record<string, Omit<RawEntityUpdate, "id">>;
+  updates?: RawEntityUpdate[];
+  changes?: RawEntityUpdate[];
+  /** IDs of entities that left view */
+  removed?: string[];
+}
+
+/** combatDamageDealt payload; attackerId is absent on hits the player dealt */
+interface RawCombatDamage {
+  attackerId?: string;
+  sourceId?: string;
+  targetId?: string;
+  damage?: number;
+  killed?: boolean;
+}
+
+interface CommandOptions {
+  /** Packets that confirm the command succeeded */
+  confirm: string[];
+  /** Packets that mean the command failed (error toasts always count) */
+  fail?: string[];
+  /** Only settle on packets this predicate accepts */
+  match?: (name: string, data: unknown) => boolean;
+  /** The server refuses this command with an error toast (toasts carry no ID, so match is not applied) */
+  errorToast?: boolean;
+  /** The server only answers failures: succeed once the quiet window passes without one */
+  quiet?: boolean;
+  timeoutMs?: number;
+}
+
+interface PendingCommand {
+  packet: string;
+  options: CommandOptions;
+  timer: NodeJS.Timeout;
+  resolve: (result: CommandResult) => void;
+}
+
+/** Trade offer changes are answered with the updated trade */
+const TRADE_UPDATE: CommandOptions = { confirm: ["tradeUpdated"], fail: ["tradeError"], errorToast: true };
+
+/** Friend and ignore list changes are answered with a list sync */
+const FRIENDS_UPDATE: CommandOptions = { confirm: ["friendsListSync"], fail: ["socialError"] };
+
+/** Friend requests and messages are only answered when they fail */
+const SOCIAL_ACTION: CommandOptions = { confirm: [], fail: ["socialError"], errorToast: true, quiet: true };
+
 export class HyperscapeClient extends EventEmitter {
-  private ws: WebSocket | null = null;
+  private ws: ClientTransport | null = null;
   private config: ConnectionConfig;
+  /** Pathfinding over tiles learned from movement packets */
+  readonly navigation: Navigator;
+  /** Remembered banks, stores and resources per world */
+  readonly worldMap: WorldMap;
+  /** Target levels and observed XP rates per skill */
+  readonly training: TrainingPlanner;
+  private reconnectConfig: Required<ReconnectConfig>;
   private reconnectTimer: NodeJS.Timeout | null = null;
+  private status: ConnectionStatus = "disconnected";
+  private reconnectAttempt = 0;
+  private reconnectCount = 0;
+  private connectedSince: number | null = null;
+  private lastDisconnect: DisconnectInfo | null = null;
+  /** Kick payload waiting for the close that follows it */
+  private pendingKick: unknown = undefined;
+  /** Re-enter the world after reconnecting (set once the server approved entry) */
+  private rejoinWorld = false;
+  private latency = new LatencyTracker();
+  private serverTimeSyncedAt: number | null = null;
   private pingInterval: NodeJS.Timeout | null = null;
+  private pendingCommands: PendingCommand[] = [];
+  private respawnSamples = new Map<string, number[]>();
 
   public state: GameState = {
     connected: false,
     authenticated: false,
+    characters: [],
+    characterId: null,
     playerEntity: null,
     nearbyEntities: new Map(),
+    entityLastSeen: new Map(),
     worldId: null,
     lastUpdate: Date.now(),
+    serverTimeOffset: 0,
+    lastInputAck: null,
     // Bank
     bankOpen: false,
     bankItems: [],
@@ -46,10 +177,43 @@ export class HyperscapeClient extends EventEmitter {
     attackStyle: "accurate",
     autoRetaliate: true,
     currentTarget: null,
+    combatHits: [],
+    // Magic & abilities
+    autocastSpell: null,
+    abilityCooldowns: new Map(),
+    lastAbilityFailure: null,
     // UI
     dialogueOpen: false,
     storeOpen: false,
     tradeOpen: false,
+    smeltingOpen: false,
+    smithingOpen: false,
+    productionInterface: null,
+    // Prayer
+    activePrayers: [],
+    // Trade
+    trade: null,
+    tradeRequests: [],
+    // Duel
+    duel: null,
+    duelChallenges: [],
+    // Chat
+    chatHistory: new Map(),
+    // Social
+    social: {
+      friends: new Map(),
+      pendingRequests: [],
+      ignoreList: [],
+      messages: [],
+      lastError: null,
+    },
+    // Quests
+    quests: new Map(),
+    pendingQuestStart: null,
+    // Resources
+    resources: new Map(),
+    gatheringResource: null,
+    gatheringTool: null,
   };
 
   constructor(config: Partial<ConnectionConfig> = {}) {
@@ -59,7 +223,22 @@ export class HyperscapeClient extends EventEmitter {
       authToken: config.authToken || process.env.HYPERSCAPE_AUTH_TOKEN,
       privyUserId: config.privyUserId || process.env.HYPERSCAPE_PRIVY_USER_ID,
       autoReconnect: config.autoReconnect ?? true,
+      commandTimeout: config.commandTimeout ?? 5000,
+      quietWindow: config.quietWindow ?? 1000,
+      transport: config.transport ?? webSocketTransport,
+      navigation: config.navigation,
+      worldMapPath: config.worldMapPath ?? process.env.HYPERSCAPE_WORLD_MAP,
+      staleEntityMs: config.staleEntityMs ?? 30000,
     };
+    this.reconnectConfig = {
+      initialDelayMs: config.reconnect?.initialDelayMs ?? 1000,
+      maxDelayMs: config.reconnect?.maxDelayMs ?? 30000,
+      maxAttempts: config.reconnect?.maxAttempts ?? 10,
+      jitter: config.reconnect?.jitter ?? 0.3,
+    };
+    this.navigation = new Navigator(this, config.navigation);
+    this.worldMap = new WorldMap(this, { path: this.config.worldMapPath });
+    this.training = new TrainingPlanner(this);
   }
 
   /**
@@ -67,15 +246,15 @@ export class HyperscapeClient extends EventEmitter {
    */
   async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
+      if (this.ws?.isOpen) {
         resolve();
         return;
       }
 
       console.log(`[HyperscapeClient] Connecting to ${this.config.serverUrl}...`);
+      if (this.status !== "reconnecting") this.status = "connecting";
 
-      this.ws = new WebSocket(this.config.serverUrl);
-      this.ws.binaryType = "arraybuffer";
+      this.ws = (this.config.transport ?? webSocketTransport)(this.config.serverUrl);
 
       const timeout = setTimeout(() => {
         reject(new Error("Connection timeout"));
@@ -85,6 +264,8 @@ export class HyperscapeClient extends EventEmitter {
         clearTimeout(timeout);
         console.log("[HyperscapeClient] Connected!");
         this.state.connected = true;
+        this.status = "connected";
+        this.connectedSince = Date.now();
         this.startPing();
         
         // Send authenticate packet if we have a token
@@ -99,26 +280,34 @@ export class HyperscapeClient extends EventEmitter {
         resolve();
       });
 
-      this.ws.on("message", (data: Buffer | ArrayBuffer) => {
+      this.ws.on("message", (data: Buffer | ArrayBuffer | Uint8Array) => {
         this.handleMessage(data);
       });
 
-      this.ws.on("close", () => {
+      this.ws.on("close", (code?: number, reason?: string) => {
         console.log("[HyperscapeClient] Disconnected");
+        if (this.state.connected) {
+          this.recordDisconnect(reason || "Connection closed", code);
+        }
         this.state.connected = false;
+        this.connectedSince = null;
         this.state.authenticated = false;
         this.stopPing();
+        this.settleAllCommands("disconnected", "Disconnected from server");
         this.emit("disconnected");
 
         if (this.config.autoReconnect) {
           this.scheduleReconnect();
+        } else {
+          this.status = "disconnected";
         }
       });
 
-      this.ws.on("error", (error) => {
+      this.ws.on("error", (error: Error) => {
         console.error("[HyperscapeClient] Error:", error.message);
         clearTimeout(timeout);
-        this.emit("error", error);
+        // Unhandled "error" events throw; failed reconnect attempts shouldn't crash the process
+        if (this.listenerCount("error") > 0) this.emit("error", error);
         reject(error);
       });
     });
@@ -129,6 +318,12 @@ export class HyperscapeClient extends EventEmitter {
    */
   disconnect(): void {
     this.config.autoReconnect = false;
+    this.rejoinWorld = false;
+    if (this.state.connected) {
+      this.recordDisconnect("Client disconnected");
+    }
+    this.status = "disconnected";
+    this.connectedSince = null;
     this.stopPing();
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
@@ -138,34 +333,109 @@ export class HyperscapeClient extends EventEmitter {
       this.ws.close();
       this.ws = null;
     }
+    this.settleAllCommands("disconnected", "Disconnected from server");
     this.state.connected = false;
     this.state.authenticated = false;
   }
 
   /**
-   * Send a binary packet to the server
+   * Send a binary packet to the server. Returns false if it could not be sent
    */
-  sendPacket(name: PacketName | string, data: unknown = {}): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+  sendPacket(name: PacketName | string, data: unknown = {}): boolean {
+    if (!this.ws?.isOpen) {
       console.warn(`[HyperscapeClient] Cannot send ${name}: not connected`);
-      return;
+      return false;
     }
 
     const packetId = getPacketId(name);
     if (packetId === null) {
       console.warn(`[HyperscapeClient] Unknown packet: ${name}`);
-      return;
+      return false;
     }
 
     const packet = packr.pack([packetId, data]);
     this.ws.send(packet);
     console.log(`[HyperscapeClient] Sent: ${name}`);
+    return true;
+  }
+
+  /**
+   * Send a packet and wait for the server to confirm or reject it.
+   * Never rejects: timeouts and failures resolve with success=false.
+   */
+  sendCommand<T = unknown>(name: PacketName | string, data: unknown, options: CommandOptions): Promise<CommandResult<T>> {
+    return new Promise((resolve) => {
+      if (!this.sendPacket(name, data)) {
+        resolve({ success: false, resolvedBy: "notSent", message: `Could not send ${name}: not connected` });
+        return;
+      }
+
+      const timeoutMs = options.quiet
+        ? this.config.quietWindow ?? 1000
+        : options.timeoutMs ?? this.config.commandTimeout ?? 5000;
+      const pending: PendingCommand = {
+        packet: name,
+        options,
+        resolve: resolve as (result: CommandResult) => void,
+        timer: setTimeout(() => {
+          this.pendingCommands = this.pendingCommands.filter(c => c !== pending);
+          resolve(options.quiet
+            ? { success: true, resolvedBy: "quiet" }
+            : { success: false, resolvedBy: "timeout", message: `No response to ${name} after ${timeoutMs}ms` });
+        }, timeoutMs),
+      };
+      this.pendingCommands.push(pending);
+    });
+  }
+
+  /**
+   * Send a packet the server does not acknowledge; succeeds once it is sent
+   */
+  sendAction(name: PacketName | string, data: unknown): CommandResult {
+    if (!this.sendPacket(name, data)) {
+      return { success: false, resolvedBy: "notSent", message: `Could not send ${name}: not connected` };
+    }
+    return { success: true, resolvedBy: "sent" };
+  }
+
+  /**
+   * Settle the oldest pending command waiting on this packet, if any
+   */
+  private settleCommands(name: string, data: unknown): void {
+    const isErrorToast = name === "showToast" && (data as { type?: string })?.type === "error";
+
+    for (const command of this.pendingCommands) {
+      const { confirm, fail = [], match, errorToast } = command.options;
+      const toastFails = isErrorToast && errorToast === true;
+      const failed = toastFails || fail.includes(name);
+      if (!failed && !confirm.includes(name)) continue;
+      if (match && !toastFails && !match(name, data)) continue;
+
+      clearTimeout(command.timer);
+      this.pendingCommands = this.pendingCommands.filter(c => c !== command);
+      const payload = data as { message?: string; reason?: string } | undefined;
+      command.resolve({
+        success: !failed,
+        resolvedBy: name,
+        data,
+        message: failed ? payload?.message ?? payload?.reason ?? `${command.packet} failed` : undefined,
+      });
+      return;
+    }
+  }
+
+  private settleAllCommands(resolvedBy: string, message: string): void {
+    for (const command of this.pendingCommands) {
+      clearTimeout(command.timer);
+      command.resolve({ success: false, resolvedBy, message });
+    }
+    this.pendingCommands = [];
   }
 
   /**
    * Handle incoming message from server
    */
-  private handleMessage(data: Buffer | ArrayBuffer): void {
+  private handleMessage(data: Buffer | ArrayBuffer | Uint8Array): void {
     try {
       const buffer = data instanceof ArrayBuffer ? Buffer.from(data) : data;
       const decoded = unpackr.unpack(buffer) as [number, unknown];
@@ -216,6 +486,56 @@ export class HyperscapeClient extends EventEmitter {
       case "playerUpdated":
         this.handlePlayerState(data);
         break;
+
+      // Resources
+      case "resourceSpawnPoints":
+        this.handleResourceList(data, "spawnPoints");
+        this.emit(name, data);
+        break;
+      case "resourceSnapshot":
+        this.handleResourceList(data, "resources");
+        this.emit(name, data);
+        break;
+      case "resourceSpawned":
+        this.handleResourceSpawned(data as RawResourceUpdate);
+        break;
+      case "resourceDepleted":
+        this.handleResourceDepleted(data as RawResourceUpdate);
+        break;
+      case "resourceRespawned":
+        this.handleResourceRespawned(data as RawResourceUpdate);
+        break;
+      case "fishingSpotMoved":
+        this.handleFishingSpotMoved(data as RawResourceUpdate & { oldId?: string; newId?: string });
+        break;
+
+      // Tile movement
+      case "entityTileUpdate":
+        this.handleEntityTileUpdate(data as TileUpdate);
+        break;
+      case "tileMovementStart":
+        this.emit("tileMovementStart", data as TileMovement);
+        break;
+      case "tileMovementEnd":
+        this.handleEntityTileUpdate(data as TileUpdate, "tileMovementEnd");
+        break;
+      case "correction":
+        this.handleCorrection(data as RawCorrection);
+        break;
+      case "inputAck":
+        this.handleInputAck(data as { seq?: number; sequence?: number });
+        break;
+
+      // Batched entity state
+      case "serverStateUpdate":
+        this.handleStateUpdate(name, data as RawStateUpdate, true);
+        break;
+      case "deltaUpdate":
+        this.handleStateUpdate(name, data as RawStateUpdate, false);
+        break;
+      case "compressedUpdate":
+        this.handleCompressedUpdate(data);
+        break;
       
       // Inventory & Items
       case "inventoryUpdated":
@@ -250,9 +570,33 @@ export class HyperscapeClient extends EventEmitter {
         this.emit("autoRetaliateChanged", data);
         break;
       case "combatDamageDealt":
-        this.emit("damageDealt", data);
+        this.handleCombatDamage(data as RawCombatDamage);
         break;
       
+      // Magic & abilities
+      case "skillActivated":
+      case "spellCast":
+        this.handleAbilityUsed(data as { abilityId?: string; spellId?: string; cooldownMs?: number });
+        this.emit(name, data);
+        break;
+      case "abilityCooldown":
+        this.handleAbilityCooldown(data as { abilityId: string; cooldownMs: number });
+        break;
+      case "abilityFailed":
+        this.handleAbilityFailed(data as { abilityId: string; reason: string });
+        break;
+
+      // Prayer
+      case "prayerStateSync":
+        this.handlePrayerStateSync(data);
+        break;
+      case "prayerToggled":
+        this.handlePrayerToggled(data as { prayerId: string; active: boolean });
+        break;
+      case "prayerPointsChanged":
+        this.handlePrayerPointsChanged(data as { prayerPoints: number; maxPrayerPoints?: number });
+        break;
+
       // Death & Respawn
       case "deathScreen":
         if (this.state.playerEntity) {
@@ -279,7 +623,10 @@ export class HyperscapeClient extends EventEmitter {
       
       // Chat
       case "chatAdded":
-        this.emit("chat", data);
+        this.handleChatAdded(data);
+        break;
+      case "chatCleared":
+        this.handleChatCleared(data as { channel?: string } | undefined);
         break;
       case "systemMessage":
         this.emit("systemMessage", data);
@@ -310,45 +657,257 @@ export class HyperscapeClient extends EventEmitter {
         this.emit("storeClosed");
         break;
       
+      // Smelting & Smithing
+      case "smeltingInterfaceOpen":
+        this.handleProductionInterfaceOpen("smelting", data);
+        break;
+      case "smithingInterfaceOpen":
+        this.handleProductionInterfaceOpen("smithing", data);
+        break;
+      case "smeltingClose":
+      case "smithingClose":
+        this.closeProductionInterface();
+        this.emit("productionClosed", data);
+        break;
+
       // Trade
+      case "tradeIncoming":
+        this.handleTradeIncoming(data as { playerId: string; playerName?: string });
+        break;
       case "tradeStarted":
-        this.state.tradeOpen = true;
-        this.emit("tradeStarted", data);
+        this.handleTradeStarted(data as { tradeId: string; partnerId: string; partnerName?: string });
+        break;
+      case "tradeUpdated":
+        this.handleTradeUpdated(data);
+        break;
+      case "tradeConfirmScreen":
+        this.handleTradeConfirmScreen(data);
+        break;
+      case "tradeError":
+        if (this.state.trade) {
+          this.state.trade.lastError = (data as { message: string }).message;
+        }
+        this.emit("tradeError", data);
         break;
       case "tradeCompleted":
       case "tradeCancelled":
         this.state.tradeOpen = false;
+        this.state.trade = null;
         this.emit("tradeEnded", data);
         break;
       
       // Gathering
       case "gatheringStarted":
+        this.state.gatheringResource = (data as { resourceId?: string })?.resourceId ?? this.state.gatheringResource;
         this.emit("gatheringStarted", data);
         break;
       case "gatheringComplete":
         this.emit("gatheringComplete", data);
         break;
       case "gatheringStopped":
+        this.state.gatheringResource = null;
         this.emit("gatheringStopped", data);
         break;
+      case "gatheringToolShow":
+      case "gatheringToolHide":
+        this.handleGatheringTool(name === "gatheringToolShow", data as { playerId?: string; itemId?: string; toolId?: string });
+        break;
       
+      // Duel
+      case "duelChallengeIncoming":
+        this.handleDuelChallengeIncoming(data as { challengerId: string; challengerName?: string; combatLevel?: number });
+        break;
+      case "duelChallengeSent":
+        this.emit("duelChallengeSent", data);
+        break;
+      case "duelChallengeDeclined":
+        if (this.state.duel?.stage === "challenge") {
+          this.state.duel = null;
+        }
+        this.emit("duelChallengeDeclined", data);
+        break;
+      case "duelSessionStarted":
+        this.handleDuelSessionStarted(data as { duelId: string; opponentId: string; opponentName?: string });
+        break;
+      case "duelStateUpdated":
+        this.handleDuelStateUpdated(data);
+        break;
+      case "duelStateChanged":
+        this.setDuelStage((data as { state: DuelStage }).state);
+        this.emit("duelStateChanged", data);
+        break;
+      case "duelMoveToStakes":
+        this.setDuelStage("stakes");
+        this.emit("duelStateChanged", { state: "stakes" });
+        break;
+      case "duelMoveToConfirm":
+        this.setDuelStage("confirm");
+        this.emit("duelStateChanged", { state: "confirm" });
+        break;
+      case "duelRulesUpdated":
+        if (this.state.duel) {
+          this.state.duel.rules = (data as { rules: Record<string, boolean> }).rules;
+        }
+        this.emit("duelRulesUpdated", data);
+        break;
+      case "duelEquipmentUpdated":
+        if (this.state.duel) {
+          this.state.duel.disabledEquipment = (data as { disabledSlots: string[] }).disabledSlots;
+        }
+        this.emit("duelEquipmentUpdated", data);
+        break;
+      case "duelStakesUpdated":
+        this.handleDuelStakesUpdated(data as { myStakes?: TradeOfferItem[]; theirStakes?: TradeOfferItem[] });
+        break;
+      case "duelAcceptanceUpdated":
+        if (this.state.duel) {
+          const acceptance = data as { myAccepted: boolean; theirAccepted: boolean };
+          this.state.duel.myAccepted = acceptance.myAccepted;
+          this.state.duel.theirAccepted = acceptance.theirAccepted;
+        }
+        this.emit("duelAcceptanceUpdated", data);
+        break;
+      case "duelStartFight":
+      case "duelCountdownStart":
+        this.setDuelStage("countdown");
+        if (this.state.duel) {
+          this.state.duel.countdown = (data as { seconds?: number }).seconds ?? null;
+        }
+        this.emit("duelCountdown", data);
+        break;
+      case "duelCountdownTick":
+        if (this.state.duel) {
+          this.state.duel.countdown = (data as { remaining: number }).remaining;
+        }
+        this.emit("duelCountdown", data);
+        break;
+      case "duelFightBegin":
+      case "duelFightStart":
+        this.setDuelStage("fight");
+        if (this.state.duel) {
+          this.state.duel.countdown = null;
+        }
+        this.emit("duelFightBegin", data);
+        break;
+      case "duelEnded":
+      case "duelCompleted":
+        this.handleDuelEnded(data as { winnerId?: string; reason?: string });
+        break;
+      case "duelCancelled":
+        this.state.duel = null;
+        this.emit("duelCancelled", data);
+        break;
+      case "duelOpponentDisconnected":
+      case "duelOpponentReconnected":
+        if (this.state.duel) {
+          this.state.duel.opponentDisconnected = name === "duelOpponentDisconnected";
+        }
+        this.emit(name, data);
+        break;
+      case "duelError":
+        if (this.state.duel) {
+          this.state.duel.lastError = (data as { message: string }).message;
+        }
+        this.emit("duelError", data);
+        break;
+
+      // Social
+      case "friendsListSync":
+        this.handleFriendsListSync(data);
+        break;
+      case "friendStatusUpdate":
+        this.handleFriendStatusUpdate(data as Partial<Friend> & { name: string });
+        break;
+      case "friendRequestIncoming":
+        this.handleFriendRequestIncoming(data as { name: string; playerId?: string });
+        break;
+      case "privateMessageReceived":
+        this.handlePrivateMessageReceived(data as { from: string; message: string; timestamp?: number });
+        break;
+      case "privateMessageFailed":
+        this.state.social.lastError = (data as { reason: string }).reason;
+        this.emit("privateMessageFailed", data);
+        break;
+      case "socialError":
+        this.state.social.lastError = (data as { message: string }).message;
+        this.emit("socialError", data);
+        break;
+
+      // Quests
+      case "questList":
+        this.handleQuestList(data);
+        break;
+      case "questDetail":
+        this.handleQuestDetail(data);
+        break;
+      case "questStartConfirm":
+        this.state.pendingQuestStart = (data as { questId: string }).questId;
+        this.emit("questStartConfirm", data);
+        break;
+      case "questPinned":
+        this.handleQuestPinned(data as { questId: string; pinned: boolean });
+        break;
+      case "questProgressed":
+        this.handleQuestProgressed(data as { questId: string; step: QuestStep });
+        break;
+      case "questComplete":
+      case "questCompleted":
+        this.handleQuestCompleted(data as { questId: string; name?: string; rewards?: string[] });
+        break;
+
       // Character selection
       case "pong":
+        this.handlePong(data);
+        break;
+      case "worldTimeSync":
+        this.handleWorldTimeSync(data);
+        break;
+      case "kick":
+        console.warn("[HyperscapeClient] Kicked:", (data as { reason?: string; message?: string })?.reason
+          ?? (data as { message?: string })?.message);
+        this.pendingKick = data;
+        this.emit("kicked", data);
         break;
       case "characterList":
-        this.emit("characterList", data);
+        this.handleCharacterList(data);
+        break;
+      case "characterCreated":
+        this.handleCharacterCreated(data);
         break;
       case "enterWorldApproved":
         this.state.authenticated = true;
+        this.rejoinWorld = true;
+        this.state.characterId = (data as { characterId?: string })?.characterId ?? this.state.characterId;
         this.emit("enteredWorld", data);
         break;
       case "enterWorldRejected":
+        console.warn("[HyperscapeClient] Enter world rejected:", (data as { reason?: string; message?: string })?.reason
+          ?? (data as { message?: string })?.message);
         this.emit("enterWorldRejected", data);
         break;
       
       default:
         this.emit(`packet:${name}`, data);
     }
+
+    if (this.pendingCommands.length > 0) {
+      this.settleCommands(name, data);
+    }
+  }
+
+  private handleCharacterList(data: unknown): void {
+    const list = Array.isArray(data) ? data : (data as { characters?: unknown[] })?.characters ?? [];
+    this.state.characters = list
+      .map(c => toCharacterSummary(c))
+      .filter((c): c is CharacterSummary => c !== null);
+    this.emit("characterList", this.state.characters);
+  }
+
+  private handleCharacterCreated(data: unknown): void {
+    const character = toCharacterSummary((data as { character?: unknown })?.character ?? data);
+    if (!character) return;
+    this.state.characters = [...this.state.characters.filter(c => c.id !== character.id), character];
+    this.emit("characterCreated", character);
   }
 
   private handleAuthResult(data: { success: boolean; message?: string }): void {
@@ -371,14 +930,20 @@ export class HyperscapeClient extends EventEmitter {
 
     console.log("[HyperscapeClient] Received snapshot");
 
-    if (snapshot.worldId) {
+    // Depletion state is for the world view we had; the server resends it after a snapshot
+    this.state.resources.clear();
+    if (snapshot.worldId && snapshot.worldId !== this.state.worldId) {
+      // Respawn times learned in one world say nothing about another
+      this.respawnSamples.clear();
       this.state.worldId = snapshot.worldId;
     }
 
     if (snapshot.entities) {
       this.state.nearbyEntities.clear();
+      this.state.entityLastSeen.clear();
       for (const entity of snapshot.entities) {
         this.state.nearbyEntities.set(entity.id, entity);
+        this.touchEntity(entity.id);
         if (entity.id === snapshot.playerId) {
           this.state.playerEntity = entity as PlayerEntity;
         }
@@ -391,6 +956,7 @@ export class HyperscapeClient extends EventEmitter {
 
   private handleEntityAdded(entity: Entity): void {
     this.state.nearbyEntities.set(entity.id, entity);
+    this.touchEntity(entity.id);
     this.emit("entityAdded", entity);
   }
 
@@ -401,18 +967,238 @@ export class HyperscapeClient extends EventEmitter {
       if (this.state.playerEntity?.id === update.id) {
         Object.assign(this.state.playerEntity, update);
       }
+      this.touchEntity(update.id);
     }
     this.emit("entityModified", update);
   }
 
+  /**
+   * Apply a batch of entity changes. Full state updates add entities we
+   * don't know yet; deltas only do so when they carry a type.
+   */
+  private handleStateUpdate(name: string, update: RawStateUpdate, full: boolean): void {
+    const raw = update?.entities ?? update?.updates ?? update?.changes ?? [];
+    const entities: RawEntityUpdate[] = Array.isArray(raw)
+      ? raw
+      : Object.entries(raw).map(([id, fields]) => ({ ...fields, id }));
+
+    for (const entity of entities) {
+      if (entity?.id) this.applyEntityUpdate(entity, full);
+    }
+    for (const id of update?.removed ?? []) {
+      this.handleEntityRemoved({ id });
+    }
+    this.emit(name, update);
+  }
+
+  private applyEntityUpdate(raw: RawEntityUpdate, addIfMissing: boolean): void {
+    const position = toPosition(raw.position);
+    const update: Partial<Entity> & { id: string } = { ...raw, position: position ?? undefined };
+    if (!position) delete update.position;
+
+    const existing = this.state.nearbyEntities.get(raw.id);
+    if (existing) {
+      Object.assign(existing, update);
+      if (this.state.playerEntity && this.state.playerEntity !== existing && this.state.playerEntity.id === raw.id) {
+        Object.assign(this.state.playerEntity, update);
+      }
+      this.touchEntity(raw.id);
+    } else if (addIfMissing || update.type) {
+      this.handleEntityAdded({ type: "unknown", ...update } as Entity);
+    }
+  }
+
+  /**
+   * compressedUpdate carries a msgpack-encoded delta, optionally zlib/gzip compressed
+   */
+  private handleCompressedUpdate(data: unknown): void {
+    const bytes = data instanceof Uint8Array ? data : (data as { data?: Uint8Array })?.data;
+    if (!(bytes instanceof Uint8Array)) {
+      console.warn("[HyperscapeClient] compressedUpdate without data");
+      return;
+    }
+
+    try {
+      let buffer = Buffer.from(bytes);
+      if (buffer[0] === 0x1f && buffer[1] === 0x8b) buffer = gunzipSync(buffer);
+      else if (buffer[0] === 0x78) buffer = inflateSync(buffer);
+      this.handleStateUpdate("compressedUpdate", unpackr.unpack(buffer) as RawStateUpdate, false);
+    } catch (error) {
+      console.error("[HyperscapeClient] Failed to decode compressedUpdate:", error);
+    }
+  }
+
+  private handleInputAck(data: { seq?: number; sequence?: number }): void {
+    this.state.lastInputAck = data.seq ?? data.sequence ?? this.state.lastInputAck;
+    this.emit("inputAck", data);
+  }
+
+  private touchEntity(id: string): void {
+    this.state.entityLastSeen.set(id, Date.now());
+  }
+
   private handleEntityRemoved(data: { id: string }): void {
     this.state.nearbyEntities.delete(data.id);
+    this.state.entityLastSeen.delete(data.id);
     if (this.state.currentTarget === data.id) {
       this.state.currentTarget = null;
     }
     this.emit("entityRemoved", data);
   }
 
+  private handleGatheringTool(show: boolean, data: { playerId?: string; itemId?: string; toolId?: string }): void {
+    // Other players' tools are shown to us too
+    if (data?.playerId && data.playerId !== this.state.playerEntity?.id) return;
+    this.state.gatheringTool = show ? (data?.itemId ?? data?.toolId ?? "tool") : null;
+    if (!show) this.state.gatheringResource = null;
+    this.emit(show ? "gatheringToolShow" : "gatheringToolHide", data);
+  }
+
+  private upsertResource(raw: RawResourceUpdate): ResourceState | null {
+    const id = raw.id ?? raw.entityId ?? raw.resourceId;
+    if (!id) return null;
+
+    const resource = this.state.resources.get(id) ?? {
+      id,
+      status: "available",
+      depletedAt: null,
+      respawnAt: null,
+      observedRespawnMs: null,
+      movedAt: null,
+    };
+    const entity = this.state.nearbyEntities.get(id);
+    resource.type = raw.resourceType ?? raw.type ?? resource.type ?? entity?.type;
+    resource.name = raw.name ?? resource.name ?? entity?.name;
+    resource.position = toPosition(raw.position) ?? resource.position ?? entity?.position;
+
+    this.state.resources.set(id, resource);
+    return resource;
+  }
+
+  private handleResourceList(data: unknown, key: "spawnPoints" | "resources"): void {
+    const list = Array.isArray(data)
+      ? data as RawResourceUpdate[]
+      : ((data as Record<string, RawResourceUpdate[] | undefined>)[key] ?? []);
+
+    for (const raw of list) {
+      const resource = this.upsertResource(raw);
+      if (!resource) continue;
+      if (raw.depleted === true || raw.isAvailable === false) {
+        this.markResourceDepleted(resource, raw);
+      } else if (raw.depleted === false || raw.isAvailable === true) {
+        resource.status = "available";
+        resource.respawnAt = null;
+      }
+    }
+  }
+
+  private handleResourceSpawned(data: RawResourceUpdate): void {
+    const resource = this.upsertResource(data);
+    if (resource) {
+      resource.status = "available";
+      resource.respawnAt = null;
+    }
+    this.emit("resourceSpawned", resource ?? data);
+  }
+
+  private handleResourceDepleted(data: RawResourceUpdate): void {
+    const resource = this.upsertResource(data);
+    if (resource) this.markResourceDepleted(resource, data);
+    this.emit("resourceDepleted", resource ?? data);
+  }
+
+  private markResourceDepleted(resource: ResourceState, data: RawResourceUpdate): void {
+    const now = Date.now();
+    resource.status = "depleted";
+    resource.depletedAt = now;
+
+    const respawnMs = data.respawnTime ?? (data.respawnTicks !== undefined ? data.respawnTicks * TICK_MS : null);
+    const expected = respawnMs ?? this.getExpectedRespawnMs(resource);
+    resource.respawnAt = expected !== null ? now + expected : null;
+  }
+
+  private handleResourceRespawned(data: RawResourceUpdate): void {
+    const resource = this.upsertResource(data);
+    if (resource) {
+      if (resource.status === "depleted" && resource.depletedAt !== null) {
+        resource.observedRespawnMs = Date.now() - resource.depletedAt;
+        const key = resourceKind(resource);
+        const samples = [...(this.respawnSamples.get(key) ?? []), resource.observedRespawnMs];
+        this.respawnSamples.set(key, samples.slice(-MAX_RESPAWN_SAMPLES));
+      }
+      resource.status = "available";
+      resource.depletedAt = null;
+      resource.respawnAt = null;
+    }
+    this.emit("resourceRespawned", resource ?? data);
+  }
+
+  private handleFishingSpotMoved(data: RawResourceUpdate & { oldId?: string; newId?: string }): void {
+    const oldId = data.oldId ?? data.id ?? data.entityId ?? data.resourceId;
+    const newId = data.newId ?? oldId;
+    if (!oldId || !newId) return;
+
+    // Spots may come back under a new ID; carry the old state over
+    const previous = this.state.resources.get(oldId);
+    if (previous && newId !== oldId) {
+      this.state.resources.delete(oldId);
+      this.state.resources.set(newId, { ...previous, id: newId });
+    }
+
+    const resource = this.upsertResource({ ...data, id: newId, type: data.type ?? previous?.type ?? "fishing" });
+    if (resource) {
+      resource.status = "available";
+      resource.respawnAt = null;
+      resource.movedAt = Date.now();
+    }
+
+    const entity = this.state.nearbyEntities.get(oldId);
+    if (entity && resource?.position) {
+      entity.position = resource.position;
+      if (newId !== oldId) {
+        this.state.nearbyEntities.delete(oldId);
+        this.state.nearbyEntities.set(newId, { ...entity, id: newId });
+      }
+    }
+
+    this.emit("fishingSpotMoved", { oldId, ...resource });
+  }
+
+  /**
+   * Average observed respawn time for this kind of resource, if any were seen
+   */
+  getExpectedRespawnMs(resource: ResourceState): number | null {
+    const samples = this.respawnSamples.get(resourceKind(resource));
+    if (!samples || samples.length === 0) return resource.observedRespawnMs;
+    return samples.reduce((a, b) => a + b, 0) / samples.length;
+  }
+
+  private handleEntityTileUpdate(update: TileUpdate, event = "entityTileUpdate"): void {
+    const entity = this.state.nearbyEntities.get(update.id);
+    if (entity && update.tile) {
+      // Tile centers sit half a unit in from the tile corner
+      const y = update.worldPos?.[1] ?? entity.position?.[1] ?? 0;
+      entity.position = update.worldPos ?? [update.tile.x + 0.5, y, update.tile.z + 0.5];
+      if (this.state.playerEntity && this.state.playerEntity !== entity && this.state.playerEntity.id === update.id) {
+        this.state.playerEntity.position = entity.position;
+      }
+      this.touchEntity(update.id);
+    }
+    this.emit(event, update);
+  }
+
+  private handleCorrection(data: RawCorrection): void {
+    const player = this.state.playerEntity;
+    const position = toPosition(data.position);
+    if (player && position) {
+      player.position = position;
+      const entity = this.state.nearbyEntities.get(player.id);
+      if (entity) entity.position = position;
+      this.touchEntity(player.id);
+    }
+    this.emit("correction", { ...data, position: position ?? undefined });
+  }
+
   private handlePlayerState(data: unknown): void {
     if (this.state.playerEntity) {
       Object.assign(this.state.playerEntity, data);
@@ -424,6 +1210,7 @@ export class HyperscapeClient extends EventEmitter {
     const update = data as { items?: InventoryItem[] };
     if (this.state.playerEntity && update.items) {
       this.state.playerEntity.inventory = update.items;
+      this.refreshRecipes();
     }
     this.emit("inventoryUpdated", data);
   }
@@ -439,10 +1226,35 @@ export class HyperscapeClient extends EventEmitter {
   private handleSkillsUpdated(data: unknown): void {
     if (this.state.playerEntity) {
       this.state.playerEntity.skills = (data as { skills: Record<string, SkillData> }).skills;
+      this.refreshRecipes();
     }
     this.emit("skillsUpdated", data);
   }
 
+  private handleCombatDamage(data: RawCombatDamage): void {
+    const playerId = this.state.playerEntity?.id;
+    const attackerId = data.attackerId ?? data.sourceId ?? null;
+    const targetId = data.targetId ?? "";
+    const dealt = targetId !== playerId;
+
+    // Only hits we dealt or took feed the damage history
+    if (!dealt || !attackerId || attackerId === playerId) {
+      const mob = this.state.nearbyEntities.get(dealt ? targetId : attackerId ?? "");
+      this.state.combatHits.push({
+        attackerId,
+        targetId,
+        mobName: mob?.name ?? mob?.type ?? null,
+        damage: data.damage ?? 0,
+        dealt,
+        timestamp: Date.now(),
+      });
+      if (this.state.combatHits.length > MAX_COMBAT_HITS) {
+        this.state.combatHits.shift();
+      }
+    }
+    this.emit("damageDealt", data);
+  }
+
   private handleXpDrop(data: XpDrop): void {
     // Update skill in player entity
     if (this.state.playerEntity?.skills) {
@@ -451,6 +1263,7 @@ export class HyperscapeClient extends EventEmitter {
         skill.xp = data.totalXp;
         skill.level = data.level;
       }
+      this.refreshRecipes();
     }
     this.emit("xpDrop", data);
   }
@@ -467,252 +1280,1443 @@ export class HyperscapeClient extends EventEmitter {
     this.emit("bankOpened", data);
   }
 
-  private startPing(): void {
-    this.pingInterval = setInterval(() => {
-      this.sendPacket("ping", { timestamp: Date.now() });
-    }, 30000);
+  private handleChatAdded(data: unknown): void {
+    const raw = data as {
+      id?: string;
+      channel?: string;
+      from?: string;
+      fromId?: string;
+      body?: string;
+      message?: string;
+      createdAt?: string | number;
+    };
+    const message: ChatMessage = {
+      id: raw.id ?? createMessageId(),
+      channel: raw.channel ?? "local",
+      from: raw.from ?? "System",
+      fromId: raw.fromId,
+      body: raw.body ?? raw.message ?? "",
+      timestamp: raw.createdAt !== undefined ? new Date(raw.createdAt).getTime() : Date.now(),
+    };
+    this.recordChatMessage(message);
+    this.emit("chat", message);
   }
 
-  private stopPing(): void {
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
-      this.pingInterval = null;
+  private handleChatCleared(data?: { channel?: string }): void {
+    if (data?.channel) {
+      this.state.chatHistory.delete(data.channel);
+    } else {
+      this.state.chatHistory.clear();
     }
+    this.emit("chatCleared", data);
   }
 
-  private scheduleReconnect(): void {
-    if (this.reconnectTimer) return;
-    console.log("[HyperscapeClient] Reconnecting in 5s...");
-    this.reconnectTimer = setTimeout(() => {
-      this.reconnectTimer = null;
-      this.connect().catch(console.error);
-    }, 5000);
+  private recordChatMessage(message: ChatMessage): void {
+    const history = this.state.chatHistory.get(message.channel) ?? [];
+    history.push(message);
+    if (history.length > MAX_CHAT_MESSAGES) {
+      history.splice(0, history.length - MAX_CHAT_MESSAGES);
+    }
+    this.state.chatHistory.set(message.channel, history);
   }
 
-  // === Game Commands ===
+  private handleAbilityUsed(data: { abilityId?: string; spellId?: string; cooldownMs?: number }): void {
+    const id = data.abilityId ?? data.spellId;
+    if (id && data.cooldownMs) {
+      this.state.abilityCooldowns.set(id, monotonicNow() + data.cooldownMs);
+    }
+    if (id && this.state.lastAbilityFailure?.abilityId === id) {
+      this.state.lastAbilityFailure = null;
+    }
+  }
 
-  /**
-   * Select character and enter world
-   */
-  async enterWorld(characterId?: string): Promise<void> {
-    if (characterId) {
-      this.sendPacket("characterSelected", { characterId });
+  private handleAbilityCooldown(data: { abilityId: string; cooldownMs: number; readyAt?: number }): void {
+    const readyIn = data.readyAt !== undefined ? data.readyAt - this.serverNow() : null;
+    if (readyIn !== null && readyIn > 0) {
+      // Absolute server time: no drift from when the packet happened to arrive
+      this.state.abilityCooldowns.set(data.abilityId, monotonicNow() + readyIn);
+    } else if (data.cooldownMs > 0) {
+      this.state.abilityCooldowns.set(data.abilityId, monotonicNow() + data.cooldownMs);
+    } else {
+      this.state.abilityCooldowns.delete(data.abilityId);
     }
-    this.sendPacket("enterWorld", {});
+    this.emit("abilityCooldown", data);
   }
 
-  /**
-   * Signal client is ready (after loading)
-   */
-  clientReady(): void {
-    this.sendPacket("clientReady", {});
+  private handleAbilityFailed(data: { abilityId: string; reason: string }): void {
+    this.state.lastAbilityFailure = {
+      abilityId: data.abilityId,
+      reason: data.reason,
+      at: Date.now(),
+    };
+    this.emit("abilityFailed", data);
   }
 
-  /**
-   * Move to a position
-   */
-  move(target: [number, number, number], runMode = false): void {
-    this.sendPacket("moveRequest", { target, runMode });
+  private handlePrayerStateSync(data: unknown): void {
+    const sync = data as { activePrayers?: string[]; prayerPoints?: number; maxPrayerPoints?: number };
+    if (sync.activePrayers) {
+      this.state.activePrayers = sync.activePrayers;
+    }
+    if (this.state.playerEntity) {
+      if (sync.prayerPoints !== undefined) this.state.playerEntity.prayerPoints = sync.prayerPoints;
+      if (sync.maxPrayerPoints !== undefined) this.state.playerEntity.maxPrayerPoints = sync.maxPrayerPoints;
+    }
+    this.emit("prayerState", data);
   }
 
-  /**
-   * Attack a mob/entity
-   */
-  attack(targetId: string, attackType: "melee" | "ranged" | "magic" = "melee"): void {
-    this.state.currentTarget = targetId;
-    this.sendPacket("attackMob", { mobId: targetId, attackType });
+  private handlePrayerToggled(data: { prayerId: string; active: boolean }): void {
+    const others = this.state.activePrayers.filter(p => p !== data.prayerId);
+    this.state.activePrayers = data.active ? [...others, data.prayerId] : others;
+    this.emit("prayerToggled", data);
   }
 
-  /**
-   * Attack another player (PvP)
-   */
-  attackPlayer(targetId: string): void {
-    this.state.currentTarget = targetId;
-    this.sendPacket("attackPlayer", { targetId });
+  private handlePrayerPointsChanged(data: { prayerPoints: number; maxPrayerPoints?: number }): void {
+    if (this.state.playerEntity) {
+      this.state.playerEntity.prayerPoints = data.prayerPoints;
+      if (data.maxPrayerPoints !== undefined) {
+        this.state.playerEntity.maxPrayerPoints = data.maxPrayerPoints;
+      }
+    }
+    // Prayers switch off when points run out
+    if (data.prayerPoints <= 0) {
+      this.state.activePrayers = [];
+    }
+    this.emit("prayerPointsChanged", data);
   }
 
-  /**
-   * Follow a player
-   */
-  followPlayer(targetId: string): void {
-    this.sendPacket("followPlayer", { targetId });
+  private handleProductionInterfaceOpen(type: ProductionInterface["type"], data: unknown): void {
+    const payload = data as { sourceId?: string; furnaceId?: string; anvilId?: string; recipes?: unknown[] };
+    this.state.smeltingOpen = type === "smelting";
+    this.state.smithingOpen = type === "smithing";
+    this.state.productionInterface = {
+      type,
+      sourceId: payload.sourceId ?? payload.furnaceId ?? payload.anvilId ?? "",
+      recipes: (payload.recipes ?? []).map(r => this.parseRecipe(r)),
+    };
+    this.emit("productionOpen", this.state.productionInterface);
+  }
+
+  /**
+   * Normalise a smelting/smithing recipe and work out whether we can make it now
+   */
+  private parseRecipe(raw: unknown): ProductionRecipe {
+    const recipe = raw as {
+      itemId?: string;
+      id?: string;
+      name?: string;
+      levelRequired?: number;
+      level?: number;
+      inputs?: RecipeInput[];
+      materials?: RecipeInput[];
+      xp?: number;
+    };
+    const itemId = recipe.itemId ?? recipe.id ?? "";
+    const inputs = recipe.inputs ?? recipe.materials ?? [];
+    const levelRequired = recipe.levelRequired ?? recipe.level ?? 1;
+
+    const parsed: ProductionRecipe = {
+      itemId,
+      name: recipe.name ?? itemId,
+      levelRequired,
+      inputs,
+      xp: recipe.xp,
+      canMake: false,
+    };
+    parsed.canMake = this.canMakeRecipe(parsed);
+    return parsed;
+  }
+
+  /**
+   * Whether our current smithing level and inventory allow making quantity of the recipe
+   */
+  canMakeRecipe(recipe: ProductionRecipe, quantity = 1): boolean {
+    const player = this.state.playerEntity;
+    const smithingLevel = player?.skills?.smithing?.level ?? 1;
+    return smithingLevel >= recipe.levelRequired
+      && recipe.inputs.every(input => countItem(player?.inventory, input.itemId) >= input.quantity * quantity);
+  }
+
+  /**
+   * Re-check the open interface's recipes after inventory or skill changes
+   */
+  private refreshRecipes(): void {
+    for (const recipe of this.state.productionInterface?.recipes ?? []) {
+      recipe.canMake = this.canMakeRecipe(recipe);
+    }
+  }
+
+  private closeProductionInterface(): void {
+    this.state.smeltingOpen = false;
+    this.state.smithingOpen = false;
+    this.state.productionInterface = null;
+  }
+
+  private handleTradeIncoming(data: { playerId: string; playerName?: string }): void {
+    this.state.tradeRequests = this.state.tradeRequests.filter(r => r.playerId !== data.playerId);
+    this.state.tradeRequests.push({
+      playerId: data.playerId,
+      playerName: data.playerName,
+      receivedAt: Date.now(),
+    });
+    this.emit("tradeIncoming", data);
+  }
+
+  private handleTradeStarted(data: { tradeId: string; partnerId: string; partnerName?: string }): void {
+    this.state.tradeOpen = true;
+    this.state.tradeRequests = this.state.tradeRequests.filter(r => r.playerId !== data.partnerId);
+    this.state.trade = {
+      tradeId: data.tradeId,
+      partnerId: data.partnerId,
+      partnerName: data.partnerName,
+      myOffer: [],
+      theirOffer: [],
+      stage: "offer",
+      myAccepted: false,
+      theirAccepted: false,
+      acceptedTheirOffer: null,
+      counterOfferChanged: false,
+    };
+    this.emit("tradeStarted", data);
+  }
+
+  private handleTradeUpdated(data: unknown): void {
+    const trade = this.state.trade;
+    if (trade) {
+      const update = data as {
+        myOffer?: TradeOfferItem[];
+        theirOffer?: TradeOfferItem[];
+        myAccepted?: boolean;
+        theirAccepted?: boolean;
+      };
+      if (update.myOffer) trade.myOffer = update.myOffer;
+      if (update.theirOffer) trade.theirOffer = update.theirOffer;
+      if (update.myAccepted !== undefined) trade.myAccepted = update.myAccepted;
+      if (update.theirAccepted !== undefined) trade.theirAccepted = update.theirAccepted;
+      this.checkCounterOffer(trade);
+    }
+    this.emit("tradeUpdated", data);
+  }
+
+  private handleTradeConfirmScreen(data: unknown): void {
+    const trade = this.state.trade;
+    if (trade) {
+      const screen = data as { myOffer?: TradeOfferItem[]; theirOffer?: TradeOfferItem[] };
+      if (screen.myOffer) trade.myOffer = screen.myOffer;
+      if (screen.theirOffer) trade.theirOffer = screen.theirOffer;
+      trade.stage = "confirm";
+      trade.myAccepted = false;
+      trade.theirAccepted = false;
+      this.checkCounterOffer(trade);
+    }
+    this.emit("tradeConfirmScreen", data);
+  }
+
+  /**
+   * Flag the trade if the partner's offer no longer matches what we first accepted
+   */
+  private checkCounterOffer(trade: TradeSession): void {
+    if (trade.acceptedTheirOffer && !sameTradeOffer(trade.acceptedTheirOffer, trade.theirOffer)) {
+      trade.counterOfferChanged = true;
+    }
+  }
+
+  private createDuelSession(opponentId: string, opponentName?: string, stakeLimit: number | null = null): DuelSession {
+    return {
+      duelId: null,
+      opponentId,
+      opponentName,
+      stage: "challenge",
+      rules: {},
+      disabledEquipment: [],
+      myStakes: [],
+      theirStakes: [],
+      myAccepted: false,
+      theirAccepted: false,
+      stakeLimit,
+      countdown: null,
+      opponentDisconnected: false,
+      result: null,
+    };
+  }
+
+  private handleDuelChallengeIncoming(data: { challengerId: string; challengerName?: string; combatLevel?: number }): void {
+    this.state.duelChallenges = this.state.duelChallenges.filter(c => c.playerId !== data.challengerId);
+    this.state.duelChallenges.push({
+      playerId: data.challengerId,
+      playerName: data.challengerName,
+      combatLevel: data.combatLevel,
+      receivedAt: Date.now(),
+    });
+    this.emit("duelChallengeIncoming", data);
+  }
+
+  private handleDuelSessionStarted(data: { duelId: string; opponentId: string; opponentName?: string }): void {
+    // Keep the stake limit chosen when we issued or accepted the challenge
+    const pending = this.state.duel?.opponentId === data.opponentId ? this.state.duel : null;
+    const duel = pending ?? this.createDuelSession(data.opponentId, data.opponentName);
+    duel.duelId = data.duelId;
+    duel.opponentName = data.opponentName ?? duel.opponentName;
+    duel.stage = "rules";
+    this.state.duel = duel;
+    this.state.duelChallenges = this.state.duelChallenges.filter(c => c.playerId !== data.opponentId);
+    this.emit("duelSessionStarted", data);
+  }
+
+  private handleDuelStateUpdated(data: unknown): void {
+    const duel = this.state.duel;
+    if (duel) {
+      const update = data as Partial<Pick<DuelSession,
+        "stage" | "rules" | "disabledEquipment" | "myStakes" | "theirStakes" | "myAccepted" | "theirAccepted">>;
+      if (update.stage) this.setDuelStage(update.stage);
+      if (update.rules) duel.rules = update.rules;
+      if (update.disabledEquipment) duel.disabledEquipment = update.disabledEquipment;
+      if (update.myStakes) duel.myStakes = update.myStakes;
+      if (update.theirStakes) duel.theirStakes = update.theirStakes;
+      if (update.myAccepted !== undefined) duel.myAccepted = update.myAccepted;
+      if (update.theirAccepted !== undefined) duel.theirAccepted = update.theirAccepted;
+    }
+    this.emit("duelStateUpdated", data);
+  }
+
+  private handleDuelStakesUpdated(data: { myStakes?: TradeOfferItem[]; theirStakes?: TradeOfferItem[] }): void {
+    if (this.state.duel) {
+      if (data.myStakes) this.state.duel.myStakes = data.myStakes;
+      if (data.theirStakes) this.state.duel.theirStakes = data.theirStakes;
+    }
+    this.emit("duelStakesUpdated", data);
+  }
+
+  private handleDuelEnded(data: { winnerId?: string; reason?: string }): void {
+    if (this.state.duel) {
+      this.setDuelStage("result");
+      this.state.duel.result = {
+        won: !!data.winnerId && data.winnerId === this.state.playerEntity?.id,
+        winnerId: data.winnerId,
+        reason: data.reason,
+      };
+    }
+    this.emit("duelEnded", data);
+  }
+
+  /**
+   * Move the duel to a new stage; acceptance resets whenever the screen changes
+   */
+  private setDuelStage(stage: DuelStage): void {
+    const duel = this.state.duel;
+    if (!duel || duel.stage === stage) return;
+    duel.stage = stage;
+    duel.myAccepted = false;
+    duel.theirAccepted = false;
+  }
+
+  private handleFriendsListSync(data: unknown): void {
+    const sync = data as { friends?: Friend[]; ignoreList?: string[]; pendingRequests?: Array<{ name: string; playerId?: string }> };
+    const social = this.state.social;
+    if (sync.friends) {
+      social.friends.clear();
+      for (const friend of sync.friends) {
+        social.friends.set(friend.name.toLowerCase(), friend);
+      }
+    }
+    if (sync.ignoreList) {
+      social.ignoreList = sync.ignoreList;
+    }
+    if (sync.pendingRequests) {
+      social.pendingRequests = sync.pendingRequests.map(r => ({ ...r, receivedAt: Date.now() }));
+    }
+    this.emit("friendsList", data);
+  }
+
+  private handleFriendStatusUpdate(data: Partial<Friend> & { name: string }): void {
+    const key = data.name.toLowerCase();
+    const existing = this.state.social.friends.get(key);
+    const friend: Friend = { online: false, ...existing, ...data };
+    this.state.social.friends.set(key, friend);
+    this.emit("friendStatus", friend);
+  }
+
+  private handleFriendRequestIncoming(data: { name: string; playerId?: string }): void {
+    const social = this.state.social;
+    if (this.isIgnored(data.name)) return;
+    social.pendingRequests = social.pendingRequests.filter(r => r.name.toLowerCase() !== data.name.toLowerCase());
+    social.pendingRequests.push({ ...data, receivedAt: Date.now() });
+    this.emit("friendRequest", data);
+  }
+
+  private handlePrivateMessageReceived(data: { from: string; message: string; timestamp?: number }): void {
+    if (this.isIgnored(data.from)) return;
+    const pm: PrivateMessage = {
+      direction: "incoming",
+      name: data.from,
+      message: data.message,
+      timestamp: data.timestamp ?? Date.now(),
+    };
+    this.recordPrivateMessage(pm);
+    this.emit("privateMessage", pm);
+  }
+
+  private recordPrivateMessage(pm: PrivateMessage): void {
+    const messages = this.state.social.messages;
+    messages.push(pm);
+    if (messages.length > MAX_PRIVATE_MESSAGES) {
+      messages.splice(0, messages.length - MAX_PRIVATE_MESSAGES);
+    }
+  }
+
+  private isIgnored(name: string): boolean {
+    const lower = name.toLowerCase();
+    return this.state.social.ignoreList.some(n => n.toLowerCase() === lower);
+  }
+
+  private upsertQuest(update: Partial<Quest> & { questId: string }): Quest {
+    const existing = this.state.quests.get(update.questId);
+    const quest: Quest = {
+      name: update.questId,
+      status: "available",
+      pinned: false,
+      steps: [],
+      ...existing,
+      ...update,
+    };
+    this.state.quests.set(quest.questId, quest);
+    return quest;
+  }
+
+  private handleQuestList(data: unknown): void {
+    const list = data as { quests?: Array<Partial<Quest> & { questId: string }> };
+    for (const quest of list.quests ?? []) {
+      this.upsertQuest(quest);
+    }
+    this.emit("questList", data);
+  }
+
+  private handleQuestDetail(data: unknown): void {
+    const detail = data as { quest?: Partial<Quest> & { questId: string } };
+    if (detail.quest) {
+      this.upsertQuest(detail.quest);
+    }
+    this.emit("questDetail", data);
+  }
+
+  private handleQuestPinned(data: { questId: string; pinned: boolean }): void {
+    this.upsertQuest({ questId: data.questId, pinned: data.pinned });
+    this.emit("questPinned", data);
+  }
+
+  private handleQuestProgressed(data: { questId: string; step: QuestStep }): void {
+    const quest = this.upsertQuest({ questId: data.questId, status: "active" });
+    if (data.step) {
+      const index = quest.steps.findIndex(s => s.id === data.step.id);
+      if (index >= 0) {
+        quest.steps[index] = data.step;
+      } else {
+        quest.steps.push(data.step);
+      }
+    }
+    this.emit("questProgressed", data);
+  }
+
+  private handleQuestCompleted(data: { questId: string; name?: string; rewards?: string[] }): void {
+    const quest = this.upsertQuest({ questId: data.questId, status: "completed", pinned: false });
+    if (data.name) quest.name = data.name;
+    if (data.rewards) quest.rewards = data.rewards;
+    for (const step of quest.steps) {
+      step.completed = true;
+    }
+    this.emit("questCompleted", data);
+  }
+
+  private startPing(): void {
+    // One right away so latency (and the time sync correction) is known early
+    const ping = () => this.sendPacket("ping", { timestamp: Date.now() });
+    ping();
+    this.pingInterval = setInterval(ping, 30000);
+  }
+
+  private stopPing(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  private handlePong(data: unknown): void {
+    const sent = typeof data === "number" ? data : (data as { timestamp?: number })?.timestamp;
+    if (typeof sent === "number") {
+      this.latency.record(Date.now() - sent);
+    }
+  }
+
+  private handleWorldTimeSync(data: unknown): void {
+    const serverTime = parseServerTime(data);
+    if (serverTime === null) return;
+    const now = Date.now();
+    this.state.serverTimeOffset = computeServerTimeOffset(serverTime, now, this.latency.getStats().avgMs);
+    this.serverTimeSyncedAt = now;
+    this.emit("timeSync", { serverTime, offsetMs: this.state.serverTimeOffset });
+  }
+
+  /**
+   * Current time on the server's clock (see worldTimeSync)
+   */
+  serverNow(): number {
+    return serverNow(this.state);
+  }
+
+  private recordDisconnect(fallbackReason: string, code?: number): void {
+    const kick = this.pendingKick as { reason?: string; message?: string } | undefined;
+    this.lastDisconnect = {
+      at: Date.now(),
+      ...(code !== undefined && { code }),
+      reason: kick?.reason ?? kick?.message ?? fallbackReason,
+      ...(this.pendingKick !== undefined && { kick: this.pendingKick }),
+    };
+    this.pendingKick = undefined;
+  }
+
+  /**
+   * Backoff for the nth attempt: initial * 2^(n-1), capped, then spread by ±jitter
+   */
+  private getReconnectDelay(attempt: number): number {
+    const { initialDelayMs, maxDelayMs, jitter } = this.reconnectConfig;
+    const base = Math.min(maxDelayMs, initialDelayMs * 2 ** (attempt - 1));
+    return Math.round(base * (1 + jitter * (Math.random() * 2 - 1)));
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    const { maxAttempts } = this.reconnectConfig;
+    if (maxAttempts > 0 && this.reconnectAttempt >= maxAttempts) {
+      console.error(`[HyperscapeClient] Giving up after ${this.reconnectAttempt} reconnect attempts`);
+      this.status = "disconnected";
+      this.emit("reconnectFailed", { attempts: this.reconnectAttempt, lastDisconnect: this.lastDisconnect });
+      this.reconnectAttempt = 0;
+      return;
+    }
+
+    this.reconnectAttempt++;
+    const delayMs = this.getReconnectDelay(this.reconnectAttempt);
+    this.status = "reconnecting";
+    console.log(`[HyperscapeClient] Reconnecting in ${(delayMs / 1000).toFixed(1)}s (attempt ${this.reconnectAttempt}${maxAttempts > 0 ? `/${maxAttempts}` : ""})...`);
+    this.emit("reconnecting", { attempt: this.reconnectAttempt, delayMs });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect().catch((error: Error) => {
+        console.error("[HyperscapeClient] Reconnect failed:", error.message);
+        if (!this.config.autoReconnect) return;
+        this.scheduleReconnect();
+        // A socket that opened but couldn't re-enter the world is useless; drop it
+        if (this.ws?.isOpen) this.ws.close();
+      });
+    }, delayMs);
+  }
+
+  /**
+   * Reconnect, re-authenticate (connect sends the token) and re-enter the world we were in
+   */
+  private async reconnect(): Promise<void> {
+    await this.connect();
+    if (this.rejoinWorld) {
+      const result = await this.enterWorld(this.state.characterId ?? undefined);
+      if (!result.success) {
+        throw new Error(`Could not re-enter world: ${result.message}`);
+      }
+      this.clientReady();
+    }
+    this.reconnectAttempt = 0;
+    this.reconnectCount++;
+    console.log(`[HyperscapeClient] Reconnected (${this.reconnectCount} total)`);
+    this.emit("reconnected", { reconnectCount: this.reconnectCount });
+  }
+
+  /**
+   * Connection status, latency, reconnects and why we last dropped
+   */
+  getConnectionHealth(): ConnectionHealth {
+    return {
+      status: this.status,
+      latencyMs: this.latency.last,
+      latency: this.latency.getStats(),
+      serverTimeSyncedAt: this.serverTimeSyncedAt,
+      serverTimeOffset: this.state.serverTimeOffset,
+      reconnectCount: this.reconnectCount,
+      reconnectAttempt: this.reconnectAttempt,
+      connectedSince: this.connectedSince,
+      lastDisconnect: this.lastDisconnect ? { ...this.lastDisconnect } : null,
+    };
+  }
+
+  /**
+   * Connection health for LLM
+   */
+  getConnectionContext(): string {
+    const health = this.getConnectionHealth();
+    const lines = [`**Connection:** ${health.status}${health.status === "reconnecting" ? ` (attempt ${health.reconnectAttempt})` : ""}`];
+    const { latency } = health;
+    lines.push(`**Latency:** ${latency.samples > 0
+      ? `${latency.lastMs}ms (min ${latency.minMs}, avg ${latency.avgMs}, p95 ${latency.p95Ms})`
+      : "unknown"}`);
+    if (health.serverTimeSyncedAt !== null) {
+      lines.push(`**Server clock:** ${health.serverTimeOffset >= 0 ? "+" : ""}${health.serverTimeOffset}ms vs local`);
+    }
+    lines.push(`**Reconnects:** ${health.reconnectCount}`);
+    if (health.lastDisconnect) {
+      const ago = Math.round((Date.now() - health.lastDisconnect.at) / 1000);
+      const code = health.lastDisconnect.code !== undefined ? ` [${health.lastDisconnect.code}]` : "";
+      lines.push(`**Last disconnect:** ${health.lastDisconnect.reason}${code}, ${ago}s ago${health.lastDisconnect.kick !== undefined ? " (kicked)" : ""}`);
+    }
+    return lines.join("\n");
+  }
+
+  // === Game Commands ===
+
+  /**
+   * Request the account's characters
+   */
+  async listCharacters(): Promise<CommandResult<CharacterSummary[]>> {
+    const result = await this.sendCommand("characterListRequest", {}, { confirm: ["characterList"] });
+    return { ...result, data: result.success ? this.state.characters : undefined };
+  }
+
+  /**
+   * Create a new character on the account
+   */
+  async createCharacter(name: string): Promise<CommandResult<CharacterSummary>> {
+    const result = await this.sendCommand("characterCreate", { name }, { confirm: ["characterCreated"] });
+    if (!result.success) return { ...result, data: undefined };
+    const created = toCharacterSummary((result.data as { character?: unknown })?.character ?? result.data);
+    return { ...result, data: created ?? undefined };
+  }
+
+  /**
+   * Choose the character the next enterWorld uses
+   */
+  selectCharacter(characterId: string): boolean {
+    this.state.characterId = characterId;
+    return this.sendPacket("characterSelected", { characterId });
+  }
+
+  /**
+   * Select character (if given) and enter the world. Succeeds on
+   * enterWorldApproved; enterWorldRejected fails with the server's reason.
+   */
+  async enterWorld(characterId?: string): Promise<CommandResult> {
+    if (characterId) {
+      this.selectCharacter(characterId);
+    }
+    return this.sendCommand("enterWorld", {}, {
+      confirm: ["enterWorldApproved"],
+      fail: ["enterWorldRejected"],
+      timeoutMs: 15000,
+    });
+  }
+
+  /**
+   * Signal client is ready (after loading)
+   */
+  clientReady(): void {
+    this.sendPacket("clientReady", {});
+  }
+
+  /**
+   * Move to a position
+   */
+  move(target: [number, number, number], runMode = false): CommandResult {
+    return this.sendAction("moveRequest", { target, runMode });
+  }
+
+  /**
+   * combatDamageDealt for a hit we landed on this target (attacker missing = ours)
+   */
+  private isOurHitOn(data: unknown, targetId: string): boolean {
+    const hit = data as RawCombatDamage;
+    const attacker = hit?.attackerId ?? hit?.sourceId;
+    return hit?.targetId === targetId && (!attacker || attacker === this.state.playerEntity?.id);
+  }
+
+  /**
+   * Match an inventoryUpdated that names this item or changes how many we hold.
+   * Call before sending: it captures the current quantity.
+   */
+  private itemQuantityChanged(itemId: string): (name: string, data: unknown) => boolean {
+    const before = countItem(this.state.playerEntity?.inventory, itemId);
+    return (_name, data) => {
+      const update = data as { itemId?: string; items?: InventoryItem[] };
+      return update?.itemId === itemId || (update?.items !== undefined && countItem(update.items, itemId) !== before);
+    };
+  }
+
+  /**
+   * Attack a mob/entity
+   */
+  attack(targetId: string, attackType: "melee" | "ranged" | "magic" = "melee"): Promise<CommandResult> {
+    return this.startAttack("attackMob", { mobId: targetId, attackType }, targetId);
+  }
+
+  /**
+   * Attack another player (PvP)
+   */
+  attackPlayer(targetId: string): Promise<CommandResult> {
+    return this.startAttack("attackPlayer", { targetId }, targetId);
+  }
+
+  /**
+   * Send an attack and wait for our first hit. The server walks us into
+   * range first, so this gets the same allowance as pathing to a resource.
+   */
+  private async startAttack(name: string, data: unknown, targetId: string): Promise<CommandResult> {
+    this.state.currentTarget = targetId;
+    const result = await this.sendCommand(name, data, {
+      confirm: ["combatDamageDealt"],
+      match: (_name, hit) => this.isOurHitOn(hit, targetId),
+      timeoutMs: 15000,
+      errorToast: true,
+    });
+    if (!result.success && this.state.currentTarget === targetId) {
+      this.state.currentTarget = null;
+    }
+    return result;
+  }
+
+  /**
+   * Follow a player
+   */
+  followPlayer(targetId: string): CommandResult {
+    return this.sendAction("followPlayer", { targetId });
   }
 
   /**
    * Change attack style
    */
-  changeAttackStyle(style: string): void {
-    this.sendPacket("changeAttackStyle", { style });
+  changeAttackStyle(style: string): Promise<CommandResult> {
+    return this.sendCommand("changeAttackStyle", { style }, { confirm: ["attackStyleChanged", "attackStyleUpdate"] });
+  }
+
+  /**
+   * Toggle auto-retaliate
+   */
+  setAutoRetaliate(enabled: boolean): Promise<CommandResult> {
+    return this.sendCommand("setAutoRetaliate", { enabled }, { confirm: ["autoRetaliateChanged"] });
+  }
+
+  /**
+   * Gather from a resource (tree, rock, fishing spot)
+   */
+  gather(resourceId: string): Promise<CommandResult> {
+    return this.sendCommand("resourceGather", { resourceId }, {
+      confirm: ["gatheringStarted"],
+      fail: ["gatheringStopped"],
+      timeoutMs: 15000,
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Interact with a resource (server-authoritative pathing)
+   */
+  interactResource(resourceId: string): Promise<CommandResult> {
+    return this.sendCommand("resourceInteract", { resourceId }, {
+      confirm: ["gatheringStarted"],
+      fail: ["gatheringStopped"],
+      timeoutMs: 15000,
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Stop the current gathering action. There is no stop packet; moving onto
+   * our own tile interrupts it like any other movement would.
+   */
+  stopGathering(): CommandResult {
+    const position = this.state.playerEntity?.position;
+    if (!position) {
+      return { success: false, resolvedBy: "notSent", message: "Player position unknown" };
+    }
+    return this.move([position[0], position[1], position[2]], false);
+  }
+
+  /**
+   * Cook food on fire/range
+   */
+  cook(itemId: string, sourceId?: string): Promise<CommandResult> {
+    return this.sendCommand("cookingRequest", { itemId, sourceId }, {
+      confirm: ["inventoryUpdated"],
+      match: this.itemQuantityChanged(itemId),
+      timeoutMs: 10000,
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Light a fire
+   */
+  lightFire(): Promise<CommandResult> {
+    return this.sendCommand("firemakingRequest", {}, { confirm: ["fireCreated"], timeoutMs: 10000, errorToast: true });
+  }
+
+  /**
+   * Pick up an item from the ground
+   */
+  pickup(itemId: string): Promise<CommandResult> {
+    return this.sendCommand("pickupItem", { itemId, timestamp: Date.now() }, {
+      confirm: ["inventoryUpdated"],
+      match: this.itemQuantityChanged(itemId),
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Drop an item from inventory
+   */
+  drop(itemId: string, quantity = 1, slot?: number): Promise<CommandResult> {
+    return this.sendCommand("dropItem", { itemId, quantity, slot }, {
+      confirm: ["inventoryUpdated"],
+      match: this.itemQuantityChanged(itemId),
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Equip an item
+   */
+  equip(itemId: string, slot?: number): Promise<CommandResult> {
+    return this.sendCommand("equipItem", { itemId, slot }, { confirm: ["equipmentUpdated"], errorToast: true });
+  }
+
+  /**
+   * Unequip an item
+   */
+  unequip(slot: string): Promise<CommandResult> {
+    return this.sendCommand("unequipItem", { slot }, { confirm: ["equipmentUpdated"], errorToast: true });
+  }
+
+  /**
+   * Use an item
+   */
+  useItem(itemId: string, slot?: number): Promise<CommandResult> {
+    return this.sendCommand("useItem", { itemId, slot }, {
+      confirm: ["inventoryUpdated"],
+      match: this.itemQuantityChanged(itemId),
+      errorToast: true,
+    });
+  }
+
+  // === Bank Commands ===
+
+  /**
+   * Deposit item to bank
+   */
+  bankDeposit(itemId: string, quantity = 1, slot?: number): Promise<CommandResult> {
+    return this.sendCommand("bankDeposit", { itemId, quantity, slot }, { confirm: ["bankState"], errorToast: true });
+  }
+
+  /**
+   * Deposit all items to bank
+   */
+  bankDepositAll(): Promise<CommandResult> {
+    return this.sendCommand("bankDepositAll", {}, { confirm: ["bankState"], errorToast: true });
+  }
+
+  /**
+   * Withdraw item from bank
+   */
+  bankWithdraw(itemId: string, quantity = 1, slot?: number): Promise<CommandResult> {
+    return this.sendCommand("bankWithdraw", { itemId, quantity, slot }, { confirm: ["bankState"], errorToast: true });
+  }
+
+  /**
+   * Deposit coins to bank
+   */
+  bankDepositCoins(amount: number): Promise<CommandResult> {
+    return this.sendCommand("bankDepositCoins", { amount }, { confirm: ["bankState"], errorToast: true });
+  }
+
+  /**
+   * Withdraw coins from bank
+   */
+  bankWithdrawCoins(amount: number): Promise<CommandResult> {
+    return this.sendCommand("bankWithdrawCoins", { amount }, { confirm: ["bankState"], errorToast: true });
+  }
+
+  /**
+   * Close bank interface
+   */
+  bankClose(): CommandResult {
+    const result = this.sendAction("bankClose", {});
+    this.state.bankOpen = false;
+    return result;
+  }
+
+  // === NPC & Dialogue ===
+
+  /**
+   * Interact with an NPC
+   */
+  npcInteract(npcId: string, action?: string): Promise<CommandResult> {
+    return this.sendCommand("npcInteract", { npcId, action }, {
+      confirm: ["dialogueStart", "bankOpen", "bankState", "storeOpen", "storeState"],
+      timeoutMs: 15000,
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Respond to dialogue option
+   */
+  dialogueResponse(optionIndex: number): Promise<CommandResult> {
+    return this.sendCommand("dialogueResponse", { optionIndex }, { confirm: ["dialogueNodeChange", "dialogueEnd", "dialogueClose"] });
+  }
+
+  /**
+   * Continue dialogue
+   */
+  dialogueContinue(): Promise<CommandResult> {
+    return this.sendCommand("dialogueContinue", {}, { confirm: ["dialogueNodeChange", "dialogueEnd", "dialogueClose"] });
+  }
+
+  /**
+   * Close dialogue
+   */
+  dialogueClose(): CommandResult {
+    const result = this.sendAction("dialogueClose", {});
+    this.state.dialogueOpen = false;
+    return result;
+  }
+
+  // === Store ===
+
+  /**
+   * Buy item from store
+   */
+  storeBuy(itemId: string, quantity = 1): Promise<CommandResult> {
+    return this.sendCommand("storeBuy", { itemId, quantity }, { confirm: ["storeState", "inventoryUpdated"], errorToast: true });
+  }
+
+  /**
+   * Sell item to store
+   */
+  storeSell(itemId: string, quantity = 1, slot?: number): Promise<CommandResult> {
+    return this.sendCommand("storeSell", { itemId, quantity, slot }, { confirm: ["storeState", "inventoryUpdated"], errorToast: true });
+  }
+
+  /**
+   * Close store
+   */
+  storeClose(): CommandResult {
+    const result = this.sendAction("storeClose", {});
+    this.state.storeOpen = false;
+    return result;
+  }
+
+  // === Magic & Abilities ===
+
+  /**
+   * Cast a named spell on a target
+   */
+  castSpell(spellId: string, targetId: string): Promise<CommandResult> {
+    this.state.currentTarget = targetId;
+    return this.sendCommand("castSpell", { spellId, targetId }, {
+      confirm: ["spellCast"],
+      fail: ["abilityFailed"],
+      match: (_name, data) => matchesAbility(data, spellId),
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Set the autocast spell (null to clear)
+   */
+  async setAutocast(spellId: string | null): Promise<CommandResult> {
+    const result = await this.sendCommand("setAutocast", { spellId }, { confirm: [], errorToast: true, quiet: true });
+    if (result.success) this.state.autocastSpell = spellId;
+    return result;
   }
 
   /**
-   * Toggle auto-retaliate
+   * Use an active ability, optionally on a target
    */
-  setAutoRetaliate(enabled: boolean): void {
-    this.sendPacket("setAutoRetaliate", { enabled });
+  useAbility(abilityId: string, targetId?: string): Promise<CommandResult> {
+    return this.sendCommand("useSkill", { skillId: abilityId, targetId }, {
+      confirm: ["skillActivated"],
+      fail: ["abilityFailed"],
+      match: (_name, data) => matchesAbility(data, abilityId),
+      errorToast: true,
+    });
   }
 
   /**
-   * Gather from a resource (tree, rock, fishing spot)
+   * Milliseconds until an ability or spell is off cooldown (0 if ready)
    */
-  gather(resourceId: string): void {
-    this.sendPacket("resourceGather", { resourceId });
+  getCooldownRemaining(abilityId: string): number {
+    const readyAt = this.state.abilityCooldowns.get(abilityId);
+    if (readyAt === undefined) return 0;
+    const remaining = readyAt - monotonicNow();
+    if (remaining <= 0) {
+      this.state.abilityCooldowns.delete(abilityId);
+      return 0;
+    }
+    return remaining;
   }
 
+  // === Prayer ===
+
   /**
-   * Interact with a resource (server-authoritative pathing)
+   * Toggle a prayer on or off
    */
-  interactResource(resourceId: string): void {
-    this.sendPacket("resourceInteract", { resourceId });
+  prayerToggle(prayerId: string): Promise<CommandResult> {
+    return this.sendCommand("prayerToggle", { prayerId }, {
+      confirm: ["prayerToggled"],
+      match: (_name, data) => (data as { prayerId?: string }).prayerId === prayerId,
+      errorToast: true,
+    });
   }
 
   /**
-   * Cook food on fire/range
+   * Deactivate all active prayers
    */
-  cook(itemId: string, sourceId?: string): void {
-    this.sendPacket("cookingRequest", { itemId, sourceId });
+  prayerDeactivateAll(): Promise<CommandResult> {
+    return this.sendCommand("prayerDeactivateAll", {}, { confirm: ["prayerStateSync", "prayerToggled"], errorToast: true });
   }
 
   /**
-   * Light a fire
+   * Pray at an altar to restore prayer points
    */
-  lightFire(): void {
-    this.sendPacket("firemakingRequest", {});
+  altarPray(altarId: string): Promise<CommandResult> {
+    return this.sendCommand("altarPray", { altarId }, {
+      confirm: ["prayerPointsChanged", "prayerStateSync"],
+      timeoutMs: 15000,
+      errorToast: true,
+    });
   }
 
+  // === Trading ===
+
   /**
-   * Pick up an item from the ground
+   * Request a trade with another player
    */
-  pickup(itemId: string): void {
-    this.sendPacket("pickupItem", { itemId, timestamp: Date.now() });
+  tradeRequest(playerId: string): Promise<CommandResult> {
+    return this.sendCommand("tradeRequest", { targetId: playerId }, {
+      confirm: [],
+      fail: ["tradeError"],
+      errorToast: true,
+      quiet: true,
+    });
   }
 
   /**
-   * Drop an item from inventory
+   * Accept or decline an incoming trade request
    */
-  drop(itemId: string, quantity = 1, slot?: number): void {
-    this.sendPacket("dropItem", { itemId, quantity, slot });
+  async tradeRespond(playerId: string, accept: boolean): Promise<CommandResult> {
+    const data = { playerId, accept };
+    const result = accept
+      ? await this.sendCommand("tradeRequestRespond", data, { confirm: ["tradeStarted"], fail: ["tradeError"], errorToast: true })
+      : this.sendAction("tradeRequestRespond", data);
+    if (result.resolvedBy !== "notSent") {
+      this.state.tradeRequests = this.state.tradeRequests.filter(r => r.playerId !== playerId);
+    }
+    return result;
   }
 
   /**
-   * Equip an item
+   * Offer an item from inventory in the current trade
    */
-  equip(itemId: string, slot?: number): void {
-    this.sendPacket("equipItem", { itemId, slot });
+  tradeAddItem(itemId: string, quantity = 1, slot?: number): Promise<CommandResult> {
+    return this.sendCommand("tradeAddItem", { itemId, quantity, slot }, TRADE_UPDATE);
   }
 
   /**
-   * Unequip an item
+   * Remove an offered item from the current trade
    */
-  unequip(slot: string): void {
-    this.sendPacket("unequipItem", { slot });
+  tradeRemoveItem(itemId: string, slot?: number): Promise<CommandResult> {
+    return this.sendCommand("tradeRemoveItem", { itemId, slot }, TRADE_UPDATE);
   }
 
   /**
-   * Use an item
+   * Change the quantity of an offered item
    */
-  useItem(itemId: string, slot?: number): void {
-    this.sendPacket("useItem", { itemId, slot });
+  tradeSetItemQuantity(itemId: string, quantity: number): Promise<CommandResult> {
+    return this.sendCommand("tradeSetItemQuantity", { itemId, quantity }, TRADE_UPDATE);
   }
 
-  // === Bank Commands ===
+  /**
+   * Accept the current trade screen (offer or confirm). Each accept records
+   * the partner's offer as the one we agreed to, except that a change seen
+   * on the confirm screen stays flagged.
+   */
+  tradeAccept(): Promise<CommandResult> {
+    const trade = this.state.trade;
+    if (trade && !(trade.stage === "confirm" && trade.counterOfferChanged)) {
+      trade.acceptedTheirOffer = trade.theirOffer.map(item => ({ ...item }));
+      trade.counterOfferChanged = false;
+    }
+    return this.sendCommand("tradeAccept", {}, {
+      ...TRADE_UPDATE,
+      confirm: ["tradeUpdated", "tradeConfirmScreen", "tradeCompleted"],
+    });
+  }
 
   /**
-   * Deposit item to bank
+   * Withdraw acceptance of the current trade screen
    */
-  bankDeposit(itemId: string, quantity = 1, slot?: number): void {
-    this.sendPacket("bankDeposit", { itemId, quantity, slot });
+  tradeCancelAccept(): Promise<CommandResult> {
+    return this.sendCommand("tradeCancelAccept", {}, TRADE_UPDATE);
   }
 
   /**
-   * Deposit all items to bank
+   * Cancel the current trade
    */
-  bankDepositAll(): void {
-    this.sendPacket("bankDepositAll", {});
+  tradeCancel(): Promise<CommandResult> {
+    return this.sendCommand("tradeCancel", {}, { confirm: ["tradeCancelled"], fail: ["tradeError"] });
   }
 
+  // === Duels ===
+
   /**
-   * Withdraw item from bank
+   * Challenge another player to a duel
    */
-  bankWithdraw(itemId: string, quantity = 1, slot?: number): void {
-    this.sendPacket("bankWithdraw", { itemId, quantity, slot });
+  async duelChallenge(playerId: string, stakeLimit: number | null = null): Promise<CommandResult> {
+    const result = await this.sendCommand("duel:challenge", { targetId: playerId }, {
+      confirm: ["duelChallengeSent"],
+      fail: ["duelError"],
+      errorToast: true,
+    });
+    if (result.success) {
+      this.state.duel = this.createDuelSession(playerId, undefined, stakeLimit);
+    }
+    return result;
   }
 
   /**
-   * Deposit coins to bank
+   * Accept or decline an incoming duel challenge
    */
-  bankDepositCoins(amount: number): void {
-    this.sendPacket("bankDepositCoins", { amount });
+  async duelRespond(playerId: string, accept: boolean, stakeLimit: number | null = null): Promise<CommandResult> {
+    const challenge = this.state.duelChallenges.find(c => c.playerId === playerId);
+    const data = { challengerId: playerId, accept };
+    if (accept) {
+      // duelSessionStarted is handled before the command settles, so set the stake limit up front
+      this.state.duel = this.createDuelSession(playerId, challenge?.playerName, stakeLimit);
+    }
+    const result = accept
+      ? await this.sendCommand("duel:challenge:respond", data, {
+        confirm: ["duelSessionStarted", "duelStateChanged"],
+        fail: ["duelError"],
+        errorToast: true,
+      })
+      : this.sendAction("duel:challenge:respond", data);
+    if (result.resolvedBy !== "notSent") {
+      this.state.duelChallenges = this.state.duelChallenges.filter(c => c.playerId !== playerId);
+    }
+    if (accept && !result.success && this.state.duel?.stage === "challenge") {
+      this.state.duel = null;
+    }
+    return result;
   }
 
   /**
-   * Withdraw coins from bank
+   * Toggle a duel rule (e.g. noMagic, noFood)
    */
-  bankWithdrawCoins(amount: number): void {
-    this.sendPacket("bankWithdrawCoins", { amount });
+  duelToggleRule(rule: string): Promise<CommandResult> {
+    return this.sendCommand("duel:toggle:rule", { rule }, { confirm: ["duelRulesUpdated"], fail: ["duelError"] });
   }
 
   /**
-   * Close bank interface
+   * Toggle whether an equipment slot is allowed in the duel
    */
-  bankClose(): void {
-    this.sendPacket("bankClose", {});
-    this.state.bankOpen = false;
+  duelToggleEquipment(slot: string): Promise<CommandResult> {
+    return this.sendCommand("duel:toggle:equipment", { slot }, { confirm: ["duelEquipmentUpdated"], fail: ["duelError"] });
   }
 
-  // === NPC & Dialogue ===
+  /**
+   * Accept the current duel rules
+   */
+  duelAcceptRules(): Promise<CommandResult> {
+    return this.sendCommand("duel:accept:rules", {}, { confirm: ["duelAcceptanceUpdated", "duelMoveToStakes", "duelStateChanged"], fail: ["duelError"] });
+  }
 
   /**
-   * Interact with an NPC
+   * Add an item to our duel stake
    */
-  npcInteract(npcId: string, action?: string): void {
-    this.sendPacket("npcInteract", { npcId, action });
+  duelAddStake(itemId: string, quantity = 1, slot?: number): Promise<CommandResult> {
+    return this.sendCommand("duel:add:stake", { itemId, quantity, slot }, { confirm: ["duelStakesUpdated"], fail: ["duelError"] });
   }
 
   /**
-   * Respond to dialogue option
+   * Remove an item from our duel stake
    */
-  dialogueResponse(optionIndex: number): void {
-    this.sendPacket("dialogueResponse", { optionIndex });
+  duelRemoveStake(itemId: string, slot?: number): Promise<CommandResult> {
+    return this.sendCommand("duel:remove:stake", { itemId, slot }, { confirm: ["duelStakesUpdated"], fail: ["duelError"] });
   }
 
   /**
-   * Continue dialogue
+   * Accept the current stakes
    */
-  dialogueContinue(): void {
-    this.sendPacket("dialogueContinue", {});
+  duelAcceptStakes(): Promise<CommandResult> {
+    return this.sendCommand("duel:accept:stakes", {}, { confirm: ["duelAcceptanceUpdated", "duelMoveToConfirm", "duelStateChanged"], fail: ["duelError"] });
   }
 
   /**
-   * Close dialogue
+   * Give final confirmation to start the duel
    */
-  dialogueClose(): void {
-    this.sendPacket("dialogueClose", {});
-    this.state.dialogueOpen = false;
+  duelAcceptFinal(): Promise<CommandResult> {
+    return this.sendCommand("duel:accept:final", {}, { confirm: ["duelAcceptanceUpdated", "duelStartFight", "duelCountdownStart", "duelStateChanged"], fail: ["duelError"] });
   }
 
-  // === Store ===
+  /**
+   * Cancel the duel before the fight starts, or withdraw an unanswered challenge
+   */
+  async duelCancel(): Promise<CommandResult> {
+    if (this.state.duel?.stage === "challenge") {
+      // No duel session exists on the server yet, so nothing will confirm this
+      const result = this.sendAction("duel:cancel", {});
+      this.state.duel = null;
+      return result;
+    }
+    return this.sendCommand("duel:cancel", {}, { confirm: ["duelCancelled"], fail: ["duelError"] });
+  }
 
   /**
-   * Buy item from store
+   * Forfeit an ongoing duel fight
    */
-  storeBuy(itemId: string, quantity = 1): void {
-    this.sendPacket("storeBuy", { itemId, quantity });
+  duelForfeit(): Promise<CommandResult> {
+    return this.sendCommand("duel:forfeit", {}, { confirm: ["duelEnded", "duelCompleted"], fail: ["duelError"] });
   }
 
+  // === Social ===
+
   /**
-   * Sell item to store
+   * Send a friend request
    */
-  storeSell(itemId: string, quantity = 1, slot?: number): void {
-    this.sendPacket("storeSell", { itemId, quantity, slot });
+  friendRequest(name: string): Promise<CommandResult> {
+    return this.sendCommand("friendRequest", { name }, SOCIAL_ACTION);
   }
 
   /**
-   * Close store
+   * Accept a pending friend request
    */
-  storeClose(): void {
-    this.sendPacket("storeClose", {});
-    this.state.storeOpen = false;
+  async friendAccept(name: string): Promise<CommandResult> {
+    const result = await this.sendCommand("friendAccept", { name }, {
+      ...FRIENDS_UPDATE,
+      confirm: ["friendsListSync", "friendStatusUpdate"],
+      match: (packet, data) => packet === "friendsListSync"
+        || (data as { name?: string }).name?.toLowerCase() === name.toLowerCase(),
+    });
+    if (result.success) this.removePendingFriendRequest(name);
+    return result;
+  }
+
+  /**
+   * Decline a pending friend request
+   */
+  async friendDecline(name: string): Promise<CommandResult> {
+    const result = await this.sendCommand("friendDecline", { name }, SOCIAL_ACTION);
+    if (result.success) this.removePendingFriendRequest(name);
+    return result;
+  }
+
+  /**
+   * Remove a friend
+   */
+  async friendRemove(name: string): Promise<CommandResult> {
+    const result = await this.sendCommand("friendRemove", { name }, FRIENDS_UPDATE);
+    if (result.success) this.state.social.friends.delete(name.toLowerCase());
+    return result;
+  }
+
+  /**
+   * Add a player to the ignore list
+   */
+  async ignoreAdd(name: string): Promise<CommandResult> {
+    const result = await this.sendCommand("ignoreAdd", { name }, FRIENDS_UPDATE);
+    if (result.success && !this.isIgnored(name)) {
+      this.state.social.ignoreList.push(name);
+    }
+    return result;
+  }
+
+  /**
+   * Remove a player from the ignore list
+   */
+  async ignoreRemove(name: string): Promise<CommandResult> {
+    const result = await this.sendCommand("ignoreRemove", { name }, FRIENDS_UPDATE);
+    if (result.success) {
+      const lower = name.toLowerCase();
+      this.state.social.ignoreList = this.state.social.ignoreList.filter(n => n.toLowerCase() !== lower);
+    }
+    return result;
+  }
+
+  /**
+   * Send a private message to another player
+   */
+  async privateMessage(name: string, message: string): Promise<CommandResult> {
+    const result = await this.sendCommand("privateMessage", { targetName: name, message }, {
+      ...SOCIAL_ACTION,
+      fail: ["privateMessageFailed", "socialError"],
+    });
+    if (result.success) {
+      this.recordPrivateMessage({
+        direction: "outgoing",
+        name,
+        message,
+        timestamp: Date.now(),
+      });
+    }
+    return result;
+  }
+
+  private removePendingFriendRequest(name: string): void {
+    const lower = name.toLowerCase();
+    this.state.social.pendingRequests = this.state.social.pendingRequests.filter(r => r.name.toLowerCase() !== lower);
+  }
+
+  // === Quests ===
+
+  /**
+   * Request the quest list (available, active and completed)
+   */
+  requestQuestList(): Promise<CommandResult> {
+    return this.sendCommand("getQuestList", {}, { confirm: ["questList"] });
+  }
+
+  /**
+   * Request full details and step progress for a quest
+   */
+  requestQuestDetail(questId: string): Promise<CommandResult> {
+    return this.sendCommand("getQuestDetail", { questId }, {
+      confirm: ["questDetail"],
+      match: (_name, data) => (data as { quest?: { questId?: string } }).quest?.questId === questId,
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Accept (start) a quest
+   */
+  async acceptQuest(questId: string): Promise<CommandResult> {
+    const result = await this.sendCommand("questAccept", { questId }, {
+      confirm: ["questProgressed", "questStartConfirm"],
+      match: (_name, data) => (data as { questId?: string }).questId === questId,
+      errorToast: true,
+    });
+    // questStartConfirm asks us to accept once more
+    if (result.resolvedBy === "questProgressed" && this.state.pendingQuestStart === questId) {
+      this.state.pendingQuestStart = null;
+    }
+    return result;
+  }
+
+  /**
+   * Abandon an active quest
+   */
+  async abandonQuest(questId: string): Promise<CommandResult> {
+    const result = await this.sendCommand("questAbandon", { questId }, {
+      confirm: ["questList"],
+      match: (_name, data) => (data as { quests?: Array<Partial<Quest> & { questId: string }> }).quests
+        ?.find(q => q.questId === questId)?.status !== "active",
+      errorToast: true,
+    });
+    // The list may leave the quest out rather than mark it available
+    if (result.success) this.upsertQuest({ questId, status: "available", pinned: false, steps: [] });
+    return result;
+  }
+
+  /**
+   * Pin or unpin a quest in the quest tracker
+   */
+  toggleQuestPin(questId: string): Promise<CommandResult> {
+    return this.sendCommand("questTogglePin", { questId }, {
+      confirm: ["questPinned"],
+      match: (_name, data) => (data as { questId?: string }).questId === questId,
+    });
+  }
+
+  // === Smelting & Smithing ===
+
+  /**
+   * Use a furnace (opens the smelting interface)
+   */
+  smeltingInteract(furnaceId: string): Promise<CommandResult> {
+    return this.sendCommand("smeltingSourceInteract", { sourceId: furnaceId }, {
+      confirm: ["smeltingInterfaceOpen"],
+      timeoutMs: 15000,
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Use an anvil (opens the smithing interface)
+   */
+  smithingInteract(anvilId: string): Promise<CommandResult> {
+    return this.sendCommand("smithingSourceInteract", { sourceId: anvilId }, {
+      confirm: ["smithingInterfaceOpen"],
+      timeoutMs: 15000,
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Smelt bars at the open furnace
+   */
+  smelt(barItemId: string, quantity = 1): Promise<CommandResult> {
+    return this.sendCommand("processingSmelting", {
+      itemId: barItemId,
+      quantity,
+      sourceId: this.state.productionInterface?.sourceId,
+    }, {
+      confirm: ["inventoryUpdated"],
+      match: this.itemQuantityChanged(barItemId),
+      timeoutMs: 10000,
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Smith an item at the open anvil
+   */
+  smith(itemId: string, quantity = 1): Promise<CommandResult> {
+    return this.sendCommand("processingSmithing", {
+      itemId,
+      quantity,
+      sourceId: this.state.productionInterface?.sourceId,
+    }, {
+      confirm: ["inventoryUpdated"],
+      match: this.itemQuantityChanged(itemId),
+      timeoutMs: 10000,
+      errorToast: true,
+    });
+  }
+
+  /**
+   * Close the smelting or smithing interface
+   */
+  productionClose(): CommandResult {
+    let result: CommandResult = { success: true, resolvedBy: "sent" };
+    if (this.state.smeltingOpen) {
+      result = this.sendAction("smeltingClose", {});
+    } else if (this.state.smithingOpen) {
+      result = this.sendAction("smithingClose", {});
+    }
+    this.closeProductionInterface();
+    return result;
+  }
+
+  /**
+   * Wait for the next occurrence of a client event
+   */
+  waitForEvent<T = unknown>(event: string, timeoutMs = 5000): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.off(event, onEvent);
+        reject(new Error(`Timed out waiting for ${event}`));
+      }, timeoutMs);
+      const onEvent = (data: T) => {
+        clearTimeout(timer);
+        resolve(data);
+      };
+      this.once(event, onEvent);
+    });
   }
 
   // === Death & Respawn ===
@@ -720,22 +2724,45 @@ export class HyperscapeClient extends EventEmitter {
   /**
    * Request respawn after death
    */
-  respawn(): void {
-    this.sendPacket("requestRespawn", {});
+  respawn(): Promise<CommandResult> {
+    return this.sendCommand("requestRespawn", {}, { confirm: ["playerRespawned"], timeoutMs: 10000 });
   }
 
   /**
    * Home teleport
    */
-  homeTeleport(): void {
-    this.sendPacket("homeTeleport", {});
+  homeTeleport(): Promise<CommandResult> {
+    return this.sendCommand("homeTeleport", {}, {
+      confirm: ["homeTeleportStart", "playerTeleport"],
+      fail: ["homeTeleportFailed"],
+      errorToast: true,
+    });
   }
 
   /**
    * Send a chat message
    */
-  chat(message: string, channel = "local"): void {
-    this.sendPacket("chatMessage", { message, channel });
+  async chat(message: string, channel = "local"): Promise<CommandResult> {
+    const player = this.state.playerEntity;
+    const chatMessage: ChatMessage = {
+      id: createMessageId(),
+      channel,
+      from: player?.name ?? "You",
+      fromId: player?.id,
+      body: message,
+      timestamp: Date.now(),
+    };
+    const result = await this.sendCommand("chatAdded", {
+      id: chatMessage.id,
+      from: chatMessage.from,
+      fromId: chatMessage.fromId,
+      body: message,
+      channel,
+      createdAt: new Date(chatMessage.timestamp).toISOString(),
+    }, { confirm: [], errorToast: true, quiet: true });
+    // The server broadcasts to other players only, so record our own line
+    if (result.success) this.recordChatMessage(chatMessage);
+    return result;
   }
 
   // === Context Providers ===
@@ -756,6 +2783,21 @@ export class HyperscapeClient extends EventEmitter {
     const pos = player.position ? `[${player.position.map(n => n.toFixed(1)).join(", ")}]` : "unknown";
     const health = player.health !== undefined ? `${player.health}/${player.maxHealth}` : "unknown";
     const coins = player.coins?.toLocaleString() ?? "0";
+    const prayer = player.prayerPoints !== undefined
+      ? `${player.prayerPoints}${player.maxPrayerPoints !== undefined ? `/${player.maxPrayerPoints}` : ""}`
+      : "unknown";
+    const activePrayers = this.state.activePrayers.join(", ") || "None";
+    const cooldowns = Array.from(this.state.abilityCooldowns.keys())
+      .map(id => ({ id, remaining: this.getCooldownRemaining(id) }))
+      .filter(c => c.remaining > 0)
+      .map(c => `${c.id} ${(c.remaining / 1000).toFixed(1)}s`)
+      .join(", ");
+    const failure = this.state.lastAbilityFailure;
+    const magicStr = [
+      this.state.autocastSpell ? `- Autocast: ${this.state.autocastSpell}` : "",
+      cooldowns ? `- Cooldowns: ${cooldowns}` : "",
+      failure ? `- Last failed: ${failure.abilityId} (${failure.reason})` : "",
+    ].filter(Boolean).join("\n");
 
     // Format skills
     let skillsStr = "";
@@ -778,7 +2820,8 @@ export class HyperscapeClient extends EventEmitter {
       }
     }
 
-    // Format nearby entities
+    // Format nearby entities, flagging ones the server hasn't updated in a while
+    const staleEntityMs = this.config.staleEntityMs ?? 30000;
     const nearby = Array.from(this.state.nearbyEntities.values())
       .filter(e => e.id !== player.id)
       .slice(0, 15);
@@ -797,7 +2840,9 @@ export class HyperscapeClient extends EventEmitter {
         : "?";
       const hp = e.health !== undefined ? ` (${e.health}/${e.maxHealth})` : "";
       const lvl = e.level ? ` Lv${e.level}` : "";
-      return `- ${e.name || e.type}${lvl}${hp} [${dist}m] id:${e.id}`;
+      const age = Date.now() - (this.state.entityLastSeen.get(e.id) ?? 0);
+      const stale = age >= staleEntityMs ? ` (not updated for ${Math.round(age / 1000)}s)` : "";
+      return `- ${e.name || e.type}${lvl}${hp} [${dist}m] id:${e.id}${stale}`;
     };
 
     let nearbyStr = "";
@@ -813,8 +2858,10 @@ export class HyperscapeClient extends EventEmitter {
 - Position: ${pos}
 - Health: ${health}
 - Coins: ${coins}
+- Prayer: ${prayer} (Active: ${activePrayers})
 - Attack Style: ${this.state.attackStyle}
 - Auto-Retaliate: ${this.state.autoRetaliate ? "On" : "Off"}
+${magicStr}
 ${this.state.currentTarget ? `- Target: ${this.state.currentTarget}` : ""}
 
 **Skills:** ${skillsStr || "Loading..."}
@@ -837,7 +2884,7 @@ ${nearbyStr || "No entities nearby."}
     }
 
     if (!player) {
-      return ["hyperscape_status"];
+      return ["hyperscape_status", "hyperscape_list_characters", "hyperscape_create_character", "hyperscape_select_character"];
     }
 
     // Always available
@@ -862,11 +2909,46 @@ ${nearbyStr || "No entities nearby."}
       actions.push("hyperscape_store_buy", "hyperscape_store_sell", "hyperscape_store_close");
       return actions;
     }
+    if (this.state.smeltingOpen) {
+      actions.push("hyperscape_smelt", "hyperscape_production_close");
+      return actions;
+    }
+    if (this.state.smithingOpen) {
+      actions.push("hyperscape_smith", "hyperscape_production_close");
+      return actions;
+    }
+    if (this.state.trade) {
+      actions.push("hyperscape_trade_offer", "hyperscape_trade_remove", "hyperscape_trade_accept", "hyperscape_trade_cancel");
+      if (this.state.trade.myAccepted) actions.push("hyperscape_trade_unaccept");
+      return actions;
+    }
+    if (this.state.tradeRequests.length > 0) {
+      actions.push("hyperscape_trade_respond");
+    }
+    if (this.state.duel) {
+      switch (this.state.duel.stage) {
+        case "rules":
+          actions.push("hyperscape_duel_toggle_rule", "hyperscape_duel_toggle_equipment", "hyperscape_duel_accept", "hyperscape_duel_cancel");
+          return actions;
+        case "stakes":
+          actions.push("hyperscape_duel_stake", "hyperscape_duel_unstake", "hyperscape_duel_accept", "hyperscape_duel_cancel");
+          return actions;
+        case "confirm":
+          actions.push("hyperscape_duel_accept", "hyperscape_duel_cancel");
+          return actions;
+        case "fight":
+          actions.push("hyperscape_attack", "hyperscape_duel_forfeit");
+          return actions;
+      }
+    }
+    if (this.state.duelChallenges.length > 0) {
+      actions.push("hyperscape_duel_respond");
+    }
 
     // Combat
     const nearMobs = Array.from(this.state.nearbyEntities.values()).filter(e => e.type === "mob" && e.alive !== false);
     if (nearMobs.length > 0) {
-      actions.push("hyperscape_attack");
+      actions.push("hyperscape_attack", "hyperscape_cast_spell", "hyperscape_use_ability");
     }
 
     // Resources
@@ -877,6 +2959,16 @@ ${nearbyStr || "No entities nearby."}
       actions.push("hyperscape_gather");
     }
 
+    // Furnaces & anvils
+    const furnaces = Array.from(this.state.nearbyEntities.values()).filter(e => e.type === "furnace");
+    if (furnaces.length > 0) {
+      actions.push("hyperscape_smelt");
+    }
+    const anvils = Array.from(this.state.nearbyEntities.values()).filter(e => e.type === "anvil");
+    if (anvils.length > 0) {
+      actions.push("hyperscape_smith");
+    }
+
     // Ground items
     const groundItems = Array.from(this.state.nearbyEntities.values()).filter(e => 
       e.type === "item" || e.type === "groundItem"
@@ -885,6 +2977,18 @@ ${nearbyStr || "No entities nearby."}
       actions.push("hyperscape_pickup");
     }
 
+    // Prayer
+    if ((player.prayerPoints ?? 0) > 0) {
+      actions.push("hyperscape_prayer_toggle");
+    }
+    if (this.state.activePrayers.length > 0) {
+      actions.push("hyperscape_prayer_off_all");
+    }
+    const altars = Array.from(this.state.nearbyEntities.values()).filter(e => e.type === "altar");
+    if (altars.length > 0) {
+      actions.push("hyperscape_altar_pray");
+    }
+
     // Inventory actions
     if (player.inventory && player.inventory.length > 0) {
       actions.push("hyperscape_drop", "hyperscape_equip", "hyperscape_use_item");
@@ -896,9 +3000,222 @@ ${nearbyStr || "No entities nearby."}
       actions.push("hyperscape_npc_interact");
     }
 
+    // Social
+    actions.push("hyperscape_pm_send");
+    if (this.state.social.pendingRequests.length > 0) {
+      actions.push("hyperscape_friend_accept", "hyperscape_friend_decline");
+    }
+
+    // Quests
+    actions.push("hyperscape_quest_list");
+    if (this.state.pendingQuestStart) {
+      actions.push("hyperscape_quest_accept");
+    }
+
     return actions;
   }
 
+  /**
+   * Get smelting/smithing interface context
+   */
+  getProductionContext(): string {
+    const open = this.state.productionInterface;
+    if (!open) {
+      return "No smelting or smithing interface open.";
+    }
+
+    const formatRecipe = (r: ProductionRecipe) => {
+      const inputs = r.inputs.map(i => `${i.quantity}x ${i.name || i.itemId}`).join(" + ");
+      return `- ${r.canMake ? "✅" : "❌"} ${r.name} (Lv${r.levelRequired}) id:${r.itemId}${inputs ? ` needs ${inputs}` : ""}${r.xp ? ` ${r.xp}xp` : ""}`;
+    };
+
+    return `
+**${open.type === "smelting" ? "Furnace" : "Anvil"} Open**
+${open.recipes.map(formatRecipe).join("\n") || "No recipes available"}
+`.trim();
+  }
+
+  /**
+   * Get trade context
+   */
+  getTradeContext(): string {
+    const trade = this.state.trade;
+    const requests = this.state.tradeRequests
+      .map(r => `- ${r.playerName || r.playerId} id:${r.playerId}`)
+      .join("\n");
+
+    if (!trade) {
+      return requests ? `**Incoming Trade Requests:**\n${requests}` : "No trade in progress.";
+    }
+
+    const formatOffer = (offer: TradeOfferItem[]) =>
+      offer.map(item => `${item.name || item.itemId} x${item.quantity}`).join(", ") || "Nothing";
+
+    return `
+**Trading with ${trade.partnerName || trade.partnerId}** (${trade.stage === "confirm" ? "confirm screen" : "offer screen"})
+- You offer: ${formatOffer(trade.myOffer)}
+- They offer: ${formatOffer(trade.theirOffer)}
+- Accepted: you ${trade.myAccepted ? "✅" : "❌"}, them ${trade.theirAccepted ? "✅" : "❌"}
+${trade.counterOfferChanged ? "- ⚠️ Their offer changed after you accepted!" : ""}
+${trade.lastError ? `- Error: ${trade.lastError}` : ""}
+`.trim();
+  }
+
+  /**
+   * Get duel context
+   */
+  getDuelContext(): string {
+    const duel = this.state.duel;
+    const challenges = this.state.duelChallenges
+      .map(c => `- ${c.playerName || c.playerId}${c.combatLevel ? ` (Cb ${c.combatLevel})` : ""} id:${c.playerId}`)
+      .join("\n");
+
+    if (!duel) {
+      return challenges ? `**Incoming Duel Challenges:**\n${challenges}` : "No duel in progress.";
+    }
+
+    const formatStakes = (stakes: TradeOfferItem[]) =>
+      stakes.map(item => `${item.name || item.itemId} x${item.quantity}`).join(", ") || "Nothing";
+    const rules = Object.entries(duel.rules)
+      .filter(([, enabled]) => enabled)
+      .map(([rule]) => rule)
+      .join(", ");
+    const result = duel.result
+      ? `- Result: ${duel.result.won ? "🏆 Won" : "💀 Lost"}${duel.result.reason ? ` (${duel.result.reason})` : ""}`
+      : "";
+
+    return `
+**Duel vs ${duel.opponentName || duel.opponentId}** (stage: ${duel.stage})
+- Rules: ${rules || "None"}
+- Disabled equipment: ${duel.disabledEquipment.join(", ") || "None"}
+- Your stake: ${formatStakes(duel.myStakes)}${duel.stakeLimit !== null ? ` (limit ${duel.stakeLimit} coins)` : ""}
+- Their stake: ${formatStakes(duel.theirStakes)}
+- Accepted: you ${duel.myAccepted ? "✅" : "❌"}, them ${duel.theirAccepted ? "✅" : "❌"}
+${duel.countdown !== null ? `- Countdown: ${duel.countdown}` : ""}
+${duel.opponentDisconnected ? "- ⚠️ Opponent disconnected" : ""}
+${result}
+${duel.lastError ? `- Error: ${duel.lastError}` : ""}
+`.replace(/\n{2,}/g, "\n").trim();
+  }
+
+  /**
+   * Get the last N chat messages, from one channel or all channels merged
+   */
+  getChatContext(limit = 20, channel?: string): string {
+    const messages = channel
+      ? this.state.chatHistory.get(channel) ?? []
+      : Array.from(this.state.chatHistory.values())
+          .flat()
+          .sort((a, b) => a.timestamp - b.timestamp);
+
+    if (messages.length === 0) {
+      return channel ? `No chat messages in ${channel}.` : "No chat messages.";
+    }
+
+    return messages
+      .slice(-limit)
+      .map(m => {
+        const time = new Date(m.timestamp).toISOString().split("T")[1].split(".")[0];
+        return `[${time}] [${m.channel}] ${m.from}: ${m.body}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Get friends, ignore list and recent private messages
+   */
+  getSocialContext(messageCount = 10): string {
+    const social = this.state.social;
+    const friends = Array.from(social.friends.values())
+      .sort((a, b) => Number(b.online) - Number(a.online))
+      .map(f => `- ${f.online ? "🟢" : "⚫"} ${f.name}${f.world ? ` (${f.world})` : ""}`)
+      .join("\n");
+    const requests = social.pendingRequests.map(r => r.name).join(", ");
+    const messages = social.messages
+      .slice(-messageCount)
+      .map(m => `- ${m.direction === "incoming" ? `From ${m.name}` : `To ${m.name}`}: ${m.message}`)
+      .join("\n");
+
+    let socialStr = `**Friends:**\n${friends || "None"}\n`;
+    if (requests) socialStr += `**Pending Friend Requests:** ${requests}\n`;
+    if (social.ignoreList.length > 0) socialStr += `**Ignored:** ${social.ignoreList.join(", ")}\n`;
+    if (messages) socialStr += `**Private Messages:**\n${messages}\n`;
+    if (social.lastError) socialStr += `**Last Error:** ${social.lastError}\n`;
+
+    return socialStr.trim();
+  }
+
+  /**
+   * Get resource node context (availability and respawn estimates)
+   */
+  getResourceContext(): string {
+    return formatResourceContext(this.state);
+  }
+
+  /**
+   * When (ms) the server last sent anything about an entity, null if unknown
+   */
+  getEntityLastSeen(id: string): number | null {
+    return this.state.entityLastSeen.get(id) ?? null;
+  }
+
+  /**
+   * Entities (other than us) not updated for at least `maxAgeMs`
+   */
+  getStaleEntities(maxAgeMs = this.config.staleEntityMs ?? 30000): Entity[] {
+    const cutoff = Date.now() - maxAgeMs;
+    return Array.from(this.state.nearbyEntities.values())
+      .filter(e => e.id !== this.state.playerEntity?.id)
+      .filter(e => (this.state.entityLastSeen.get(e.id) ?? 0) <= cutoff);
+  }
+
+  /**
+   * Drop stale entities from nearbyEntities (emits entityRemoved for each)
+   */
+  pruneStaleEntities(maxAgeMs = this.config.staleEntityMs ?? 30000): string[] {
+    const stale = this.getStaleEntities(maxAgeMs).map(e => e.id);
+    for (const id of stale) {
+      this.handleEntityRemoved({ id });
+    }
+    return stale;
+  }
+
+  /**
+   * Get quest log context
+   */
+  getQuestContext(): string {
+    const quests = Array.from(this.state.quests.values());
+    if (quests.length === 0) {
+      return "No quests known. Use hyperscape_quest_list to fetch the quest log.";
+    }
+
+    const formatQuest = (q: Quest) => {
+      const done = q.steps.filter(s => s.completed).length;
+      const progress = q.steps.length > 0 ? ` (${done}/${q.steps.length} steps)` : "";
+      const pin = q.pinned ? "📌 " : "";
+      const steps = q.status === "active"
+        ? q.steps
+            .filter(s => !s.completed)
+            .map(s => `\n  - ${s.description} ${s.current}/${s.required}`)
+            .join("")
+        : "";
+      return `- ${pin}${q.name} id:${q.questId}${progress}${steps}`;
+    };
+
+    const active = quests.filter(q => q.status === "active")
+      .sort((a, b) => Number(b.pinned) - Number(a.pinned));
+    const available = quests.filter(q => q.status === "available");
+    const completed = quests.filter(q => q.status === "completed");
+
+    let questStr = "";
+    if (this.state.pendingQuestStart) questStr += `**Awaiting confirmation:** ${this.state.pendingQuestStart}\n`;
+    if (active.length > 0) questStr += `**Active:**\n${active.map(formatQuest).join("\n")}\n`;
+    if (available.length > 0) questStr += `**Available:**\n${available.map(formatQuest).join("\n")}\n`;
+    if (completed.length > 0) questStr += `**Completed:** ${completed.map(q => q.name).join(", ")}\n`;
+
+    return `**Quest Log**\n${questStr}`.trim();
+  }
+
   /**
    * Get bank context
    */
@@ -920,3 +3237,58 @@ ${this.state.bankItems.length > 20 ? `(+${this.state.bankItems.length - 20} more
 `.trim();
   }
 }
+
+/**
+ * Whether an ability/spell packet refers to the given ID (packets without an ID match anything)
+ */
+function matchesAbility(data: unknown, id: string): boolean {
+  const packet = data as { abilityId?: string; spellId?: string; skillId?: string };
+  const packetId = packet?.abilityId ?? packet?.spellId ?? packet?.skillId;
+  return packetId === undefined || packetId === id;
+}
+
+function countItem(items: InventoryItem[] | undefined, itemId: string): number {
+  return (items ?? []).filter(i => i.itemId === itemId).reduce((sum, i) => sum + i.quantity, 0);
+}
+
+function createMessageId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Key for pooling respawn samples: resources with the same name respawn alike
+ */
+function resourceKind(resource: ResourceState): string {
+  return (resource.name ?? resource.type ?? "resource").toLowerCase();
+}
+
+/**
+ * Normalize a character entry (id or characterId; name falls back to the id)
+ */
+function toCharacterSummary(raw: unknown): CharacterSummary | null {
+  const c = raw as { id?: string; characterId?: string; name?: string; combatLevel?: number; level?: number } | null;
+  const id = c?.id ?? c?.characterId;
+  if (!id) return null;
+  const combatLevel = c?.combatLevel ?? c?.level;
+  return { id, name: c?.name ?? id, ...(combatLevel !== undefined && { combatLevel }) };
+}
+
+/**
+ * Compare two trade offers by item and total quantity, ignoring slot order
+ */
+function sameTradeOffer(a: TradeOfferItem[], b: TradeOfferItem[]): boolean {
+  const totals = (offer: TradeOfferItem[]) => {
+    const map = new Map<string, number>();
+    for (const item of offer) {
+      map.set(item.itemId, (map.get(item.itemId) ?? 0) + item.quantity);
+    }
+    return map;
+  };
+  const left = totals(a);
+  const right = totals(b);
+  if (left.size !== right.size) return false;
+  for (const [itemId, quantity] of left) {
+    if (right.get(itemId) !== quantity) return false;
+  }
+  return true;
+}
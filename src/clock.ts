@@ -0,0 +1,81 @@
+/**
+ * Server clock and latency
+ *
+ * Ping/pong round trips give latency stats; worldTimeSync gives the
+ * server's clock, corrected by half a round trip, as an offset from ours.
+ * `serverNow()` applies that offset to read server-provided timestamps.
+ * Elapsed times and deadlines we measure ourselves use `monotonicNow()`,
+ * so they don't jump when the offset is first learned or later corrected.
+ */
+
+import type { GameState, LatencyStats } from "./types.js";
+
+/** Round trips kept for latency stats */
+const MAX_LATENCY_SAMPLES = 100;
+
+/**
+ * Current time on the server's clock (local time until the first worldTimeSync)
+ */
+export function serverNow(state: Pick<GameState, "serverTimeOffset">): number {
+  return Date.now() + state.serverTimeOffset;
+}
+
+/**
+ * Local monotonic time in ms, for goal timers and cooldown deadlines
+ */
+export function monotonicNow(): number {
+  return performance.now();
+}
+
+/**
+ * Server time in ms from a worldTimeSync payload, or null if it has none
+ */
+export function parseServerTime(data: unknown): number | null {
+  if (typeof data === "number") return data;
+  const sync = data as { serverTime?: number; timestamp?: number; time?: number } | null;
+  const time = sync?.serverTime ?? sync?.timestamp ?? sync?.time;
+  return typeof time === "number" && Number.isFinite(time) ? time : null;
+}
+
+/**
+ * Offset (server minus local) from a server timestamp received at `receivedAt`.
+ * The server stamped it about half a round trip before it arrived.
+ */
+export function computeServerTimeOffset(serverTime: number, receivedAt: number, roundTripMs: number | null): number {
+  return Math.round(serverTime + (roundTripMs ?? 0) / 2 - receivedAt);
+}
+
+export class LatencyTracker {
+  private samples: number[] = [];
+
+  record(roundTripMs: number): void {
+    this.samples.push(Math.max(0, roundTripMs));
+    if (this.samples.length > MAX_LATENCY_SAMPLES) this.samples.shift();
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+
+  /**
+   * Most recent round trip, null before the first pong
+   */
+  get last(): number | null {
+    return this.samples.at(-1) ?? null;
+  }
+
+  getStats(): LatencyStats {
+    if (this.samples.length === 0) {
+      return { samples: 0, lastMs: null, minMs: null, avgMs: null, p95Ms: null };
+    }
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const p95Index = Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1);
+    return {
+      samples: sorted.length,
+      lastMs: this.last,
+      minMs: sorted[0],
+      avgMs: Math.round(sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length),
+      p95Ms: sorted[p95Index],
+    };
+  }
+}
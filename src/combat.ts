@@ -0,0 +1,208 @@
+/**
+ * Combat level and threat assessment
+ *
+ * Computes the RuneScape-style combat level from all combat skills and
+ * estimates how a fight against a mob would go: hit chance and max hit
+ * from levels and equipment bonuses, blended with the damage actually
+ * observed in combatDamageDealt, turned into a win probability and a
+ * threat level for guardrails and target selection.
+ */
+
+import type { CombatHit, Entity, EquipmentBonuses, EquippedItem, GameState, SkillData } from "./types.js";
+
+export type CombatStyle = "melee" | "ranged" | "magic";
+
+export type ThreatLevel = "trivial" | "low" | "moderate" | "high" | "deadly";
+
+export interface ThreatAssessment {
+  mobId: string;
+  mobName: string;
+  mobLevel: number;
+  playerCombatLevel: number;
+  style: CombatStyle;
+  /** Average damage per attack, ours and the mob's */
+  expectedHitDealt: number;
+  expectedHitTaken: number;
+  /** Estimated damage we take before the mob dies */
+  expectedDamageTaken: number;
+  /** 0-1 */
+  winProbability: number;
+  threat: ThreatLevel;
+}
+
+/** Threat levels worth attacking while training */
+export const SAFE_THREATS: ThreatLevel[] = ["trivial", "low", "moderate"];
+
+/** Weight of observed hits vs. the formula: n / (n + PRIOR_HITS) */
+const PRIOR_HITS = 5;
+
+/**
+ * Combat level from skills (defaults: hitpoints 10, everything else 1)
+ */
+export function getCombatLevel(skills: Record<string, SkillData> = {}): number {
+  const level = (skill: string, fallback = 1) => skills[skill]?.level ?? fallback;
+
+  const base = 0.25 * (level("defence") + level("hitpoints", 10) + Math.floor(level("prayer") / 2));
+  const melee = 0.325 * (level("attack") + level("strength"));
+  const ranged = 0.325 * Math.floor(level("ranged") * 3 / 2);
+  const magic = 0.325 * Math.floor(level("magic") * 3 / 2);
+
+  return Math.floor(base + Math.max(melee, ranged, magic));
+}
+
+export function getPlayerCombatLevel(state: GameState): number {
+  return getCombatLevel(state.playerEntity?.skills);
+}
+
+/**
+ * Sum of bonuses across equipped items
+ */
+export function getEquipmentBonuses(equipment: Record<string, EquippedItem> = {}): Required<EquipmentBonuses> {
+  const total = { attack: 0, strength: 0, defence: 0, ranged: 0, magic: 0 };
+  for (const item of Object.values(equipment)) {
+    for (const key of Object.keys(total) as Array<keyof EquipmentBonuses>) {
+      total[key] += item?.bonuses?.[key] ?? 0;
+    }
+  }
+  return total;
+}
+
+/**
+ * Chance an attack roll beats a defence roll
+ */
+export function hitChance(attackRoll: number, defenceRoll: number): number {
+  return attackRoll > defenceRoll
+    ? 1 - (defenceRoll + 2) / (2 * (attackRoll + 1))
+    : attackRoll / (2 * (defenceRoll + 1));
+}
+
+/**
+ * Max hit from an effective strength level and strength bonus
+ */
+export function maxHit(strengthLevel: number, strengthBonus: number): number {
+  return Math.max(1, Math.floor(0.5 + (strengthLevel + 8) * (strengthBonus + 64) / 640));
+}
+
+function getMobLevel(mob: Entity): number {
+  return mob.level ?? mob.combatLevel ?? 1;
+}
+
+function mobLabel(mob: Entity): string {
+  return mob.name ?? mob.type;
+}
+
+/**
+ * The style our equipment favours (melee unless ranged/magic bonuses are higher)
+ */
+function getCombatStyle(bonuses: Required<EquipmentBonuses>): CombatStyle {
+  if (bonuses.ranged > bonuses.attack && bonuses.ranged >= bonuses.magic) return "ranged";
+  if (bonuses.magic > bonuses.attack) return "magic";
+  return "melee";
+}
+
+/**
+ * Blend the formula estimate with observed hits against this kind of mob.
+ * Our own damage falls back to hits on any mob; damage taken is per mob
+ * since one hard hitter says nothing about the others.
+ */
+function blendObserved(estimate: number, hits: CombatHit[], dealt: boolean, mobName: string): number {
+  const relevant = hits.filter(h => h.dealt === dealt);
+  const sameMob = relevant.filter(h => h.mobName === mobName);
+  const observed = sameMob.length > 0 || !dealt ? sameMob : relevant;
+  if (observed.length === 0) return estimate;
+
+  const average = observed.reduce((sum, h) => sum + h.damage, 0) / observed.length;
+  const weight = observed.length / (observed.length + PRIOR_HITS);
+  return weight * average + (1 - weight) * estimate;
+}
+
+function toThreat(winProbability: number, expectedDamageTaken: number, health: number): ThreatLevel {
+  let threat: ThreatLevel = winProbability >= 0.9 ? "trivial"
+    : winProbability >= 0.7 ? "low"
+    : winProbability >= 0.5 ? "moderate"
+    : winProbability >= 0.3 ? "high"
+    : "deadly";
+  // Even a likely win is risky if it costs all our HP
+  if (expectedDamageTaken >= health && SAFE_THREATS.includes(threat)) threat = "high";
+  return threat;
+}
+
+/**
+ * Estimate a fight against a mob. Mob stats are unknown, so its attack and
+ * defence are taken to be its combat level; the win probability compares
+ * attacks-to-kill with attacks-to-die (equal = 50%, 2x faster = 80%).
+ */
+export function assessThreat(state: GameState, mob: Entity): ThreatAssessment {
+  const player = state.playerEntity;
+  const skills = player?.skills ?? {};
+  const level = (skill: string, fallback = 1) => skills[skill]?.level ?? fallback;
+  const bonuses = getEquipmentBonuses(player?.equipment);
+  const style = getCombatStyle(bonuses);
+
+  const [attackLevel, strengthLevel, attackBonus, strengthBonus] =
+    style === "ranged" ? [level("ranged"), level("ranged"), bonuses.ranged, bonuses.ranged]
+    : style === "magic" ? [level("magic"), level("magic"), bonuses.magic, bonuses.magic]
+    : [level("attack"), level("strength"), bonuses.attack, bonuses.strength];
+
+  const mobLevel = getMobLevel(mob);
+  const mobRoll = (mobLevel + 9) * 64;
+  const mobName = mobLabel(mob);
+
+  const ourHit = hitChance((attackLevel + 8) * (attackBonus + 64), mobRoll) * maxHit(strengthLevel, strengthBonus) / 2;
+  const theirHit = hitChance(mobRoll, (level("defence") + 9) * (bonuses.defence + 64))
+    * Math.max(1, Math.floor(mobLevel / 4) + 1) / 2;
+
+  const expectedHitDealt = blendObserved(ourHit, state.combatHits, true, mobName);
+  const expectedHitTaken = blendObserved(theirHit, state.combatHits, false, mobName);
+
+  const mobHealth = mob.health ?? mob.maxHealth ?? Math.max(5, mobLevel * 2);
+  const health = player?.health ?? level("hitpoints", 10);
+  const attacksToKill = mobHealth / Math.max(expectedHitDealt, 0.01);
+  const attacksToDie = health / Math.max(expectedHitTaken, 0.01);
+
+  const winProbability = 1 / (1 + (attacksToKill / attacksToDie) ** 2);
+  const expectedDamageTaken = attacksToKill * expectedHitTaken;
+
+  return {
+    mobId: mob.id,
+    mobName,
+    mobLevel,
+    playerCombatLevel: getCombatLevel(skills),
+    style,
+    expectedHitDealt: Math.round(expectedHitDealt * 100) / 100,
+    expectedHitTaken: Math.round(expectedHitTaken * 100) / 100,
+    expectedDamageTaken: Math.round(expectedDamageTaken * 10) / 10,
+    winProbability: Math.round(winProbability * 100) / 100,
+    threat: toThreat(winProbability, expectedDamageTaken, health),
+  };
+}
+
+/**
+ * Assess every living mob in view, safest first (lower level breaks ties)
+ */
+export function assessNearbyThreats(state: GameState): ThreatAssessment[] {
+  return Array.from(state.nearbyEntities.values())
+    .filter(e => e.type === "mob" && e.alive !== false)
+    .map(mob => assessThreat(state, mob))
+    .sort((a, b) => b.winProbability - a.winProbability || a.mobLevel - b.mobLevel);
+}
+
+/**
+ * Best mob to train on: the safest one that isn't a high or deadly threat
+ */
+export function selectCombatTarget(state: GameState): ThreatAssessment | null {
+  return assessNearbyThreats(state).find(t => SAFE_THREATS.includes(t.threat)) ?? null;
+}
+
+/**
+ * Threat context for LLM
+ */
+export function formatThreatContext(state: GameState, limit = 5): string {
+  const threats = assessNearbyThreats(state);
+  const header = `**Combat level:** ${getPlayerCombatLevel(state)}`;
+  if (threats.length === 0) return `${header}\nNo mobs nearby.`;
+
+  const lines = threats.slice(0, limit).map(t =>
+    `- ${t.mobName} (lvl ${t.mobLevel}) id:${t.mobId}: ${t.threat}, ~${Math.round(t.winProbability * 100)}% win, ~${t.expectedDamageTaken} dmg taken`);
+  return `${header}\n${lines.join("\n")}`;
+}
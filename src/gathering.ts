@@ -0,0 +1,269 @@
+/**
+ * Gathering sessions
+ *
+ * Keeps gathering from nodes of one type until a stop condition is met,
+ * moving on when a node depletes or the gathering tool is put away, and
+ * reports the items and XP gained.
+ */
+
+import type { HyperscapeClient } from "./client.js";
+import type { InventoryItem, ResourceState, XpDrop } from "./types.js";
+import { selectResourceTarget } from "./resources.js";
+
+export type GatheringStopReason =
+  | "inventory_full"
+  | "item_target"
+  | "xp_target"
+  | "time_limit"
+  | "no_resources"
+  | "failed"
+  | "cancelled"
+  | "disconnected";
+
+export interface GatheringOptions {
+  /** Resource type or name to gather, e.g. "tree", "willow", "fishing" (default: any) */
+  type?: string;
+  /** Stop after gaining this many items */
+  maxItems?: number;
+  /** Stop after gaining this much XP (in `xpSkill` if given, else any skill) */
+  xpTarget?: number;
+  xpSkill?: string;
+  /** Stop after this long (default 600000 = 10 minutes) */
+  timeLimitMs?: number;
+  /** Stop when the inventory is full (default true) */
+  stopWhenFull?: boolean;
+  /** Give up on a node that produces nothing for this long (default 30000) */
+  idleTimeoutMs?: number;
+  /** Cancel the session */
+  signal?: AbortSignal;
+}
+
+export interface GatheringSummary {
+  success: boolean;
+  stopReason: GatheringStopReason;
+  message: string;
+  durationMs: number;
+  itemsGained: Record<string, number>;
+  totalItems: number;
+  xpGained: Record<string, number>;
+  totalXp: number;
+  /** Distinct nodes gathered from */
+  nodesUsed: number;
+  /** Nodes that depleted while we were on them */
+  depletions: number;
+}
+
+const INVENTORY_SLOTS = 28;
+/** Consecutive failed interactions before giving up */
+const MAX_FAILURES = 5;
+/** Longest single wait for a depleted node when its respawn time is unknown */
+const UNKNOWN_RESPAWN_WAIT = 5000;
+
+/** "refused": gathering stopped before the node gave anything */
+type NodeOutcome = "ended" | "refused" | "depleted" | "stop" | "idle" | "cancelled" | "disconnected";
+
+function countItems(items: InventoryItem[] = []): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = item.name ?? item.itemId;
+    counts.set(key, (counts.get(key) ?? 0) + (item.quantity ?? 1));
+  }
+  return counts;
+}
+
+/**
+ * Gather until a stop condition is met. Never rejects.
+ */
+export async function gatherUntil(client: HyperscapeClient, options: GatheringOptions = {}): Promise<GatheringSummary> {
+  const startedAt = Date.now();
+  const deadline = startedAt + (options.timeLimitMs ?? 600000);
+  const stopWhenFull = options.stopWhenFull ?? true;
+  const idleTimeoutMs = options.idleTimeoutMs ?? 30000;
+
+  const startCounts = countItems(client.state.playerEntity?.inventory);
+  const xpGained: Record<string, number> = {};
+  const nodesUsed = new Set<string>();
+  const skipped = new Set<string>();
+  let depletions = 0;
+  let failures = 0;
+
+  const onXp = (drop: XpDrop) => {
+    xpGained[drop.skill] = (xpGained[drop.skill] ?? 0) + drop.xp;
+  };
+  client.on("xpDrop", onXp);
+
+  const itemsGained = (): Record<string, number> => {
+    const gained: Record<string, number> = {};
+    for (const [key, count] of countItems(client.state.playerEntity?.inventory)) {
+      const diff = count - (startCounts.get(key) ?? 0);
+      if (diff > 0) gained[key] = diff;
+    }
+    return gained;
+  };
+
+  const totalOf = (record: Record<string, number>) => Object.values(record).reduce((a, b) => a + b, 0);
+
+  const checkStop = (): GatheringStopReason | null => {
+    if (options.signal?.aborted) return "cancelled";
+    if (!client.state.connected) return "disconnected";
+    if (options.maxItems !== undefined && totalOf(itemsGained()) >= options.maxItems) return "item_target";
+    if (options.xpTarget !== undefined) {
+      const xp = options.xpSkill ? xpGained[options.xpSkill] ?? 0 : totalOf(xpGained);
+      if (xp >= options.xpTarget) return "xp_target";
+    }
+    if (stopWhenFull && (client.state.playerEntity?.inventory?.length ?? 0) >= INVENTORY_SLOTS) return "inventory_full";
+    if (Date.now() >= deadline) return "time_limit";
+    return null;
+  };
+
+  const finish = (stopReason: GatheringStopReason, message: string): GatheringSummary => {
+    client.off("xpDrop", onXp);
+    // Don't leave the character chopping after we report that we stopped
+    if (client.state.connected && client.state.gatheringResource !== null) {
+      client.stopGathering();
+    }
+    const items = itemsGained();
+    const success = ["inventory_full", "item_target", "xp_target", "time_limit"].includes(stopReason);
+    return {
+      success,
+      stopReason,
+      message,
+      durationMs: Date.now() - startedAt,
+      itemsGained: items,
+      totalItems: totalOf(items),
+      xpGained: { ...xpGained },
+      totalXp: totalOf(xpGained),
+      nodesUsed: nodesUsed.size,
+      depletions,
+    };
+  };
+
+  for (;;) {
+    const stop = checkStop();
+    if (stop) return finish(stop, describeStop(stop));
+
+    const target = selectResourceTarget(client.state, { type: options.type, exclude: [...skipped] });
+    if (!target) {
+      return finish("no_resources", `No ${options.type ?? "resources"} found`);
+    }
+
+    if (target.status === "depleted") {
+      // Everything is depleted: wait for the next respawn (re-check stop conditions meanwhile)
+      const wait = Math.min(target.waitMs ?? UNKNOWN_RESPAWN_WAIT, UNKNOWN_RESPAWN_WAIT, Math.max(0, deadline - Date.now()));
+      await sleep(Math.max(wait, 50));
+      continue;
+    }
+
+    const result = await client.interactResource(target.id);
+    if (!result.success) {
+      skipped.add(target.id);
+      if (++failures >= MAX_FAILURES) {
+        return finish("failed", `Could not gather: ${result.message ?? result.resolvedBy}`);
+      }
+      continue;
+    }
+
+    // gatheringStopped may already have arrived along with gatheringStarted
+    const outcome = client.state.gatheringResource === null
+      ? "refused"
+      : await waitForNodeEnd(client, target.id, checkStop, idleTimeoutMs, options.signal);
+    if (outcome === "refused") {
+      // Interacting again would just stop again, so try another node
+      skipped.add(target.id);
+      if (++failures >= MAX_FAILURES) {
+        return finish("failed", "Gathering kept stopping before anything was gathered");
+      }
+      continue;
+    }
+
+    failures = 0;
+    nodesUsed.add(target.id);
+    if (outcome === "depleted") depletions++;
+    if (outcome === "idle") skipped.add(target.id);
+    if (outcome === "cancelled") return finish("cancelled", describeStop("cancelled"));
+    if (outcome === "disconnected") return finish("disconnected", describeStop("disconnected"));
+    // Depleted / tool put away / stop condition: loop re-checks and picks the next node
+  }
+}
+
+/**
+ * Resolve when gathering on this node ends for any reason
+ */
+function waitForNodeEnd(
+  client: HyperscapeClient,
+  resourceId: string,
+  checkStop: () => GatheringStopReason | null,
+  idleTimeoutMs: number,
+  signal?: AbortSignal
+): Promise<NodeOutcome> {
+  return new Promise(resolve => {
+    let idleTimer: NodeJS.Timeout;
+    let gathered = false;
+    // Re-check the time limit even when no packets arrive
+    const tick = setInterval(() => check(), 1000);
+
+    const done = (outcome: NodeOutcome) => {
+      clearTimeout(idleTimer);
+      clearInterval(tick);
+      client.off("gatheringComplete", onProgress);
+      client.off("inventoryUpdated", check);
+      client.off("xpDrop", onProgress);
+      client.off("gatheringStopped", onEnded);
+      client.off("gatheringToolHide", onEnded);
+      client.off("resourceDepleted", onDepleted);
+      client.off("disconnected", onDisconnected);
+      signal?.removeEventListener("abort", onAbort);
+      resolve(outcome);
+    };
+
+    const resetIdle = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => done("idle"), idleTimeoutMs);
+    };
+    const check = () => {
+      const stop = checkStop();
+      if (stop === "cancelled" || stop === "disconnected") done(stop);
+      else if (stop) done("stop");
+    };
+    const onProgress = () => {
+      gathered = true;
+      resetIdle();
+      check();
+    };
+    const onEnded = () => done(gathered ? "ended" : "refused");
+    const onDepleted = (resource: ResourceState) => {
+      if (resource?.id === resourceId) done("depleted");
+    };
+    const onDisconnected = () => done("disconnected");
+    const onAbort = () => done("cancelled");
+
+    client.on("gatheringComplete", onProgress);
+    client.on("inventoryUpdated", check);
+    client.on("xpDrop", onProgress);
+    client.on("gatheringStopped", onEnded);
+    client.on("gatheringToolHide", onEnded);
+    client.on("resourceDepleted", onDepleted);
+    client.on("disconnected", onDisconnected);
+    signal?.addEventListener("abort", onAbort);
+    resetIdle();
+    // Packets that arrived with gatheringStarted may already meet a stop condition
+    check();
+  });
+}
+
+function describeStop(reason: GatheringStopReason): string {
+  switch (reason) {
+    case "inventory_full": return "Inventory full";
+    case "item_target": return "Item target reached";
+    case "xp_target": return "XP target reached";
+    case "time_limit": return "Time limit reached";
+    case "no_resources": return "No resources left";
+    case "failed": return "Gathering failed";
+    case "cancelled": return "Gathering cancelled";
+    case "disconnected": return "Disconnected from server";
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,25 @@
+/**
+ * Positions and distances
+ *
+ * Packets carry positions either as [x, y, z] tuples or as {x, y, z}
+ * objects. Range and arrival checks only look at the ground plane (x, z).
+ */
+
+/** Position as it may arrive in a packet */
+export type RawPosition = [number, number, number] | { x: number; y?: number; z: number };
+
+/**
+ * Normalize a packet position to [x, y, z] (null if missing)
+ */
+export function toPosition(position: RawPosition | undefined): [number, number, number] | null {
+  if (!position) return null;
+  if (Array.isArray(position)) return position;
+  return [position.x, position.y ?? 0, position.z];
+}
+
+/**
+ * Distance on the ground plane, ignoring height
+ */
+export function distance2d(a: [number, number, number], b: [number, number, number]): number {
+  return Math.hypot(a[0] - b[0], a[2] - b[2]);
+}
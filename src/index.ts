@@ -12,70 +12,295 @@
 
 export { HyperscapeClient } from "./client.js";
 export * from "./types.js";
+export * from "./transport.js";
+export * from "./navigation.js";
+export * from "./world-map.js";
+export * from "./resources.js";
+export * from "./gathering.js";
+export * from "./training.js";
+export * from "./rates.js";
+export * from "./combat.js";
+export * from "./clock.js";
+export * from "./sessions.js";
 export * from "./autonomy/index.js";
 
-// Singleton instances
-let client: import("./client.js").HyperscapeClient | null = null;
-let autonomousAgent: import("./autonomy/agent.js").AutonomousAgent | null = null;
+import { checkGuardrails } from "./autonomy/guardrails.js";
+import { DEFAULT_METRICS_WINDOWS, type AgentMetrics, type MetricsFormat } from "./autonomy/metrics.js";
+import { defaultWorldMapPath, type LocationKind } from "./world-map.js";
+import { gatherUntil } from "./gathering.js";
+import { formatDuration } from "./training.js";
+import { assessNearbyThreats, assessThreat, formatThreatContext, getPlayerCombatLevel } from "./combat.js";
+import {
+  DEFAULT_SESSION_ID,
+  SessionRegistry,
+  closeSession,
+  createDetachedSession,
+  stopSessionActivity,
+  type GameSession,
+} from "./sessions.js";
+import type { CommandResult } from "./types.js";
+
+/** Named sessions; tools and providers without a sessionId use the default one */
+export const sessions = new SessionRegistry();
 
 /**
- * Get the current Hyperscape client instance (may be null if not connected)
+ * Get a session's Hyperscape client (may be null if not connected)
  */
-export function getClient(): import("./client.js").HyperscapeClient | null {
-  return client;
+export function getClient(sessionId = DEFAULT_SESSION_ID): import("./client.js").HyperscapeClient | null {
+  return sessions.get(sessionId)?.client ?? null;
 }
 
 /**
- * Get or create the Hyperscape client instance
+ * Get or create a session's Hyperscape client (the default session is created if needed)
  */
-export function ensureClient(): import("./client.js").HyperscapeClient {
-  if (!client) {
+export function ensureClient(sessionId?: string): import("./client.js").HyperscapeClient {
+  const session = sessions.resolve(sessionId);
+  if (!session) throw new Error(`Unknown session ${sessionId}`);
+  if (!session.client) {
     const { HyperscapeClient } = require("./client.js");
-    client = new HyperscapeClient();
+    session.client = new HyperscapeClient(session.credentials);
+  }
+  return session.client!;
+}
+
+/**
+ * Use an existing client instance for a session's tools (for testing or custom transports)
+ */
+export function setClient(instance: import("./client.js").HyperscapeClient | null, sessionId = DEFAULT_SESSION_ID): void {
+  const session = sessions.get(sessionId) ?? sessions.create(sessionId);
+  session.client = instance;
+}
+
+/**
+ * Reset a session's client (for testing or reconnection)
+ */
+export function resetClient(sessionId = DEFAULT_SESSION_ID): void {
+  const session = sessions.get(sessionId);
+  if (session?.client) {
+    session.client.disconnect();
+    session.client = null;
+  }
+}
+
+/**
+ * Turn the outcome of an awaited client command into a tool response
+ */
+function commandResponse(result: CommandResult, message: string) {
+  if (!result.success) {
+    return { success: false, message: result.message ?? `Server did not confirm: ${message}` };
   }
-  return client!;
+  return { success: true, message };
 }
 
 /**
- * Reset the client (for testing or reconnection)
+ * Write metrics to a file for a tool response, reporting a failed write instead of throwing
  */
-export function resetClient(): void {
-  if (client) {
-    client.disconnect();
-    client = null;
+async function exportMetrics(metrics: AgentMetrics, path: string, format?: MetricsFormat) {
+  try {
+    return { exportedTo: path, format: await metrics.export(path, format) };
+  } catch (err) {
+    return { exportError: `Could not export metrics to ${path}: ${err instanceof Error ? err.message : err}` };
   }
 }
 
+/**
+ * Enter the world and, once approved, tell the server the client is ready
+ */
+async function enterWorld(instance: import("./client.js").HyperscapeClient, characterId?: string): Promise<CommandResult> {
+  const result = await instance.enterWorld(characterId);
+  if (result.success) instance.clientReady();
+  return result;
+}
+
 // === Tool Definitions for Clawdbot ===
 
-export const tools = {
+interface ToolParameter {
+  type: string;
+  description: string;
+  required?: boolean;
+}
+
+interface SessionToolDefinition {
+  description: string;
+  parameters: Record<string, ToolParameter>;
+  handler: (params: never, session: GameSession) => Promise<unknown>;
+}
+
+/** A handler's own params ({} for handlers that take none) */
+type ToolParams<H> = H extends (params: infer P, ...rest: never[]) => unknown
+  ? [P] extends [never] ? {} : unknown extends P ? {} : P
+  : {};
+
+type SessionTools<T extends Record<string, SessionToolDefinition>> = {
+  [K in keyof T]: {
+    description: string;
+    parameters: T[K]["parameters"] & { sessionId: ToolParameter };
+    handler: (params?: ToolParams<T[K]["handler"]> & { sessionId?: string }) =>
+      Promise<Awaited<ReturnType<T[K]["handler"]>> | { success: false; message: string }>;
+  };
+};
+
+const SESSION_ID_PARAMETER: ToolParameter = {
+  type: "string",
+  description: "Session to act on (see hyperscape_session_create; default session if omitted)",
+};
+
+/**
+ * Give every tool an optional sessionId and run it against that session
+ */
+function bindSessions<T extends Record<string, SessionToolDefinition>>(definitions: T): SessionTools<T> {
+  const bound: Record<string, unknown> = {};
+  for (const [name, tool] of Object.entries(definitions)) {
+    bound[name] = {
+      description: tool.description,
+      parameters: { ...tool.parameters, sessionId: SESSION_ID_PARAMETER },
+      handler: async (params: { sessionId?: string } = {}) => {
+        const session = sessions.resolve(params.sessionId);
+        if (!session) {
+          return { success: false, message: `Unknown session ${params.sessionId} (create it with hyperscape_session_create)` };
+        }
+        return tool.handler(params as never, session);
+      },
+    };
+  }
+  return bound as SessionTools<T>;
+}
+
+const sessionTools = {
+  // === Sessions ===
+  hyperscape_session_create: {
+    description: "Create a named game session with its own credentials; pass its sessionId to other tools to play several accounts side by side",
+    parameters: {
+      sessionId: { type: "string", description: "Session name, e.g. \"woodcutter\"", required: true },
+      serverUrl: { type: "string", description: "WebSocket URL (optional, defaults to localhost:5555)" },
+      authToken: { type: "string", description: "Auth token for this account" },
+      privyUserId: { type: "string", description: "Privy user ID for this account" },
+    },
+    handler: async (params: { sessionId: string; serverUrl?: string; authToken?: string; privyUserId?: string }) => {
+      try {
+        sessions.create(params.sessionId, {
+          serverUrl: params.serverUrl,
+          authToken: params.authToken,
+          privyUserId: params.privyUserId,
+        });
+      } catch (error) {
+        return { success: false, message: (error as Error).message };
+      }
+      return { success: true, message: `Created session ${params.sessionId}; connect it with hyperscape_connect` };
+    },
+  },
+
+  hyperscape_session_list: {
+    description: "List game sessions with connection and autonomous agent status",
+    parameters: {},
+    handler: async () => {
+      return { success: true, sessions: sessions.list() };
+    },
+  },
+
+  hyperscape_session_destroy: {
+    description: "Stop a session's agent, disconnect it and remove it",
+    parameters: {
+      sessionId: { type: "string", description: "Session to destroy", required: true },
+    },
+    handler: async (params: { sessionId: string }) => {
+      if (!(await sessions.destroy(params.sessionId))) {
+        return { success: false, message: `Unknown session ${params.sessionId}` };
+      }
+      return { success: true, message: `Destroyed session ${params.sessionId}` };
+    },
+  },
+};
+
+const gameTools = bindSessions({
   // === Connection ===
   hyperscape_connect: {
     description: "Connect to a Hyperscape game server and enter the world",
     parameters: {
       serverUrl: { type: "string", description: "WebSocket URL (optional, defaults to localhost:5555)" },
       authToken: { type: "string", description: "Auth token (optional, uses env var if not provided)" },
+      characterId: { type: "string", description: "Character to play (optional, server default otherwise)" },
     },
-    handler: async (params: { serverUrl?: string; authToken?: string }) => {
+    handler: async (params: { serverUrl?: string; authToken?: string; characterId?: string }, session) => {
       const { HyperscapeClient } = await import("./client.js");
-      client = new HyperscapeClient({ 
-        serverUrl: params.serverUrl,
-        authToken: params.authToken 
+      // A client left behind would keep reconnecting and saving the same world map
+      await closeSession(session);
+      session.client = new HyperscapeClient({ 
+        ...session.credentials,
+        serverUrl: params.serverUrl ?? session.credentials.serverUrl,
+        authToken: params.authToken ?? session.credentials.authToken,
+        worldMapPath: defaultWorldMapPath(session.id),
       });
-      await client.connect();
-      await client.enterWorld();
-      client.clientReady();
+      await session.client.connect();
+      const result = await enterWorld(session.client, params.characterId);
+      if (!result.success) {
+        return {
+          success: false,
+          message: `Connected but could not enter world: ${result.message}. Use hyperscape_list_characters, hyperscape_create_character or hyperscape_select_character`,
+        };
+      }
       return { success: true, message: "Connected to Hyperscape server and entered world" };
     },
   },
 
+  hyperscape_list_characters: {
+    description: "List the characters on this account",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.listCharacters();
+      if (!result.success) return { success: false, message: result.message };
+      const characters = result.data ?? [];
+      return {
+        success: true,
+        message: characters.length > 0 ? `${characters.length} character(s)` : "No characters on this account",
+        characters,
+      };
+    },
+  },
+
+  hyperscape_create_character: {
+    description: "Create a new character on this account",
+    parameters: {
+      name: { type: "string", description: "Character name", required: true },
+    },
+    handler: async (params: { name: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.createCharacter(params.name);
+      if (!result.success) return { success: false, message: result.message };
+      return { success: true, message: `Created character ${params.name}`, character: result.data };
+    },
+  },
+
+  hyperscape_select_character: {
+    description: "Select a character by ID or name and enter the world with it",
+    parameters: {
+      characterId: { type: "string", description: "Character ID" },
+      name: { type: "string", description: "Character name (used when no ID is given)" },
+    },
+    handler: async (params: { characterId?: string; name?: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      let characterId = params.characterId;
+      if (!characterId && params.name) {
+        if (session.client.state.characters.length === 0) await session.client.listCharacters();
+        const wanted = params.name.toLowerCase();
+        characterId = session.client.state.characters.find(c => c.name.toLowerCase() === wanted)?.id;
+        if (!characterId) return { success: false, message: `No character named ${params.name}` };
+      }
+      if (!characterId) return { success: false, message: "Specify characterId or name" };
+
+      const result = await enterWorld(session.client, characterId);
+      return commandResponse(result, `Entered world as ${characterId}`);
+    },
+  },
+
   hyperscape_disconnect: {
     description: "Disconnect from Hyperscape server",
     parameters: {},
-    handler: async () => {
-      if (!client) return { success: false, message: "Not connected" };
-      client.disconnect();
-      client = null;
+    handler: async (_params, session) => {
+      if (!session.client) return { success: false, message: "Not connected" };
+      session.client.disconnect();
+      session.client = null;
       return { success: true, message: "Disconnected" };
     },
   },
@@ -83,40 +308,163 @@ export const tools = {
   hyperscape_status: {
     description: "Get current game state, position, health, skills, inventory, and nearby entities",
     parameters: {},
-    handler: async () => {
-      if (!client) return { success: false, message: "Not connected to Hyperscape" };
+    handler: async (_params, session) => {
+      if (!session.client) return { success: false, message: "Not connected to Hyperscape" };
       return {
         success: true,
-        context: client.getStateContext(),
-        availableActions: client.getAvailableActions(),
-        bankContext: client.state.bankOpen ? client.getBankContext() : undefined,
+        context: session.client.getStateContext(),
+        availableActions: session.client.getAvailableActions(),
+        bankContext: session.client.state.bankOpen ? session.client.getBankContext() : undefined,
+        productionContext: session.client.state.productionInterface ? session.client.getProductionContext() : undefined,
       };
     },
   },
 
   // === Movement ===
   hyperscape_move: {
-    description: "Move to a position in the game world",
+    description: "Move in a straight line to a position (use hyperscape_navigate_to to path around obstacles)",
     parameters: {
       x: { type: "number", description: "X coordinate", required: true },
       y: { type: "number", description: "Y coordinate (height)", required: true },
       z: { type: "number", description: "Z coordinate", required: true },
       run: { type: "boolean", description: "Run instead of walk (default true)" },
     },
-    handler: async (params: { x: number; y: number; z: number; run?: boolean }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.move([params.x, params.y, params.z], params.run ?? true);
-      return { success: true, message: `Moving to [${params.x}, ${params.y}, ${params.z}]` };
+    handler: async (params: { x: number; y: number; z: number; run?: boolean }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = session.client.move([params.x, params.y, params.z], params.run ?? true);
+      return commandResponse(result, `Moving to [${params.x}, ${params.y}, ${params.z}]`);
+    },
+  },
+
+  hyperscape_navigate_to: {
+    description: "Walk to a position using pathfinding over learned walkable tiles, replanning when stuck",
+    parameters: {
+      x: { type: "number", description: "X coordinate", required: true },
+      z: { type: "number", description: "Z coordinate", required: true },
+      run: { type: "boolean", description: "Run instead of walk (default true)" },
+      timeoutMs: { type: "number", description: "Give up after this long (default 60000)" },
+    },
+    handler: async (params: { x: number; z: number; run?: boolean; timeoutMs?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.navigation.navigateTo(params.x, params.z, {
+        running: params.run ?? true,
+        timeoutMs: params.timeoutMs,
+      });
+      return { ...result };
+    },
+  },
+
+  hyperscape_go_to_nearest: {
+    description: "Walk to the nearest entity of a type (mob, npc, player, resource, item...), optionally filtered by name",
+    parameters: {
+      type: { type: "string", description: "Entity type", required: true },
+      name: { type: "string", description: "Only entities whose name contains this" },
+      maxDistance: { type: "number", description: "Ignore entities further than this" },
+    },
+    handler: async (params: { type: string; name?: string; maxDistance?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const { entity, ...result } = await session.client.navigation.goToNearest(params.type, {
+        name: params.name,
+        maxDistance: params.maxDistance,
+      });
+      return {
+        ...result,
+        target: entity ? { id: entity.id, name: entity.name, type: entity.type, position: entity.position } : null,
+      };
+    },
+  },
+
+  // === World Map ===
+  hyperscape_world_map: {
+    description: "Query remembered locations (banks, stores, resources, NPCs) in this world, nearest first - includes places out of view",
+    parameters: {
+      kind: { type: "string", description: "bank, store, resource or npc" },
+      name: { type: "string", description: "Name/type contains this (e.g. 'willow')" },
+      within: { type: "number", description: "Only within this distance" },
+      limit: { type: "number", description: "Max results (default 10)" },
+    },
+    handler: async (params: { kind?: LocationKind; name?: string; within?: number; limit?: number }, session) => {
+      if (!session.client) return { success: false, message: "Not connected" };
+      const locations = session.client.worldMap.query({
+        kind: params.kind,
+        name: params.name,
+        within: params.within,
+        limit: params.limit ?? 10,
+      });
+      return {
+        success: true,
+        worldId: session.client.state.worldId,
+        counts: session.client.worldMap.getCounts(),
+        locations: locations.map(l => ({
+          id: l.id,
+          kind: l.kind,
+          name: l.name,
+          subtype: l.subtype,
+          position: l.position,
+          distance: l.distance !== null ? Math.round(l.distance) : null,
+        })),
+      };
+    },
+  },
+
+  hyperscape_go_to_known: {
+    description: "Walk to the nearest remembered location of a kind (e.g. the nearest bank), even if it is out of view",
+    parameters: {
+      kind: { type: "string", description: "bank, store, resource or npc", required: true },
+      name: { type: "string", description: "Name/type contains this (e.g. 'willow')" },
+    },
+    handler: async (params: { kind: LocationKind; name?: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const location = session.client.worldMap.nearest(params.kind, { name: params.name });
+      if (!location) {
+        return { success: false, message: `No known ${params.name ? `${params.name} ` : ""}${params.kind} in this world` };
+      }
+      const result = await session.client.navigation.navigateTo(location.position[0], location.position[2], {
+        arriveDistance: 1.5,
+      });
+      return { ...result, target: { id: location.id, name: location.name, position: location.position } };
+    },
+  },
+
+  // === Training ===
+  hyperscape_skill_plan: {
+    description: "Set or clear a target level for a skill and get XP remaining, observed XP/hour, time-to-goal and what to train; the autonomous agent favours goals that train toward set targets",
+    parameters: {
+      skill: { type: "string", description: "Skill name, e.g. woodcutting (default: all skills with targets)" },
+      targetLevel: { type: "number", description: "Target level to train toward (stored)" },
+      clear: { type: "boolean", description: "Remove the skill's target" },
+    },
+    handler: async (params: { skill?: string; targetLevel?: number; clear?: boolean }, session) => {
+      if (!session.client) return { success: false, message: "Not connected" };
+      const training = session.client.training;
+
+      if (params.skill && params.clear) {
+        const removed = training.clearTarget(params.skill);
+        return { success: removed, message: removed ? `Cleared ${params.skill} target` : `No target set for ${params.skill}` };
+      }
+      if (params.skill && params.targetLevel !== undefined) {
+        training.setTarget(params.skill, params.targetLevel);
+      }
+
+      const plans = params.skill ? [training.planSkill(params.skill)] : training.plan();
+      return {
+        success: true,
+        targets: training.getTargets(),
+        plans: plans.map(p => ({
+          ...p,
+          timeToGoal: p.xpRemaining === 0 ? "reached" : p.etaMs !== null ? formatDuration(p.etaMs) : "unknown (no XP gained yet)",
+        })),
+      };
     },
   },
 
   hyperscape_home_teleport: {
     description: "Teleport to home/spawn location",
     parameters: {},
-    handler: async () => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.homeTeleport();
-      return { success: true, message: "Casting home teleport..." };
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.homeTeleport();
+      return commandResponse(result, "Casting home teleport...");
     },
   },
 
@@ -127,10 +475,30 @@ export const tools = {
       targetId: { type: "string", description: "Entity ID to attack", required: true },
       attackType: { type: "string", description: "Attack type: melee, ranged, or magic (default melee)" },
     },
-    handler: async (params: { targetId: string; attackType?: "melee" | "ranged" | "magic" }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.attack(params.targetId, params.attackType ?? "melee");
-      return { success: true, message: `Attacking ${params.targetId}` };
+    handler: async (params: { targetId: string; attackType?: "melee" | "ranged" | "magic" }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.attack(params.targetId, params.attackType ?? "melee");
+      return commandResponse(result, `Attacking ${params.targetId}`);
+    },
+  },
+
+  hyperscape_assess_threat: {
+    description: "Estimate fights against nearby mobs (or one target): your combat level, win probability, expected damage taken and threat level, safest first",
+    parameters: {
+      targetId: { type: "string", description: "Only assess this entity" },
+    },
+    handler: async (params: { targetId?: string }, session) => {
+      if (!session.client) return { success: false, message: "Not connected" };
+      if (params.targetId) {
+        const target = session.client.state.nearbyEntities.get(params.targetId);
+        if (!target) return { success: false, message: `Entity ${params.targetId} not in view` };
+        return { success: true, assessments: [assessThreat(session.client.state, target)] };
+      }
+      return {
+        success: true,
+        combatLevel: getPlayerCombatLevel(session.client.state),
+        assessments: assessNearbyThreats(session.client.state),
+      };
     },
   },
 
@@ -139,10 +507,10 @@ export const tools = {
     parameters: {
       style: { type: "string", description: "Attack style to use", required: true },
     },
-    handler: async (params: { style: string }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.changeAttackStyle(params.style);
-      return { success: true, message: `Changed attack style to ${params.style}` };
+    handler: async (params: { style: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.changeAttackStyle(params.style);
+      return commandResponse(result, `Changed attack style to ${params.style}`);
     },
   },
 
@@ -151,20 +519,106 @@ export const tools = {
     parameters: {
       enabled: { type: "boolean", description: "Enable or disable auto-retaliate", required: true },
     },
-    handler: async (params: { enabled: boolean }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.setAutoRetaliate(params.enabled);
-      return { success: true, message: `Auto-retaliate ${params.enabled ? "enabled" : "disabled"}` };
+    handler: async (params: { enabled: boolean }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.setAutoRetaliate(params.enabled);
+      return commandResponse(result, `Auto-retaliate ${params.enabled ? "enabled" : "disabled"}`);
     },
   },
 
   hyperscape_respawn: {
     description: "Respawn after death",
     parameters: {},
-    handler: async () => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.respawn();
-      return { success: true, message: "Requesting respawn..." };
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.respawn();
+      return commandResponse(result, "Requesting respawn...");
+    },
+  },
+
+  hyperscape_cast_spell: {
+    description: "Cast a named spell on a target (refused while the spell is on cooldown)",
+    parameters: {
+      spellId: { type: "string", description: "Spell ID to cast (e.g. wind_strike)", required: true },
+      targetId: { type: "string", description: "Target entity ID", required: true },
+    },
+    handler: async (params: { spellId: string; targetId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const remaining = session.client.getCooldownRemaining(params.spellId);
+      if (remaining > 0) {
+        return { success: false, message: `${params.spellId} is on cooldown for ${(remaining / 1000).toFixed(1)}s` };
+      }
+      const result = await session.client.castSpell(params.spellId, params.targetId);
+      return commandResponse(result, `Casting ${params.spellId} on ${params.targetId}`);
+    },
+  },
+
+  hyperscape_set_autocast: {
+    description: "Set the spell to autocast with magic attacks (omit spellId to clear)",
+    parameters: {
+      spellId: { type: "string", description: "Spell ID to autocast" },
+    },
+    handler: async (params: { spellId?: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.setAutocast(params.spellId ?? null);
+      return commandResponse(result, params.spellId ? `Autocasting ${params.spellId}` : "Autocast cleared");
+    },
+  },
+
+  hyperscape_use_ability: {
+    description: "Use an active combat or skill ability (refused while on cooldown)",
+    parameters: {
+      abilityId: { type: "string", description: "Ability ID to use", required: true },
+      targetId: { type: "string", description: "Target entity ID (optional)" },
+    },
+    handler: async (params: { abilityId: string; targetId?: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const remaining = session.client.getCooldownRemaining(params.abilityId);
+      if (remaining > 0) {
+        return { success: false, message: `${params.abilityId} is on cooldown for ${(remaining / 1000).toFixed(1)}s` };
+      }
+      const result = await session.client.useAbility(params.abilityId, params.targetId);
+      return commandResponse(result, `Using ${params.abilityId}`);
+    },
+  },
+
+  // === Prayer ===
+  hyperscape_prayer_toggle: {
+    description: "Toggle a prayer on or off (e.g. protect_from_melee)",
+    parameters: {
+      prayerId: { type: "string", description: "Prayer ID to toggle", required: true },
+    },
+    handler: async (params: { prayerId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const active = session.client.state.activePrayers.includes(params.prayerId);
+      const points = session.client.state.playerEntity?.prayerPoints;
+      if (!active && points !== undefined && points <= 0) {
+        return { success: false, message: "No prayer points left. Pray at an altar to recharge" };
+      }
+      const result = await session.client.prayerToggle(params.prayerId);
+      return commandResponse(result, `${active ? "Deactivating" : "Activating"} ${params.prayerId}`);
+    },
+  },
+
+  hyperscape_prayer_off_all: {
+    description: "Deactivate all active prayers",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.prayerDeactivateAll();
+      return commandResponse(result, "Deactivated all prayers");
+    },
+  },
+
+  hyperscape_altar_pray: {
+    description: "Pray at an altar to restore prayer points",
+    parameters: {
+      altarId: { type: "string", description: "Altar entity ID", required: true },
+    },
+    handler: async (params: { altarId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.altarPray(params.altarId);
+      return commandResponse(result, `Prayed at ${params.altarId}`);
     },
   },
 
@@ -174,10 +628,60 @@ export const tools = {
     parameters: {
       resourceId: { type: "string", description: "Resource entity ID", required: true },
     },
-    handler: async (params: { resourceId: string }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.interactResource(params.resourceId);
-      return { success: true, message: `Gathering from ${params.resourceId}` };
+    handler: async (params: { resourceId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.interactResource(params.resourceId);
+      return commandResponse(result, `Gathering from ${params.resourceId}`);
+    },
+  },
+
+  hyperscape_gather_until: {
+    description: "Keep gathering from nodes of a type (moving on when they deplete) until inventory is full, N items, an XP target or a time limit; returns items and XP gained",
+    parameters: {
+      type: { type: "string", description: "Resource type or name, e.g. tree, willow, rock, fishing (default: any)" },
+      maxItems: { type: "number", description: "Stop after gaining this many items" },
+      xpTarget: { type: "number", description: "Stop after gaining this much XP" },
+      xpSkill: { type: "string", description: "Only count XP in this skill" },
+      timeLimitMinutes: { type: "number", description: "Stop after this many minutes (default 10)" },
+      stopWhenFull: { type: "boolean", description: "Stop when inventory is full (default true)" },
+    },
+    handler: async (params: {
+      type?: string;
+      maxItems?: number;
+      xpTarget?: number;
+      xpSkill?: string;
+      timeLimitMinutes?: number;
+      stopWhenFull?: boolean;
+    }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      session.gathering?.abort();
+      const controller = new AbortController();
+      session.gathering = controller;
+
+      try {
+        return await gatherUntil(session.client, {
+          type: params.type,
+          maxItems: params.maxItems,
+          xpTarget: params.xpTarget,
+          xpSkill: params.xpSkill,
+          timeLimitMs: (params.timeLimitMinutes ?? 10) * 60000,
+          stopWhenFull: params.stopWhenFull,
+          signal: controller.signal,
+        });
+      } finally {
+        if (session.gathering === controller) session.gathering = null;
+      }
+    },
+  },
+
+  hyperscape_gather_stop: {
+    description: "Stop a running hyperscape_gather_until session",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.gathering) return { success: false, message: "No gathering session running" };
+      session.gathering.abort();
+      session.gathering = null;
+      return { success: true, message: "Gathering session stopped" };
     },
   },
 
@@ -187,20 +691,79 @@ export const tools = {
       itemId: { type: "string", description: "Food item ID to cook", required: true },
       sourceId: { type: "string", description: "Fire/range entity ID (optional)" },
     },
-    handler: async (params: { itemId: string; sourceId?: string }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.cook(params.itemId, params.sourceId);
-      return { success: true, message: `Cooking ${params.itemId}` };
+    handler: async (params: { itemId: string; sourceId?: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.cook(params.itemId, params.sourceId);
+      return commandResponse(result, `Cooking ${params.itemId}`);
     },
   },
 
   hyperscape_light_fire: {
     description: "Light a fire using tinderbox and logs",
     parameters: {},
-    handler: async () => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.lightFire();
-      return { success: true, message: "Lighting fire..." };
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.lightFire();
+      return commandResponse(result, "Lighting fire...");
+    },
+  },
+
+  // === Smelting & Smithing ===
+  hyperscape_smelt: {
+    description: "Smelt bars at a furnace. Opens the furnace first if furnaceId is given and the interface is closed",
+    parameters: {
+      barId: { type: "string", description: "Bar item ID to smelt (e.g. bronze_bar)", required: true },
+      quantity: { type: "number", description: "Number of bars to smelt (default 1)" },
+      furnaceId: { type: "string", description: "Furnace entity ID (needed if the furnace is not open)" },
+    },
+    handler: async (params: { barId: string; quantity?: number; furnaceId?: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.smeltingOpen) {
+        if (!params.furnaceId) return { success: false, message: "Furnace is not open. Provide furnaceId" };
+        const opened = await session.client.smeltingInteract(params.furnaceId);
+        if (!opened.success) return { success: false, message: opened.message ?? `Furnace ${params.furnaceId} did not open` };
+      }
+      const quantity = params.quantity ?? 1;
+      const recipe = session.client.state.productionInterface?.recipes.find(r => r.itemId === params.barId);
+      if (recipe && !session.client.canMakeRecipe(recipe, quantity)) {
+        return { success: false, message: `Cannot smelt ${quantity}x ${recipe.name}: needs level ${recipe.levelRequired} and materials`, production: session.client.getProductionContext() };
+      }
+      const result = await session.client.smelt(params.barId, quantity);
+      return commandResponse(result, `Smelting ${quantity}x ${params.barId}`);
+    },
+  },
+
+  hyperscape_smith: {
+    description: "Smith items at an anvil. Opens the anvil first if anvilId is given and the interface is closed",
+    parameters: {
+      itemId: { type: "string", description: "Item ID to smith (e.g. bronze_sword)", required: true },
+      quantity: { type: "number", description: "Number of items to smith (default 1)" },
+      anvilId: { type: "string", description: "Anvil entity ID (needed if the anvil is not open)" },
+    },
+    handler: async (params: { itemId: string; quantity?: number; anvilId?: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.smithingOpen) {
+        if (!params.anvilId) return { success: false, message: "Anvil is not open. Provide anvilId" };
+        const opened = await session.client.smithingInteract(params.anvilId);
+        if (!opened.success) return { success: false, message: opened.message ?? `Anvil ${params.anvilId} did not open` };
+      }
+      const quantity = params.quantity ?? 1;
+      const recipe = session.client.state.productionInterface?.recipes.find(r => r.itemId === params.itemId);
+      if (recipe && !session.client.canMakeRecipe(recipe, quantity)) {
+        return { success: false, message: `Cannot smith ${quantity}x ${recipe.name}: needs level ${recipe.levelRequired} and materials`, production: session.client.getProductionContext() };
+      }
+      const result = await session.client.smith(params.itemId, quantity);
+      return commandResponse(result, `Smithing ${quantity}x ${params.itemId}`);
+    },
+  },
+
+  hyperscape_production_close: {
+    description: "Close the furnace or anvil interface",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = session.client.productionClose();
+      return commandResponse(result, "Closed production interface");
     },
   },
 
@@ -210,10 +773,10 @@ export const tools = {
     parameters: {
       itemId: { type: "string", description: "Ground item ID", required: true },
     },
-    handler: async (params: { itemId: string }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.pickup(params.itemId);
-      return { success: true, message: `Picking up ${params.itemId}` };
+    handler: async (params: { itemId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.pickup(params.itemId);
+      return commandResponse(result, `Picking up ${params.itemId}`);
     },
   },
 
@@ -223,10 +786,10 @@ export const tools = {
       itemId: { type: "string", description: "Item ID to drop", required: true },
       quantity: { type: "number", description: "Quantity to drop (default 1)" },
     },
-    handler: async (params: { itemId: string; quantity?: number }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.drop(params.itemId, params.quantity ?? 1);
-      return { success: true, message: `Dropped ${params.quantity ?? 1}x ${params.itemId}` };
+    handler: async (params: { itemId: string; quantity?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.drop(params.itemId, params.quantity ?? 1);
+      return commandResponse(result, `Dropped ${params.quantity ?? 1}x ${params.itemId}`);
     },
   },
 
@@ -235,10 +798,10 @@ export const tools = {
     parameters: {
       itemId: { type: "string", description: "Item ID to equip", required: true },
     },
-    handler: async (params: { itemId: string }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.equip(params.itemId);
-      return { success: true, message: `Equipped ${params.itemId}` };
+    handler: async (params: { itemId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.equip(params.itemId);
+      return commandResponse(result, `Equipped ${params.itemId}`);
     },
   },
 
@@ -247,10 +810,10 @@ export const tools = {
     parameters: {
       slot: { type: "string", description: "Equipment slot to unequip", required: true },
     },
-    handler: async (params: { slot: string }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.unequip(params.slot);
-      return { success: true, message: `Unequipped ${params.slot}` };
+    handler: async (params: { slot: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.unequip(params.slot);
+      return commandResponse(result, `Unequipped ${params.slot}`);
     },
   },
 
@@ -259,10 +822,10 @@ export const tools = {
     parameters: {
       itemId: { type: "string", description: "Item ID to use", required: true },
     },
-    handler: async (params: { itemId: string }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.useItem(params.itemId);
-      return { success: true, message: `Using ${params.itemId}` };
+    handler: async (params: { itemId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.useItem(params.itemId);
+      return commandResponse(result, `Using ${params.itemId}`);
     },
   },
 
@@ -273,22 +836,22 @@ export const tools = {
       itemId: { type: "string", description: "Item ID to deposit", required: true },
       quantity: { type: "number", description: "Quantity to deposit (default 1)" },
     },
-    handler: async (params: { itemId: string; quantity?: number }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      if (!client.state.bankOpen) return { success: false, message: "Bank is not open" };
-      client.bankDeposit(params.itemId, params.quantity ?? 1);
-      return { success: true, message: `Depositing ${params.quantity ?? 1}x ${params.itemId}` };
+    handler: async (params: { itemId: string; quantity?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.bankOpen) return { success: false, message: "Bank is not open" };
+      const result = await session.client.bankDeposit(params.itemId, params.quantity ?? 1);
+      return commandResponse(result, `Depositing ${params.quantity ?? 1}x ${params.itemId}`);
     },
   },
 
   hyperscape_bank_deposit_all: {
     description: "Deposit all inventory items to bank",
     parameters: {},
-    handler: async () => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      if (!client.state.bankOpen) return { success: false, message: "Bank is not open" };
-      client.bankDepositAll();
-      return { success: true, message: "Depositing all items" };
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.bankOpen) return { success: false, message: "Bank is not open" };
+      const result = await session.client.bankDepositAll();
+      return commandResponse(result, "Depositing all items");
     },
   },
 
@@ -298,21 +861,21 @@ export const tools = {
       itemId: { type: "string", description: "Item ID to withdraw", required: true },
       quantity: { type: "number", description: "Quantity to withdraw (default 1)" },
     },
-    handler: async (params: { itemId: string; quantity?: number }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      if (!client.state.bankOpen) return { success: false, message: "Bank is not open" };
-      client.bankWithdraw(params.itemId, params.quantity ?? 1);
-      return { success: true, message: `Withdrawing ${params.quantity ?? 1}x ${params.itemId}` };
+    handler: async (params: { itemId: string; quantity?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.bankOpen) return { success: false, message: "Bank is not open" };
+      const result = await session.client.bankWithdraw(params.itemId, params.quantity ?? 1);
+      return commandResponse(result, `Withdrawing ${params.quantity ?? 1}x ${params.itemId}`);
     },
   },
 
   hyperscape_bank_close: {
     description: "Close the bank interface",
     parameters: {},
-    handler: async () => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.bankClose();
-      return { success: true, message: "Bank closed" };
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = session.client.bankClose();
+      return commandResponse(result, "Bank closed");
     },
   },
 
@@ -323,10 +886,10 @@ export const tools = {
       npcId: { type: "string", description: "NPC entity ID", required: true },
       action: { type: "string", description: "Interaction type (talk, trade, bank)" },
     },
-    handler: async (params: { npcId: string; action?: string }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.npcInteract(params.npcId, params.action);
-      return { success: true, message: `Interacting with ${params.npcId}` };
+    handler: async (params: { npcId: string; action?: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.npcInteract(params.npcId, params.action);
+      return commandResponse(result, `Interacting with ${params.npcId}`);
     },
   },
 
@@ -335,30 +898,30 @@ export const tools = {
     parameters: {
       optionIndex: { type: "number", description: "Option number (0-indexed)", required: true },
     },
-    handler: async (params: { optionIndex: number }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.dialogueResponse(params.optionIndex);
-      return { success: true, message: `Selected option ${params.optionIndex}` };
+    handler: async (params: { optionIndex: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.dialogueResponse(params.optionIndex);
+      return commandResponse(result, `Selected option ${params.optionIndex}`);
     },
   },
 
   hyperscape_dialogue_continue: {
     description: "Continue dialogue (click to proceed)",
     parameters: {},
-    handler: async () => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.dialogueContinue();
-      return { success: true, message: "Continuing dialogue" };
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.dialogueContinue();
+      return commandResponse(result, "Continuing dialogue");
     },
   },
 
   hyperscape_dialogue_close: {
     description: "Close dialogue window",
     parameters: {},
-    handler: async () => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.dialogueClose();
-      return { success: true, message: "Dialogue closed" };
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = session.client.dialogueClose();
+      return commandResponse(result, "Dialogue closed");
     },
   },
 
@@ -369,11 +932,11 @@ export const tools = {
       itemId: { type: "string", description: "Item ID to buy", required: true },
       quantity: { type: "number", description: "Quantity to buy (default 1)" },
     },
-    handler: async (params: { itemId: string; quantity?: number }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      if (!client.state.storeOpen) return { success: false, message: "Store is not open" };
-      client.storeBuy(params.itemId, params.quantity ?? 1);
-      return { success: true, message: `Buying ${params.quantity ?? 1}x ${params.itemId}` };
+    handler: async (params: { itemId: string; quantity?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.storeOpen) return { success: false, message: "Store is not open" };
+      const result = await session.client.storeBuy(params.itemId, params.quantity ?? 1);
+      return commandResponse(result, `Buying ${params.quantity ?? 1}x ${params.itemId}`);
     },
   },
 
@@ -383,21 +946,21 @@ export const tools = {
       itemId: { type: "string", description: "Item ID to sell", required: true },
       quantity: { type: "number", description: "Quantity to sell (default 1)" },
     },
-    handler: async (params: { itemId: string; quantity?: number }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      if (!client.state.storeOpen) return { success: false, message: "Store is not open" };
-      client.storeSell(params.itemId, params.quantity ?? 1);
-      return { success: true, message: `Selling ${params.quantity ?? 1}x ${params.itemId}` };
+    handler: async (params: { itemId: string; quantity?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.storeOpen) return { success: false, message: "Store is not open" };
+      const result = await session.client.storeSell(params.itemId, params.quantity ?? 1);
+      return commandResponse(result, `Selling ${params.quantity ?? 1}x ${params.itemId}`);
     },
   },
 
   hyperscape_store_close: {
     description: "Close the store interface",
     parameters: {},
-    handler: async () => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.storeClose();
-      return { success: true, message: "Store closed" };
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = session.client.storeClose();
+      return commandResponse(result, "Store closed");
     },
   },
 
@@ -408,10 +971,22 @@ export const tools = {
       message: { type: "string", description: "Message to send", required: true },
       channel: { type: "string", description: "Chat channel (local, global)" },
     },
-    handler: async (params: { message: string; channel?: string }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.chat(params.message, params.channel ?? "local");
-      return { success: true, message: `Sent: ${params.message}` };
+    handler: async (params: { message: string; channel?: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.chat(params.message, params.channel ?? "local");
+      return commandResponse(result, `Sent: ${params.message}`);
+    },
+  },
+
+  hyperscape_chat_history: {
+    description: "Read recent chat messages around you",
+    parameters: {
+      limit: { type: "number", description: "Number of messages to return (default 20)" },
+      channel: { type: "string", description: "Only this channel (default all channels)" },
+    },
+    handler: async (params: { limit?: number; channel?: string }, session) => {
+      if (!session.client) return { success: false, message: "Not connected" };
+      return { success: true, chat: session.client.getChatContext(params.limit ?? 20, params.channel) };
     },
   },
 
@@ -420,10 +995,409 @@ export const tools = {
     parameters: {
       playerId: { type: "string", description: "Player ID to follow", required: true },
     },
-    handler: async (params: { playerId: string }) => {
-      if (!client?.state.connected) return { success: false, message: "Not connected" };
-      client.followPlayer(params.playerId);
-      return { success: true, message: `Following ${params.playerId}` };
+    handler: async (params: { playerId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = session.client.followPlayer(params.playerId);
+      return commandResponse(result, `Following ${params.playerId}`);
+    },
+  },
+
+  hyperscape_friend_add: {
+    description: "Send a friend request to a player",
+    parameters: {
+      name: { type: "string", description: "Player name", required: true },
+    },
+    handler: async (params: { name: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.friendRequest(params.name);
+      return commandResponse(result, `Sent friend request to ${params.name}`);
+    },
+  },
+
+  hyperscape_friend_accept: {
+    description: "Accept a pending friend request",
+    parameters: {
+      name: { type: "string", description: "Name of the player who sent the request", required: true },
+    },
+    handler: async (params: { name: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.friendAccept(params.name);
+      return commandResponse(result, `Accepted friend request from ${params.name}`);
+    },
+  },
+
+  hyperscape_friend_decline: {
+    description: "Decline a pending friend request",
+    parameters: {
+      name: { type: "string", description: "Name of the player who sent the request", required: true },
+    },
+    handler: async (params: { name: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.friendDecline(params.name);
+      return commandResponse(result, `Declined friend request from ${params.name}`);
+    },
+  },
+
+  hyperscape_friend_remove: {
+    description: "Remove a player from your friends list",
+    parameters: {
+      name: { type: "string", description: "Friend name", required: true },
+    },
+    handler: async (params: { name: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.friendRemove(params.name);
+      return commandResponse(result, `Removed ${params.name} from friends`);
+    },
+  },
+
+  hyperscape_ignore_add: {
+    description: "Add a player to your ignore list",
+    parameters: {
+      name: { type: "string", description: "Player name", required: true },
+    },
+    handler: async (params: { name: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.ignoreAdd(params.name);
+      return commandResponse(result, `Ignoring ${params.name}`);
+    },
+  },
+
+  hyperscape_ignore_remove: {
+    description: "Remove a player from your ignore list",
+    parameters: {
+      name: { type: "string", description: "Player name", required: true },
+    },
+    handler: async (params: { name: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.ignoreRemove(params.name);
+      return commandResponse(result, `No longer ignoring ${params.name}`);
+    },
+  },
+
+  hyperscape_pm_send: {
+    description: "Send a private message to another player",
+    parameters: {
+      name: { type: "string", description: "Recipient player name", required: true },
+      message: { type: "string", description: "Message to send", required: true },
+    },
+    handler: async (params: { name: string; message: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.privateMessage(params.name, params.message);
+      return commandResponse(result, `PM to ${params.name}: ${params.message}`);
+    },
+  },
+
+  hyperscape_social_status: {
+    description: "Get friends (with online status), pending requests, ignore list and recent private messages",
+    parameters: {
+      messageCount: { type: "number", description: "Number of recent private messages to include (default 10)" },
+    },
+    handler: async (params: { messageCount?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      return { success: true, social: session.client.getSocialContext(params.messageCount ?? 10) };
+    },
+  },
+
+  // === Trading ===
+  hyperscape_trade_request: {
+    description: "Request a trade with another player",
+    parameters: {
+      playerId: { type: "string", description: "Player ID to trade with", required: true },
+    },
+    handler: async (params: { playerId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (session.client.state.trade) return { success: false, message: "Already in a trade" };
+      const result = await session.client.tradeRequest(params.playerId);
+      return commandResponse(result, `Requested trade with ${params.playerId}`);
+    },
+  },
+
+  hyperscape_trade_respond: {
+    description: "Accept or decline an incoming trade request",
+    parameters: {
+      playerId: { type: "string", description: "Player ID who requested the trade", required: true },
+      accept: { type: "boolean", description: "Accept (true) or decline (false)", required: true },
+    },
+    handler: async (params: { playerId: string; accept: boolean }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.tradeRespond(params.playerId, params.accept);
+      return commandResponse(result, `${params.accept ? "Accepted" : "Declined"} trade from ${params.playerId}`);
+    },
+  },
+
+  hyperscape_trade_offer: {
+    description: "Offer an inventory item in the current trade, or change its quantity if already offered",
+    parameters: {
+      itemId: { type: "string", description: "Item ID to offer", required: true },
+      quantity: { type: "number", description: "Quantity to offer (default 1)" },
+    },
+    handler: async (params: { itemId: string; quantity?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.trade) return { success: false, message: "No trade in progress" };
+      const quantity = params.quantity ?? 1;
+      const result = session.client.state.trade.myOffer.some(i => i.itemId === params.itemId)
+        ? await session.client.tradeSetItemQuantity(params.itemId, quantity)
+        : await session.client.tradeAddItem(params.itemId, quantity);
+      return commandResponse(result, `Offering ${quantity}x ${params.itemId}`);
+    },
+  },
+
+  hyperscape_trade_remove: {
+    description: "Remove an offered item from the current trade",
+    parameters: {
+      itemId: { type: "string", description: "Item ID to remove", required: true },
+    },
+    handler: async (params: { itemId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.trade) return { success: false, message: "No trade in progress" };
+      const result = await session.client.tradeRemoveItem(params.itemId);
+      return commandResponse(result, `Removed ${params.itemId} from trade`);
+    },
+  },
+
+  hyperscape_trade_accept: {
+    description: "Accept the current trade screen. Refused if the partner changed their offer after you last accepted it",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.trade) return { success: false, message: "No trade in progress" };
+      const check = checkGuardrails(session.client.state, { tool: "hyperscape_trade_accept", params: {} });
+      const tradeViolation = check.violations.find(v => v.guardrail.id === "no_accept_changed_trade");
+      if (tradeViolation) return { success: false, message: tradeViolation.message };
+      const result = await session.client.tradeAccept();
+      return { ...commandResponse(result, "Accepted trade"), trade: session.client.getTradeContext() };
+    },
+  },
+
+  hyperscape_trade_unaccept: {
+    description: "Withdraw your acceptance of the current trade screen without cancelling the trade",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.trade) return { success: false, message: "No trade in progress" };
+      if (!session.client.state.trade.myAccepted) return { success: false, message: "You have not accepted this trade" };
+      const result = await session.client.tradeCancelAccept();
+      return { ...commandResponse(result, "Withdrew trade acceptance"), trade: session.client.getTradeContext() };
+    },
+  },
+
+  hyperscape_trade_cancel: {
+    description: "Cancel the current trade",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.trade) return { success: false, message: "No trade in progress" };
+      const result = await session.client.tradeCancel();
+      return commandResponse(result, "Trade cancelled");
+    },
+  },
+
+  // === Duels ===
+  hyperscape_duel_challenge: {
+    description: "Challenge another player to a duel (replaces a challenge still waiting for an answer)",
+    parameters: {
+      playerId: { type: "string", description: "Player ID to challenge", required: true },
+      maxStake: { type: "number", description: "Most your whole stake may be worth, in coins (coins count 1 each, other items at the value the server reports). Omit for no limit" },
+    },
+    handler: async (params: { playerId: string; maxStake?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const stage = session.client.state.duel?.stage;
+      if (stage && stage !== "challenge" && stage !== "result") {
+        return { success: false, message: "Already in a duel" };
+      }
+      const result = await session.client.duelChallenge(params.playerId, params.maxStake ?? null);
+      return commandResponse(result, `Challenged ${params.playerId} to a duel`);
+    },
+  },
+
+  hyperscape_duel_respond: {
+    description: "Accept or decline an incoming duel challenge",
+    parameters: {
+      playerId: { type: "string", description: "Player ID who challenged you", required: true },
+      accept: { type: "boolean", description: "Accept (true) or decline (false)", required: true },
+      maxStake: { type: "number", description: "Most your whole stake may be worth, in coins (coins count 1 each, other items at the value the server reports). Omit for no limit" },
+    },
+    handler: async (params: { playerId: string; accept: boolean; maxStake?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.duelRespond(params.playerId, params.accept, params.maxStake ?? null);
+      return commandResponse(result, `${params.accept ? "Accepted" : "Declined"} duel from ${params.playerId}`);
+    },
+  },
+
+  hyperscape_duel_toggle_rule: {
+    description: "Toggle a duel rule (rules screen only)",
+    parameters: {
+      rule: { type: "string", description: "Rule name, e.g. noMagic, noRanged, noFood, noPrayer", required: true },
+    },
+    handler: async (params: { rule: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (session.client.state.duel?.stage !== "rules") return { success: false, message: "Not on the duel rules screen" };
+      const result = await session.client.duelToggleRule(params.rule);
+      return commandResponse(result, `Toggled duel rule ${params.rule}`);
+    },
+  },
+
+  hyperscape_duel_toggle_equipment: {
+    description: "Toggle whether an equipment slot may be used in the duel (rules screen only)",
+    parameters: {
+      slot: { type: "string", description: "Equipment slot, e.g. weapon, shield, helmet", required: true },
+    },
+    handler: async (params: { slot: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (session.client.state.duel?.stage !== "rules") return { success: false, message: "Not on the duel rules screen" };
+      const result = await session.client.duelToggleEquipment(params.slot);
+      return commandResponse(result, `Toggled duel equipment slot ${params.slot}`);
+    },
+  },
+
+  hyperscape_duel_stake: {
+    description: "Stake an inventory item in the duel (stakes screen only, respects the stake limit)",
+    parameters: {
+      itemId: { type: "string", description: "Item ID to stake", required: true },
+      quantity: { type: "number", description: "Quantity to stake (default 1)" },
+    },
+    handler: async (params: { itemId: string; quantity?: number }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (session.client.state.duel?.stage !== "stakes") return { success: false, message: "Not on the duel stakes screen" };
+      const check = checkGuardrails(session.client.state, { tool: "hyperscape_duel_stake", params });
+      const stakeViolation = check.violations.find(v => v.guardrail.id === "duel_stake_limit");
+      if (stakeViolation) return { success: false, message: stakeViolation.message };
+      const result = await session.client.duelAddStake(params.itemId, params.quantity ?? 1);
+      return commandResponse(result, `Staking ${params.quantity ?? 1}x ${params.itemId}`);
+    },
+  },
+
+  hyperscape_duel_unstake: {
+    description: "Remove an item from your duel stake",
+    parameters: {
+      itemId: { type: "string", description: "Item ID to remove", required: true },
+    },
+    handler: async (params: { itemId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (session.client.state.duel?.stage !== "stakes") return { success: false, message: "Not on the duel stakes screen" };
+      const result = await session.client.duelRemoveStake(params.itemId);
+      return commandResponse(result, `Removed ${params.itemId} from stake`);
+    },
+  },
+
+  hyperscape_duel_accept: {
+    description: "Accept the current duel screen (rules, stakes, or final confirmation)",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const duel = session.client.state.duel;
+      if (!duel) return { success: false, message: "No duel in progress" };
+      const check = checkGuardrails(session.client.state, { tool: "hyperscape_duel_accept", params: {} });
+      const stakeViolation = check.violations.find(v => v.guardrail.id === "duel_stake_limit");
+      if (stakeViolation) return { success: false, message: stakeViolation.message };
+      const stage = duel.stage;
+      let result: CommandResult;
+      switch (stage) {
+        case "rules":
+          result = await session.client.duelAcceptRules();
+          break;
+        case "stakes":
+          result = await session.client.duelAcceptStakes();
+          break;
+        case "confirm":
+          result = await session.client.duelAcceptFinal();
+          break;
+        default:
+          return { success: false, message: `Nothing to accept at duel stage ${stage}` };
+      }
+      return commandResponse(result, `Accepted duel ${stage}`);
+    },
+  },
+
+  hyperscape_duel_cancel: {
+    description: "Cancel the duel before the fight starts, or withdraw an unanswered challenge",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (!session.client.state.duel) return { success: false, message: "No duel in progress" };
+      const result = await session.client.duelCancel();
+      return commandResponse(result, "Duel cancelled");
+    },
+  },
+
+  hyperscape_duel_forfeit: {
+    description: "Forfeit an ongoing duel fight",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      if (session.client.state.duel?.stage !== "fight") return { success: false, message: "No duel fight in progress" };
+      const result = await session.client.duelForfeit();
+      return commandResponse(result, "Forfeited duel");
+    },
+  },
+
+  // === Quests ===
+  hyperscape_quest_list: {
+    description: "Fetch the quest log (available, active, pinned and completed quests)",
+    parameters: {},
+    handler: async (_params, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.requestQuestList();
+      return { ...commandResponse(result, "Fetched quest list"), questLog: session.client.getQuestContext() };
+    },
+  },
+
+  hyperscape_quest_detail: {
+    description: "Get full details and step progress for a quest",
+    parameters: {
+      questId: { type: "string", description: "Quest ID", required: true },
+    },
+    handler: async (params: { questId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.requestQuestDetail(params.questId);
+      return { ...commandResponse(result, `Fetched details for ${params.questId}`), quest: session.client.state.quests.get(params.questId) };
+    },
+  },
+
+  hyperscape_quest_accept: {
+    description: "Accept (start) a quest",
+    parameters: {
+      questId: { type: "string", description: "Quest ID to accept", required: true },
+    },
+    handler: async (params: { questId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.acceptQuest(params.questId);
+      if (result.resolvedBy === "questStartConfirm") {
+        return { success: true, message: `Quest ${params.questId} asks for confirmation: accept it again to start` };
+      }
+      return commandResponse(result, `Started quest ${params.questId}`);
+    },
+  },
+
+  hyperscape_quest_abandon: {
+    description: "Abandon an active quest",
+    parameters: {
+      questId: { type: "string", description: "Quest ID to abandon", required: true },
+    },
+    handler: async (params: { questId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      // The quest log is empty until first fetched
+      if (!session.client.state.quests.has(params.questId)) {
+        await session.client.requestQuestList();
+      }
+      const quest = session.client.state.quests.get(params.questId);
+      if (quest && quest.status !== "active") {
+        return { success: false, message: `Quest ${params.questId} is not active` };
+      }
+      const result = await session.client.abandonQuest(params.questId);
+      return commandResponse(result, `Abandoning quest ${params.questId}`);
+    },
+  },
+
+  hyperscape_quest_pin: {
+    description: "Pin or unpin a quest in the quest tracker",
+    parameters: {
+      questId: { type: "string", description: "Quest ID to pin/unpin", required: true },
+    },
+    handler: async (params: { questId: string }, session) => {
+      if (!session.client?.state.connected) return { success: false, message: "Not connected" };
+      const result = await session.client.toggleQuestPin(params.questId);
+      return commandResponse(result, `Toggled pin for quest ${params.questId}`);
     },
   },
 
@@ -435,6 +1409,8 @@ export const tools = {
       authToken: { type: "string", description: "Auth token (optional)" },
       telegramChatId: { type: "string", description: "Telegram chat ID for logging" },
       telegramTopicId: { type: "number", description: "Telegram topic ID for logging" },
+      logFile: { type: "string", description: "Append structured events to this JSONL file" },
+      webhookUrl: { type: "string", description: "POST structured events to this URL" },
       tickInterval: { type: "number", description: "Decision interval in ms (default 10000)" },
       maxDuration: { type: "number", description: "Max session duration in minutes (default 60)" },
       verbose: { type: "boolean", description: "Enable verbose logging" },
@@ -444,36 +1420,49 @@ export const tools = {
       authToken?: string;
       telegramChatId?: string;
       telegramTopicId?: number;
+      logFile?: string;
+      webhookUrl?: string;
       tickInterval?: number;
       maxDuration?: number;
       verbose?: boolean;
-    }) => {
+    }, session) => {
       // Lazy import to avoid circular deps
       const { HyperscapeClient } = await import("./client.js");
       const { createAutonomousAgent } = await import("./autonomy/agent.js");
 
-      // Create client if needed
-      if (!client) {
-        client = new HyperscapeClient({
-          serverUrl: params.serverUrl,
-          authToken: params.authToken,
+      // Only one agent (or gathering run) may drive the client at a time
+      await stopSessionActivity(session);
+
+      // Create session.client if needed
+      if (!session.client) {
+        session.client = new HyperscapeClient({
+          ...session.credentials,
+          serverUrl: params.serverUrl ?? session.credentials.serverUrl,
+          authToken: params.authToken ?? session.credentials.authToken,
+          worldMapPath: defaultWorldMapPath(session.id),
         });
-        await client.connect();
-        await client.enterWorld();
-        client.clientReady();
+        await session.client.connect();
+        const result = await enterWorld(session.client);
+        if (!result.success) {
+          return { success: false, message: `Could not enter world: ${result.message}` };
+        }
       }
 
       // Create autonomous agent
-      autonomousAgent = createAutonomousAgent(client, {
+      session.agent = createAutonomousAgent(session.client, {
         telegramChatId: params.telegramChatId,
         telegramTopicId: params.telegramTopicId,
+        sinks: [
+          ...(params.logFile ? [{ type: "jsonl" as const, path: params.logFile }] : []),
+          ...(params.webhookUrl ? [{ type: "webhook" as const, url: params.webhookUrl }] : []),
+        ],
         tickInterval: params.tickInterval ?? 10000,
         maxSessionDuration: (params.maxDuration ?? 60) * 60000,
         verbose: params.verbose ?? false,
       });
 
       // Start the agent
-      await autonomousAgent.start();
+      await session.agent.start();
 
       return {
         success: true,
@@ -481,7 +1470,10 @@ export const tools = {
         config: {
           tickInterval: params.tickInterval ?? 10000,
           maxDuration: params.maxDuration ?? 60,
-          logging: params.telegramChatId ? `Telegram ${params.telegramChatId}` : "console only",
+          logging: session.agent.isLoggingToTelegram()
+            ? `Telegram ${params.telegramChatId}${params.telegramTopicId ? ` (topic ${params.telegramTopicId})` : ""}`
+            : params.telegramChatId ? "console only (TELEGRAM_BOT_TOKEN not set)" : "console only",
+          sinks: session.agent.getSinks(),
         },
       };
     },
@@ -489,15 +1481,20 @@ export const tools = {
 
   hyperscape_auto_stop: {
     description: "Stop the autonomous agent and return to manual control",
-    parameters: {},
-    handler: async () => {
-      if (!autonomousAgent) {
+    parameters: {
+      exportPath: { type: "string", description: "Write session metrics to this .json or .csv file" },
+    },
+    handler: async (params: { exportPath?: string }, session) => {
+      if (!session.agent) {
         return { success: false, message: "No autonomous agent running" };
       }
 
-      await autonomousAgent.stop();
-      const stats = autonomousAgent.getStats();
-      autonomousAgent = null;
+      const agent = session.agent;
+      session.agent = null;
+      await agent.stop();
+      const stats = agent.getStats();
+      const metrics = agent.getMetrics();
+      const exported = params.exportPath ? await exportMetrics(metrics, params.exportPath) : {};
 
       return {
         success: true,
@@ -510,6 +1507,33 @@ export const tools = {
           totalXp: Object.values(stats.xpGained).reduce((a, b) => a + b, 0),
           deaths: stats.deaths,
         },
+        metrics: metrics.getSummary(),
+        ...exported,
+      };
+    },
+  },
+
+  hyperscape_auto_metrics: {
+    description: "Autonomous agent metrics: XP/hour per skill, GP/hour, deaths/hour and goal success rates over rolling windows; optionally export to JSON/CSV",
+    parameters: {
+      windowMinutes: { type: "number", description: "Only this rolling window (default: 15 min, 60 min and whole session)" },
+      exportPath: { type: "string", description: "Also write all samples and summaries to this file" },
+      format: { type: "string", description: "json or csv (default: from the file extension)" },
+    },
+    handler: async (params: { windowMinutes?: number; exportPath?: string; format?: MetricsFormat }, session) => {
+      const agent = session.agent;
+      if (!agent) return { success: false, message: "No autonomous agent running" };
+      const metrics = agent.getMetrics();
+      const summaries = params.windowMinutes !== undefined
+        ? [metrics.getSummary(params.windowMinutes * 60000)]
+        : DEFAULT_METRICS_WINDOWS.map(w => metrics.getSummary(w));
+
+      const exported = params.exportPath ? await exportMetrics(metrics, params.exportPath, params.format) : {};
+      return {
+        success: true,
+        running: agent.isRunning(),
+        summaries,
+        ...exported,
       };
     },
   },
@@ -519,8 +1543,8 @@ export const tools = {
     parameters: {
       thoughtCount: { type: "number", description: "Number of recent thoughts to return (default 5)" },
     },
-    handler: async (params: { thoughtCount?: number }) => {
-      if (!autonomousAgent) {
+    handler: async (params: { thoughtCount?: number }, session) => {
+      if (!session.agent) {
         return { 
           success: true, 
           running: false, 
@@ -528,12 +1552,12 @@ export const tools = {
         };
       }
 
-      const stats = autonomousAgent.getStats();
-      const thoughts = autonomousAgent.getThoughts(params.thoughtCount ?? 5);
+      const stats = session.agent.getStats();
+      const thoughts = session.agent.getThoughts(params.thoughtCount ?? 5);
 
       return {
         success: true,
-        running: autonomousAgent.isRunning(),
+        running: session.agent.isRunning(),
         stats: {
           duration: Math.floor((Date.now() - stats.sessionStart) / 60000),
           tickCount: stats.tickCount,
@@ -560,49 +1584,161 @@ export const tools = {
     handler: async () => {
       return {
         success: false,
-        message: "Use the telegramChatId/telegramTopicId params in hyperscape_auto_start instead",
+        message: "Use the telegramChatId/telegramTopicId params in hyperscape_auto_start instead (bot token from TELEGRAM_BOT_TOKEN)",
       };
     },
   },
+});
+
+export const tools = { ...gameTools, ...sessionTools };
+
+interface ProviderDefinition {
+  description: string;
+  get: (session: GameSession) => unknown;
+}
+
+type SessionProviders<T extends Record<string, ProviderDefinition>> = {
+  [K in keyof T]: { description: string; get: (sessionId?: string) => ReturnType<T[K]["get"]> };
 };
 
+/**
+ * Let every provider read from a given session (default session if omitted)
+ */
+function bindProviders<T extends Record<string, ProviderDefinition>>(definitions: T): SessionProviders<T> {
+  const bound: Record<string, unknown> = {};
+  for (const [name, provider] of Object.entries(definitions)) {
+    bound[name] = {
+      description: provider.description,
+      get: (sessionId = DEFAULT_SESSION_ID) => provider.get(sessions.get(sessionId) ?? createDetachedSession(sessionId)),
+    };
+  }
+  return bound as SessionProviders<T>;
+}
+
 // Provider for context injection
-export const providers = {
+export const providers = bindProviders({
   gameState: {
     description: "Current game state including position, health, skills, inventory",
-    get: () => {
-      if (!client) return "Not connected to Hyperscape.";
-      return client.getStateContext();
+    get: (session: GameSession) => {
+      if (!session.client) return "Not connected to Hyperscape.";
+      return session.client.getStateContext();
     },
   },
   availableActions: {
     description: "List of actions available based on current game context",
-    get: () => {
-      if (!client) return ["hyperscape_connect"];
-      return client.getAvailableActions();
+    get: (session: GameSession) => {
+      if (!session.client) return ["hyperscape_connect"];
+      return session.client.getAvailableActions();
+    },
+  },
+  connection: {
+    description: "Connection status, ping latency, reconnect count and last disconnect reason",
+    get: (session: GameSession) => {
+      if (!session.client) return "Not connected to Hyperscape.";
+      return session.client.getConnectionContext();
+    },
+  },
+  worldMap: {
+    description: "Remembered banks, stores and resources in this world (nearest first)",
+    get: (session: GameSession) => {
+      if (!session.client) return null;
+      return session.client.worldMap.getContext();
+    },
+  },
+  resources: {
+    description: "Nearby resource nodes with depletion state and respawn estimates",
+    get: (session: GameSession) => {
+      if (!session.client) return null;
+      return session.client.getResourceContext();
+    },
+  },
+  threats: {
+    description: "Combat level and win probability / threat level for nearby mobs",
+    get: (session: GameSession) => {
+      if (!session.client) return null;
+      return formatThreatContext(session.client.state);
+    },
+  },
+  training: {
+    description: "Skill targets with XP remaining, observed XP/hour and time-to-goal",
+    get: (session: GameSession) => {
+      if (!session.client) return null;
+      return session.client.training.getContext();
     },
   },
   bankState: {
     description: "Current bank contents (when bank is open)",
-    get: () => {
-      if (!client?.state.bankOpen) return null;
-      return client.getBankContext();
+    get: (session: GameSession) => {
+      if (!session.client?.state.bankOpen) return null;
+      return session.client.getBankContext();
+    },
+  },
+  chat: {
+    description: "Last 20 chat messages across all channels",
+    get: (session: GameSession) => {
+      if (!session.client) return null;
+      return session.client.getChatContext(20);
+    },
+  },
+  social: {
+    description: "Friends with online status, pending requests, ignore list and recent private messages",
+    get: (session: GameSession) => {
+      if (!session.client) return null;
+      return session.client.getSocialContext();
+    },
+  },
+  tradeState: {
+    description: "Current trade session (partner, both offers, acceptance) and incoming requests",
+    get: (session: GameSession) => {
+      if (!session.client) return null;
+      return session.client.getTradeContext();
+    },
+  },
+  productionState: {
+    description: "Open furnace/anvil interface with craftable recipes and requirements",
+    get: (session: GameSession) => {
+      if (!session.client?.state.productionInterface) return null;
+      return session.client.getProductionContext();
+    },
+  },
+  duelStatus: {
+    description: "Current duel session (stage, rules, stakes, result) and incoming challenges",
+    get: (session: GameSession) => {
+      if (!session.client) return null;
+      return session.client.getDuelContext();
+    },
+  },
+  questLog: {
+    description: "Active, pinned and completed quests with per-step progress",
+    get: (session: GameSession) => {
+      if (!session.client) return "Not connected to Hyperscape.";
+      return session.client.getQuestContext();
     },
   },
   autonomousStatus: {
     description: "Status of autonomous agent (if running)",
-    get: () => {
-      if (!autonomousAgent) return { running: false };
-      const stats = autonomousAgent.getStats();
+    get: (session: GameSession) => {
+      if (!session.agent) return { running: false };
+      const stats = session.agent.getStats();
       return {
-        running: autonomousAgent.isRunning(),
+        running: session.agent.isRunning(),
         duration: Math.floor((Date.now() - stats.sessionStart) / 60000),
         goalsCompleted: stats.goalsCompleted,
-        recentThoughts: autonomousAgent.getThoughts(3),
+        recentThoughts: session.agent.getThoughts(3),
       };
     },
   },
-};
+});
+
+/**
+ * Providers bound to one session, for runtimes that call get() without arguments
+ */
+export function getSessionProviders(sessionId: string): { [K in keyof typeof providers]: { description: string; get: () => ReturnType<(typeof providers)[K]["get"]> } } {
+  return Object.fromEntries(Object.entries(providers).map(([name, provider]) => [name, {
+    description: provider.description,
+    get: () => provider.get(sessionId),
+  }])) as ReturnType<typeof getSessionProviders>;
+}
 
 export default {
   name: "hyperscape",
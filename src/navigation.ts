@@ -0,0 +1,546 @@
+/**
+ * Navigation for HyperscapeClient
+ *
+ * Learns which tiles are walkable from the server's tile movement packets,
+ * plans routes with A* over that learned grid and walks them as a series
+ * of short waypoint moves, replanning around tiles where it gets stuck.
+ */
+
+import { EventEmitter } from "events";
+import type { HyperscapeClient } from "./client.js";
+import { distance2d } from "./geometry.js";
+import type { Entity, PositionCorrection, TileCoord, TileMovement, TileUpdate } from "./types.js";
+
+export type NavigationOutcome = "arrived" | "unreachable" | "stuck" | "cancelled" | "timeout" | "no_position";
+
+export interface NavigationResult {
+  success: boolean;
+  outcome: NavigationOutcome;
+  message: string;
+  /** Player position when navigation ended */
+  position: [number, number, number] | null;
+  waypoints: number;
+  replans: number;
+}
+
+export interface NavigationOptions {
+  /** Stop when within this many units of the target (default 1) */
+  arriveDistance?: number;
+  /** Give up after this long (default 60000) */
+  timeoutMs?: number;
+  /** Run instead of walk (default true) */
+  running?: boolean;
+}
+
+export interface NavigatorConfig {
+  /** No progress for this long counts as stuck (default 3000) */
+  stuckTimeoutMs?: number;
+  /** How often to check progress toward a waypoint (default 250) */
+  checkIntervalMs?: number;
+  /** Max tiles between waypoints (default 8) */
+  maxSegmentTiles?: number;
+  /** Replans after getting stuck before giving up (default 3) */
+  maxReplans?: number;
+  /** A* node budget (default 20000) */
+  maxSearchNodes?: number;
+}
+
+/** Entity types that only ever stand on walkable tiles */
+const MOBILE_TYPES = new Set(["player", "mob", "npc"]);
+
+const NEIGHBOURS: Array<[number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+];
+
+export function worldToTile(position: [number, number, number]): TileCoord {
+  return { x: Math.floor(position[0]), z: Math.floor(position[2]) };
+}
+
+export function tileKey(tile: TileCoord): string {
+  return `${tile.x},${tile.z}`;
+}
+
+/**
+ * Tiles known to be walkable or blocked. Anything else is unknown.
+ */
+export class WalkableGrid {
+  private walkable = new Set<string>();
+  private blocked = new Set<string>();
+
+  markWalkable(tile: TileCoord): void {
+    const key = tileKey(tile);
+    this.walkable.add(key);
+    this.blocked.delete(key);
+  }
+
+  markBlocked(tile: TileCoord): void {
+    const key = tileKey(tile);
+    this.blocked.add(key);
+    this.walkable.delete(key);
+  }
+
+  isWalkable(tile: TileCoord): boolean {
+    return this.walkable.has(tileKey(tile));
+  }
+
+  isBlocked(tile: TileCoord): boolean {
+    return this.blocked.has(tileKey(tile));
+  }
+
+  get walkableCount(): number {
+    return this.walkable.size;
+  }
+
+  get blockedCount(): number {
+    return this.blocked.size;
+  }
+
+  clear(): void {
+    this.walkable.clear();
+    this.blocked.clear();
+  }
+}
+
+interface SearchNode {
+  tile: TileCoord;
+  g: number;
+  f: number;
+}
+
+/**
+ * A* over the learned grid. Known-walkable tiles are cheapest, unknown
+ * tiles cost more (so learned routes are preferred) and blocked tiles are
+ * never entered. Diagonal steps may not cut a blocked corner.
+ * Returns the tile path including start and goal, or null.
+ */
+export function findPath(
+  grid: WalkableGrid,
+  start: TileCoord,
+  goal: TileCoord,
+  options: { maxNodes?: number; unknownCost?: number } = {}
+): TileCoord[] | null {
+  const maxNodes = options.maxNodes ?? 20000;
+  const unknownCost = options.unknownCost ?? 2;
+
+  if (grid.isBlocked(goal)) return null;
+
+  const heuristic = (tile: TileCoord) => {
+    const dx = Math.abs(tile.x - goal.x);
+    const dz = Math.abs(tile.z - goal.z);
+    // Octile distance, weighted so open unknown ground is searched greedily
+    return (Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz)) * 1.5;
+  };
+
+  const open: SearchNode[] = [{ tile: start, g: 0, f: heuristic(start) }];
+  const cameFrom = new Map<string, TileCoord>();
+  const bestG = new Map<string, number>([[tileKey(start), 0]]);
+  const closed = new Set<string>();
+  const goalKey = tileKey(goal);
+
+  while (open.length > 0 && closed.size < maxNodes) {
+    const current = popLowest(open);
+    const currentKey = tileKey(current.tile);
+    if (closed.has(currentKey)) continue;
+    closed.add(currentKey);
+
+    if (currentKey === goalKey) {
+      const path = [current.tile];
+      let key = currentKey;
+      while (cameFrom.has(key)) {
+        const previous = cameFrom.get(key)!;
+        path.unshift(previous);
+        key = tileKey(previous);
+      }
+      return path;
+    }
+
+    for (const [dx, dz] of NEIGHBOURS) {
+      const next = { x: current.tile.x + dx, z: current.tile.z + dz };
+      const nextKey = tileKey(next);
+      if (closed.has(nextKey) || grid.isBlocked(next)) continue;
+
+      const diagonal = dx !== 0 && dz !== 0;
+      if (diagonal && (
+        grid.isBlocked({ x: current.tile.x + dx, z: current.tile.z }) ||
+        grid.isBlocked({ x: current.tile.x, z: current.tile.z + dz })
+      )) {
+        continue;
+      }
+
+      const stepCost = (diagonal ? Math.SQRT2 : 1) * (grid.isWalkable(next) ? 1 : unknownCost);
+      const g = current.g + stepCost;
+      if (g >= (bestG.get(nextKey) ?? Infinity)) continue;
+
+      bestG.set(nextKey, g);
+      cameFrom.set(nextKey, current.tile);
+      pushNode(open, { tile: next, g, f: g + heuristic(next) });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reduce a tile path to waypoints: direction changes, every maxSegment
+ * tiles on long straights, and the goal. The start tile is dropped.
+ */
+export function simplifyPath(path: TileCoord[], maxSegment = 8): TileCoord[] {
+  const waypoints: TileCoord[] = [];
+  let sinceLast = 0;
+
+  for (let i = 1; i < path.length; i++) {
+    sinceLast++;
+    const isLast = i === path.length - 1;
+    const turns = !isLast && (
+      path[i + 1].x - path[i].x !== path[i].x - path[i - 1].x ||
+      path[i + 1].z - path[i].z !== path[i].z - path[i - 1].z
+    );
+    if (isLast || turns || sinceLast >= maxSegment) {
+      waypoints.push(path[i]);
+      sinceLast = 0;
+    }
+  }
+
+  return waypoints;
+}
+
+// Binary min-heap on f
+function pushNode(heap: SearchNode[], node: SearchNode): void {
+  heap.push(node);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].f <= heap[i].f) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function popLowest(heap: SearchNode[]): SearchNode {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left].f < heap[smallest].f) smallest = left;
+      if (right < heap.length && heap[right].f < heap[smallest].f) smallest = right;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top;
+}
+
+type WalkOutcome = "arrived" | "stuck" | "cancelled" | "timeout" | "no_position";
+
+interface ActiveNavigation {
+  target: { x: number; z: number };
+  cancelled: boolean;
+}
+
+/**
+ * Walks the player to a target through waypoints, learning the grid as it goes.
+ *
+ * Emits:
+ * - "waypoint" (tile: TileCoord)
+ * - "stuck" (tile: TileCoord) - tile marked blocked before replanning
+ * - "navigationEnd" (result: NavigationResult)
+ */
+export class Navigator extends EventEmitter {
+  readonly grid = new WalkableGrid();
+  private config: Required<NavigatorConfig>;
+  private active: ActiveNavigation | null = null;
+  private corrected = false;
+  private worldId: string | null = null;
+
+  constructor(private client: HyperscapeClient, config: NavigatorConfig = {}) {
+    super();
+    this.config = {
+      stuckTimeoutMs: config.stuckTimeoutMs ?? 3000,
+      checkIntervalMs: config.checkIntervalMs ?? 250,
+      maxSegmentTiles: config.maxSegmentTiles ?? 8,
+      maxReplans: config.maxReplans ?? 3,
+      maxSearchNodes: config.maxSearchNodes ?? 20000,
+    };
+    this.setupClientListeners();
+  }
+
+  private setupClientListeners(): void {
+    const learnTile = (update: TileUpdate) => {
+      if (update.tile) this.grid.markWalkable(update.tile);
+    };
+    this.client.on("entityTileUpdate", learnTile);
+    this.client.on("tileMovementEnd", learnTile);
+
+    this.client.on("tileMovementStart", (movement: TileMovement) => {
+      // The server only plans paths over walkable tiles
+      for (const tile of movement.path ?? []) this.grid.markWalkable(tile);
+      if (movement.startTile) this.grid.markWalkable(movement.startTile);
+    });
+
+    this.client.on("correction", (data: PositionCorrection) => {
+      if (data.position) this.grid.markWalkable(worldToTile(data.position));
+      this.corrected = true;
+    });
+
+    this.client.on("snapshot", () => {
+      if (this.client.state.worldId !== this.worldId) {
+        this.worldId = this.client.state.worldId;
+        this.grid.clear();
+      }
+      for (const entity of this.client.state.nearbyEntities.values()) {
+        this.learnEntity(entity);
+      }
+    });
+
+    this.client.on("entityAdded", (entity: Entity) => this.learnEntity(entity));
+    this.client.on("disconnected", () => this.cancel());
+  }
+
+  private learnEntity(entity: Entity): void {
+    if (entity.position && MOBILE_TYPES.has(entity.type)) {
+      this.grid.markWalkable(worldToTile(entity.position));
+    }
+  }
+
+  /**
+   * True while a navigation is in progress
+   */
+  isNavigating(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Target of the navigation in progress
+   */
+  getTarget(): { x: number; z: number } | null {
+    return this.active?.target ?? null;
+  }
+
+  /**
+   * Stop the navigation in progress (it resolves as "cancelled")
+   */
+  cancel(): void {
+    if (this.active) this.active.cancelled = true;
+    this.active = null;
+  }
+
+  /**
+   * Plan a route over the learned grid without moving
+   */
+  planRoute(x: number, z: number): TileCoord[] | null {
+    const position = this.client.state.playerEntity?.position;
+    if (!position) return null;
+    const path = findPath(this.grid, worldToTile(position), worldToTile([x, 0, z]), {
+      maxNodes: this.config.maxSearchNodes,
+    });
+    return path ? simplifyPath(path, this.config.maxSegmentTiles) : null;
+  }
+
+  /**
+   * Walk to (x, z) via waypoints, replanning around tiles where we get stuck
+   */
+  async navigateTo(x: number, z: number, options: NavigationOptions = {}): Promise<NavigationResult> {
+    this.cancel();
+    const navigation: ActiveNavigation = { target: { x, z }, cancelled: false };
+    this.active = navigation;
+
+    const arriveDistance = options.arriveDistance ?? 1;
+    const deadline = Date.now() + (options.timeoutMs ?? 60000);
+    const running = options.running ?? true;
+    const goal = worldToTile([x, 0, z]);
+    let waypointCount = 0;
+    let replans = 0;
+
+    const finish = (outcome: NavigationOutcome, message: string): NavigationResult => {
+      if (this.active === navigation) this.active = null;
+      const result: NavigationResult = {
+        success: outcome === "arrived",
+        outcome,
+        message,
+        position: this.client.state.playerEntity?.position ?? null,
+        waypoints: waypointCount,
+        replans,
+      };
+      this.emit("navigationEnd", result);
+      return result;
+    };
+
+    for (let pass = 0; ; pass++) {
+      // Yield between passes so a plan that makes no progress can't block the event loop
+      if (pass > 0) await sleep(this.config.checkIntervalMs);
+      if (navigation.cancelled) return finish("cancelled", "Navigation cancelled");
+
+      const position = this.client.state.playerEntity?.position;
+      if (!position) return finish("no_position", "Player position unknown");
+      if (distance2d(position, [x, 0, z]) <= arriveDistance) {
+        return finish("arrived", `Arrived at (${x.toFixed(1)}, ${z.toFixed(1)})`);
+      }
+      if (Date.now() > deadline) return finish("timeout", "Navigation timed out");
+
+      const path = findPath(this.grid, worldToTile(position), goal, { maxNodes: this.config.maxSearchNodes });
+      if (!path) {
+        return finish("unreachable", `No known route to (${x.toFixed(1)}, ${z.toFixed(1)})`);
+      }
+
+      const waypoints = simplifyPath(path, this.config.maxSegmentTiles);
+      // Target inside our own tile: no waypoints, just walk to the exact spot
+      if (waypoints.length === 0) waypoints.push(goal);
+      let stuckAt: TileCoord | null = null;
+
+      for (let i = 0; i < waypoints.length; i++) {
+        const isLast = i === waypoints.length - 1;
+        // Final waypoint is the exact target, others are tile centers
+        const target = isLast ? { x, z } : { x: waypoints[i].x + 0.5, z: waypoints[i].z + 0.5 };
+        waypointCount++;
+        this.emit("waypoint", waypoints[i]);
+
+        const outcome = await this.walkTo(target, navigation, deadline, running, isLast ? arriveDistance : 1);
+        if (outcome === "arrived") continue;
+        if (outcome === "stuck") {
+          stuckAt = this.nextTileOnPath(path);
+          break;
+        }
+        if (outcome === "cancelled") return finish("cancelled", "Navigation cancelled");
+        if (outcome === "timeout") return finish("timeout", "Navigation timed out");
+        return finish("no_position", "Player position unknown");
+      }
+
+      if (!stuckAt) continue;
+
+      this.grid.markBlocked(stuckAt);
+      this.emit("stuck", stuckAt);
+      if (++replans > this.config.maxReplans) {
+        return finish("stuck", `Stuck near (${stuckAt.x}, ${stuckAt.z}) after ${this.config.maxReplans} replans`);
+      }
+    }
+  }
+
+  /**
+   * Find the nearest entity of a type (optionally filtered by name)
+   */
+  findNearestEntity(type: string, options: { name?: string; maxDistance?: number } = {}): Entity | null {
+    const position = this.client.state.playerEntity?.position;
+    if (!position) return null;
+
+    const name = options.name?.toLowerCase();
+    let nearest: Entity | null = null;
+    let nearestDistance = options.maxDistance ?? Infinity;
+
+    for (const entity of this.client.state.nearbyEntities.values()) {
+      if (entity.id === this.client.state.playerEntity?.id || !entity.position) continue;
+      if (entity.type !== type) continue;
+      if (name && !entity.name?.toLowerCase().includes(name)) continue;
+
+      const distance = distance2d(position, entity.position);
+      if (distance <= nearestDistance) {
+        nearest = entity;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Walk up to the nearest entity of a type
+   */
+  async goToNearest(
+    type: string,
+    options: NavigationOptions & { name?: string; maxDistance?: number } = {}
+  ): Promise<NavigationResult & { entity: Entity | null }> {
+    const entity = this.findNearestEntity(type, options);
+    if (!entity?.position) {
+      return {
+        success: false,
+        outcome: "unreachable",
+        message: `No ${options.name ? `${options.name} ` : ""}${type} nearby`,
+        position: this.client.state.playerEntity?.position ?? null,
+        waypoints: 0,
+        replans: 0,
+        entity: null,
+      };
+    }
+
+    const result = await this.navigateTo(entity.position[0], entity.position[2], {
+      ...options,
+      // Stand next to the entity, not on it
+      arriveDistance: options.arriveDistance ?? 1.5,
+    });
+    return { ...result, entity };
+  }
+
+  private async walkTo(
+    target: { x: number; z: number },
+    navigation: ActiveNavigation,
+    deadline: number,
+    running: boolean,
+    tolerance: number
+  ): Promise<WalkOutcome> {
+    const start = this.client.state.playerEntity?.position;
+    if (!start) return "no_position";
+
+    this.client.move([target.x, start[1], target.z], running);
+    this.corrected = false;
+
+    let last: [number, number, number] = [...start];
+    let lastProgress = Date.now();
+
+    for (;;) {
+      await sleep(this.config.checkIntervalMs);
+      if (navigation.cancelled) return "cancelled";
+
+      const position = this.client.state.playerEntity?.position;
+      if (!position) return "no_position";
+      if (distance2d(position, [target.x, 0, target.z]) <= tolerance) return "arrived";
+
+      const now = Date.now();
+      if (now > deadline) return "timeout";
+
+      if (distance2d(position, last) > 0.05) {
+        last = [...position];
+        lastProgress = now;
+      }
+
+      if (this.corrected) {
+        // Server snapped us back; ask again from the corrected position
+        this.corrected = false;
+        this.client.move([target.x, position[1], target.z], running);
+      }
+
+      if (now - lastProgress >= this.config.stuckTimeoutMs) return "stuck";
+    }
+  }
+
+  /**
+   * Tile after the player's current tile on the path (where we failed to go)
+   */
+  private nextTileOnPath(path: TileCoord[]): TileCoord {
+    const position = this.client.state.playerEntity?.position;
+    const current = position ? worldToTile(position) : path[0];
+    const index = path.findIndex(t => t.x === current.x && t.z === current.z);
+    if (index >= 0 && index < path.length - 1) return path[index + 1];
+
+    // Off the planned path: block the neighbouring path tile closest to us
+    let closest = path[Math.min(1, path.length - 1)];
+    let best = Infinity;
+    for (const tile of path) {
+      const d = Math.hypot(tile.x - current.x, tile.z - current.z);
+      if (d > 0 && d < best) {
+        best = d;
+        closest = tile;
+      }
+    }
+    return closest;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,25 @@
+/**
+ * Hourly rates
+ *
+ * Session metrics (hyperscape_auto_metrics) and the training planner
+ * (hyperscape_skill_plan) both report XP/hour. They measure it the same way,
+ * over the window since it started, so the two agree for the same skill.
+ */
+
+/** Shortest span a rate is measured over, so one early drop doesn't read as millions/hour */
+export const MIN_RATE_SPAN = 60000;
+
+/**
+ * Start of the last `windowMs` before `now`, but not before tracking began
+ * (null window = everything since tracking began)
+ */
+export function rateWindowStart(trackingStart: number, windowMs: number | null, now: number): number {
+  return windowMs === null ? trackingStart : Math.max(trackingStart, now - windowMs);
+}
+
+/**
+ * Amount per hour for `total` accumulated between `from` and `now`
+ */
+export function perHour(total: number, from: number, now: number): number {
+  return total / Math.max(now - from, MIN_RATE_SPAN) * 3600000;
+}
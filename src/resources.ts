@@ -0,0 +1,125 @@
+/**
+ * Resource target selection
+ *
+ * Combines nearby resource entities with the client's resource lifecycle
+ * state so gatherers skip depleted nodes and, when everything is
+ * depleted, wait on the one expected back soonest.
+ */
+
+import { distance2d, type RawPosition } from "./geometry.js";
+import type { Entity, GameState, ResourceState } from "./types.js";
+
+/** Entity types that are gatherable resource nodes */
+export const RESOURCE_ENTITY_TYPES = ["resource", "tree", "rock", "fishing"];
+
+/** Resource fields as they arrive in resource packets, which name them a few different ways */
+export interface RawResource {
+  id?: string;
+  entityId?: string;
+  resourceId?: string;
+  type?: string;
+  resourceType?: string;
+  subType?: string;
+  name?: string;
+  position?: RawPosition;
+}
+
+export interface ResourceCandidate {
+  id: string;
+  type?: string;
+  name?: string;
+  position?: [number, number, number];
+  status: ResourceState["status"];
+  distance: number | null;
+  /** ms until expected respawn (0 when available, null if unknown) */
+  waitMs: number | null;
+}
+
+export interface ResourceQuery {
+  /** Match on resource type or name, e.g. "tree", "willow", "fishing" */
+  type?: string;
+  /** Resource IDs to skip */
+  exclude?: string[];
+  /** Measure distance from here (default: player position) */
+  from?: [number, number, number];
+}
+
+/**
+ * Every resource we know about (in view or tracked), nearest first
+ */
+export function getResourceCandidates(state: GameState, query: ResourceQuery = {}): ResourceCandidate[] {
+  const from = query.from ?? state.playerEntity?.position ?? null;
+  const match = query.type?.toLowerCase();
+  const exclude = new Set(query.exclude ?? []);
+  const now = Date.now();
+  const byId = new Map<string, ResourceCandidate>();
+
+  const add = (id: string, entity: Entity | undefined, tracked: ResourceState | undefined) => {
+    const position = entity?.position ?? tracked?.position;
+    const status = tracked?.status ?? "available";
+    byId.set(id, {
+      id,
+      type: tracked?.type ?? entity?.type,
+      name: entity?.name ?? tracked?.name,
+      position,
+      status,
+      distance: from && position ? distance2d(from, position) : null,
+      waitMs: status === "available" ? 0 : tracked?.respawnAt != null ? Math.max(0, tracked.respawnAt - now) : null,
+    });
+  };
+
+  for (const entity of state.nearbyEntities.values()) {
+    if (RESOURCE_ENTITY_TYPES.includes(entity.type)) {
+      add(entity.id, entity, state.resources.get(entity.id));
+    }
+  }
+  for (const tracked of state.resources.values()) {
+    if (!byId.has(tracked.id)) add(tracked.id, undefined, tracked);
+  }
+
+  return Array.from(byId.values())
+    .filter(r => !exclude.has(r.id))
+    .filter(r => !match || [r.type, r.name].some(v => v?.toLowerCase().includes(match)))
+    .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+}
+
+/**
+ * Best resource to gather: the nearest available one, otherwise the
+ * depleted one expected to respawn soonest (check waitMs)
+ */
+export function selectResourceTarget(state: GameState, query: ResourceQuery = {}): ResourceCandidate | null {
+  const candidates = getResourceCandidates(state, query);
+
+  const available = candidates.find(r => r.status === "available");
+  if (available) return available;
+
+  const depleted = candidates
+    .filter(r => r.status === "depleted")
+    .sort((a, b) => (a.waitMs ?? Infinity) - (b.waitMs ?? Infinity) || (a.distance ?? Infinity) - (b.distance ?? Infinity));
+  return depleted[0] ?? null;
+}
+
+/**
+ * Resource context for LLM
+ */
+export function formatResourceContext(state: GameState, limit = 10): string {
+  const candidates = getResourceCandidates(state);
+  if (candidates.length === 0) return "No resources known nearby.";
+
+  const format = (r: ResourceCandidate) => {
+    const where = r.distance !== null ? ` ${r.distance.toFixed(0)}m` : "";
+    const status = r.status === "available"
+      ? "available"
+      : r.waitMs !== null ? `depleted, back in ~${Math.ceil(r.waitMs / 1000)}s` : "depleted";
+    return `- ${r.name || r.type || "Resource"} id:${r.id}${where} (${status})`;
+  };
+
+  const available = candidates.filter(r => r.status === "available");
+  const depleted = candidates.filter(r => r.status === "depleted");
+
+  let resourceStr = `**Resources:** ${available.length} available, ${depleted.length} depleted\n`;
+  resourceStr += candidates.slice(0, limit).map(format).join("\n");
+  if (candidates.length > limit) resourceStr += `\n(+${candidates.length - limit} more)`;
+
+  return resourceStr;
+}
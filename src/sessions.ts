@@ -0,0 +1,128 @@
+/**
+ * Named game sessions
+ *
+ * Each session has its own credentials, client, autonomous agent and
+ * gathering run, so several accounts (say a woodcutter and a fighter) can
+ * play side by side from one OpenClaw session. Tools and providers called
+ * without a session id use the "default" session, created on demand.
+ */
+
+import type { HyperscapeClient } from "./client.js";
+import type { AutonomousAgent } from "./autonomy/agent.js";
+
+export const DEFAULT_SESSION_ID = "default";
+
+export interface SessionCredentials {
+  serverUrl?: string;
+  authToken?: string;
+  privyUserId?: string;
+}
+
+export interface GameSession {
+  id: string;
+  credentials: SessionCredentials;
+  createdAt: number;
+  client: HyperscapeClient | null;
+  agent: AutonomousAgent | null;
+  /** Running hyperscape_gather_until, if any */
+  gathering: AbortController | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  createdAt: number;
+  serverUrl: string | null;
+  connected: boolean;
+  characterId: string | null;
+  agentRunning: boolean;
+  gathering: boolean;
+}
+
+/**
+ * A session not in any registry, for lookups of unknown ids
+ */
+export function createDetachedSession(id: string, credentials: SessionCredentials = {}): GameSession {
+  return { id, credentials, createdAt: Date.now(), client: null, agent: null, gathering: null };
+}
+
+/**
+ * Stop the session's agent and gathering run, keeping its client
+ */
+export async function stopSessionActivity(session: GameSession): Promise<void> {
+  session.gathering?.abort();
+  session.gathering = null;
+  const agent = session.agent;
+  session.agent = null;
+  await agent?.stop();
+}
+
+/**
+ * Stop everything running in the session and disconnect its client
+ */
+export async function closeSession(session: GameSession): Promise<void> {
+  await stopSessionActivity(session);
+  session.client?.disconnect();
+  session.client = null;
+}
+
+export class SessionRegistry {
+  private sessions = new Map<string, GameSession>();
+
+  /**
+   * Create a session. Throws if the id is taken.
+   */
+  create(id: string, credentials: SessionCredentials = {}): GameSession {
+    if (!id.trim()) throw new Error("Session id must not be empty");
+    if (this.sessions.has(id)) throw new Error(`Session ${id} already exists`);
+    const session = createDetachedSession(id, credentials);
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  get(id: string = DEFAULT_SESSION_ID): GameSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * The named session, or the default one (created if needed) when no id is given
+   */
+  resolve(id?: string): GameSession | undefined {
+    if (id === undefined || id === DEFAULT_SESSION_ID) {
+      return this.sessions.get(DEFAULT_SESSION_ID) ?? this.create(DEFAULT_SESSION_ID);
+    }
+    return this.sessions.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  list(): SessionSummary[] {
+    return Array.from(this.sessions.values()).map(session => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      serverUrl: session.credentials.serverUrl ?? null,
+      connected: session.client?.state.connected ?? false,
+      characterId: session.client?.state.characterId ?? null,
+      agentRunning: session.agent?.isRunning() ?? false,
+      gathering: session.gathering !== null,
+    }));
+  }
+
+  /**
+   * Stop the session's agent and gathering, disconnect and forget it
+   */
+  async destroy(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) return false;
+    this.sessions.delete(id);
+    await closeSession(session);
+    return true;
+  }
+
+  async destroyAll(): Promise<void> {
+    for (const id of Array.from(this.sessions.keys())) {
+      await this.destroy(id);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Testing utilities for Hyperscape Skill
+ *
+ * In-process mock server and transport for deterministic tests.
+ */
+
+export * from "./mock-server.js";
@@ -0,0 +1,260 @@
+/**
+ * MockHyperscapeServer - in-process stand-in for a Hyperscape game server
+ *
+ * Speaks the same msgpackr [packetId, payload] framing and PACKET_NAMES
+ * ordering as the real server, but over an in-memory transport so tests
+ * can drive HyperscapeClient deterministically without a network.
+ */
+
+import { EventEmitter } from "events";
+import { Packr, Unpackr } from "msgpackr";
+import type { ClientTransport, TransportFactory } from "../transport.js";
+import type { BankItem, Entity, PacketName, PlayerEntity } from "../types.js";
+import { getPacketId, getPacketName } from "../types.js";
+
+const packr = new Packr({ structuredClone: true });
+const unpackr = new Unpackr();
+
+export interface ReceivedPacket {
+  name: string;
+  data: unknown;
+  connection: MockConnection;
+}
+
+export type PacketHandler = (data: unknown, connection: MockConnection) => void;
+
+/**
+ * Client side of an in-memory connection
+ */
+class MockTransport extends EventEmitter implements ClientTransport {
+  isOpen = false;
+  peer: MockConnection | null = null;
+
+  send(data: Uint8Array): void {
+    if (!this.isOpen || !this.peer) {
+      throw new Error("MockTransport is not open");
+    }
+    const peer = this.peer;
+    const frame = Uint8Array.from(data);
+    queueMicrotask(() => peer.receive(frame));
+  }
+
+  close(): void {
+    this.peer?.close();
+  }
+}
+
+/**
+ * Server side of an in-memory connection
+ */
+export class MockConnection {
+  private closed = false;
+
+  constructor(
+    private server: MockHyperscapeServer,
+    private transport: MockTransport,
+    public readonly url: string,
+  ) {}
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * Send a packet to this client
+   */
+  send(name: PacketName | string, data: unknown = {}): void {
+    if (this.closed) return;
+    const packetId = getPacketId(name);
+    if (packetId === null) {
+      throw new Error(`Unknown packet: ${name}`);
+    }
+    const frame = packr.pack([packetId, data]);
+    queueMicrotask(() => {
+      if (!this.closed) this.transport.emit("message", frame);
+    });
+  }
+
+  /**
+   * Send raw bytes to this client (for malformed-frame tests)
+   */
+  sendRaw(frame: Uint8Array): void {
+    queueMicrotask(() => {
+      if (!this.closed) this.transport.emit("message", frame);
+    });
+  }
+
+  /**
+   * Close the connection from the server side
+   */
+  close(code = 1000, reason = ""): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.transport.isOpen = false;
+    this.server.removeConnection(this);
+    queueMicrotask(() => this.transport.emit("close", code, reason));
+  }
+
+  /** @internal */
+  receive(frame: Uint8Array): void {
+    if (this.closed) return;
+    const decoded = unpackr.unpack(Buffer.from(frame)) as [number, unknown];
+    const name = getPacketName(decoded[0]) ?? `unknown:${decoded[0]}`;
+    this.server.handleClientPacket(name, decoded[1], this);
+  }
+}
+
+export class MockHyperscapeServer extends EventEmitter {
+  readonly connections: MockConnection[] = [];
+  readonly received: ReceivedPacket[] = [];
+  private handlers = new Map<string, PacketHandler[]>();
+  private refuseConnections = false;
+
+  /**
+   * Transport factory to pass as ConnectionConfig.transport
+   */
+  readonly transport: TransportFactory = (url: string) => {
+    const transport = new MockTransport();
+    queueMicrotask(() => {
+      if (this.refuseConnections) {
+        transport.emit("error", new Error("Connection refused"));
+        transport.emit("close", 1006, "refused");
+        return;
+      }
+      const connection = new MockConnection(this, transport, url);
+      transport.peer = connection;
+      transport.isOpen = true;
+      this.connections.push(connection);
+      this.emit("connection", connection);
+      transport.emit("open");
+    });
+    return transport;
+  };
+
+  /**
+   * Reject new connections (simulates the server being down)
+   */
+  setRefuseConnections(refuse: boolean): void {
+    this.refuseConnections = refuse;
+  }
+
+  /**
+   * Register a handler for packets sent by clients
+   */
+  onPacket(name: PacketName | string, handler: PacketHandler): this {
+    const list = this.handlers.get(name) ?? [];
+    list.push(handler);
+    this.handlers.set(name, list);
+    return this;
+  }
+
+  /**
+   * Answer a client packet with a server packet (payload may be computed from the request)
+   */
+  reply(request: PacketName | string, response: PacketName | string, payload: unknown | ((data: unknown) => unknown) = {}): this {
+    return this.onPacket(request, (data, connection) => {
+      connection.send(response, typeof payload === "function" ? (payload as (d: unknown) => unknown)(data) : payload);
+    });
+  }
+
+  /**
+   * Packets received from clients with the given name
+   */
+  receivedPackets(name: string): unknown[] {
+    return this.received.filter(p => p.name === name).map(p => p.data);
+  }
+
+  /**
+   * Resolve with the next packet of this name sent by any client
+   */
+  waitForPacket(name: string, timeoutMs = 1000): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.off("packet", onPacket);
+        reject(new Error(`Timed out waiting for client packet ${name}`));
+      }, timeoutMs);
+      const onPacket = (packet: ReceivedPacket) => {
+        if (packet.name !== name) return;
+        clearTimeout(timer);
+        this.off("packet", onPacket);
+        resolve(packet.data);
+      };
+      this.on("packet", onPacket);
+    });
+  }
+
+  /**
+   * Send a packet to every connected client
+   */
+  send(name: PacketName | string, data: unknown = {}): void {
+    for (const connection of this.connections) {
+      connection.send(name, data);
+    }
+  }
+
+  // === Scripted world events ===
+
+  sendSnapshot(snapshot: { playerId: string; entities: Entity[]; worldId?: string }): void {
+    this.send("snapshot", snapshot);
+  }
+
+  addEntity(entity: Entity): void {
+    this.send("entityAdded", entity);
+  }
+
+  modifyEntity(update: Partial<Entity> & { id: string }): void {
+    this.send("entityModified", update);
+  }
+
+  removeEntity(id: string): void {
+    this.send("entityRemoved", { id });
+  }
+
+  killPlayer(player: Pick<PlayerEntity, "id">, killedBy?: string): void {
+    this.send("entityModified", { id: player.id, health: 0 });
+    this.send("deathScreen", { killedBy });
+  }
+
+  respawnPlayer(player: Pick<PlayerEntity, "id">, position: [number, number, number]): void {
+    this.send("playerRespawned", { position });
+    this.send("entityModified", { id: player.id, position });
+  }
+
+  sendBankState(items: BankItem[], coins = 0): void {
+    this.send("bankState", { items, coins });
+  }
+
+  /**
+   * Drop every connection from the server side
+   */
+  disconnectAll(code = 1006, reason = "server closed"): void {
+    for (const connection of [...this.connections]) {
+      connection.close(code, reason);
+    }
+  }
+
+  /**
+   * Let queued in-memory frames be delivered
+   */
+  async flush(rounds = 5): Promise<void> {
+    for (let i = 0; i < rounds; i++) {
+      await new Promise<void>(resolve => queueMicrotask(resolve));
+    }
+  }
+
+  /** @internal */
+  handleClientPacket(name: string, data: unknown, connection: MockConnection): void {
+    const packet = { name, data, connection };
+    this.received.push(packet);
+    this.emit("packet", packet);
+    for (const handler of this.handlers.get(name) ?? []) {
+      handler(data, connection);
+    }
+  }
+
+  /** @internal */
+  removeConnection(connection: MockConnection): void {
+    const index = this.connections.indexOf(connection);
+    if (index >= 0) this.connections.splice(index, 1);
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Skill training planner
+ *
+ * Tracks target levels per skill and the XP actually earned (from xpDrop),
+ * and turns them into XP remaining, an observed XP/hour, a time-to-goal
+ * estimate and the activity to do next. The agent scores goals that serve
+ * an unmet target higher, so it trains toward it instead of rotating.
+ */
+
+import type { HyperscapeClient } from "./client.js";
+import type { GameState, XpDrop } from "./types.js";
+import { XP_TABLE, getLevelForXp } from "./types.js";
+import { selectResourceTarget } from "./resources.js";
+import { perHour, rateWindowStart } from "./rates.js";
+
+export interface TrainingActivity {
+  /** Goal template that trains this skill, if the agent has one */
+  goalId: string | null;
+  /** Resource type to gather for gathering skills ("tree", "rock", "fishing") */
+  resourceType?: string;
+  description: string;
+}
+
+export interface SkillPlan {
+  skill: string;
+  currentLevel: number;
+  currentXp: number;
+  targetLevel: number;
+  targetXp: number;
+  xpRemaining: number;
+  /** Observed over the rate window, null until XP has been gained */
+  xpPerHour: number | null;
+  /** Estimated ms until the target level, null without a rate */
+  etaMs: number | null;
+  recommendation: TrainingActivity;
+}
+
+export interface TrainingPlannerOptions {
+  /** Window for XP/hour (default 900000 = 15 minutes) */
+  rateWindowMs?: number;
+}
+
+interface XpSample {
+  skill: string;
+  xp: number;
+  at: number;
+}
+
+/** XP samples older than this are dropped */
+const SAMPLE_RETENTION = 3600000;
+
+const COMBAT_ACTIVITY: TrainingActivity = {
+  goalId: "train_combat",
+  description: "Fight mobs around your level",
+};
+
+/** What to do to train each skill */
+export const SKILL_ACTIVITIES: Record<string, TrainingActivity> = {
+  attack: COMBAT_ACTIVITY,
+  strength: COMBAT_ACTIVITY,
+  defence: COMBAT_ACTIVITY,
+  hitpoints: COMBAT_ACTIVITY,
+  ranged: { ...COMBAT_ACTIVITY, description: "Fight mobs with a ranged weapon" },
+  magic: { ...COMBAT_ACTIVITY, description: "Fight mobs with combat spells" },
+  woodcutting: { goalId: "gather_resources", resourceType: "tree", description: "Chop trees" },
+  mining: { goalId: "gather_resources", resourceType: "rock", description: "Mine rocks" },
+  fishing: { goalId: "gather_resources", resourceType: "fishing", description: "Fish at fishing spots" },
+  cooking: { goalId: null, description: "Cook raw food on a fire or range" },
+  firemaking: { goalId: null, description: "Light fires with logs" },
+  smithing: { goalId: null, description: "Smelt bars at a furnace and smith them at an anvil" },
+  prayer: { goalId: null, description: "Bury bones from kills" },
+};
+
+/**
+ * Total XP needed to reach a level (1-99)
+ */
+export function xpForLevel(level: number): number {
+  const clamped = Math.min(Math.max(Math.floor(level), 1), 99);
+  return XP_TABLE[clamped - 1];
+}
+
+/**
+ * Format a duration for humans, e.g. "2h 15m"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.ceil(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+}
+
+export class TrainingPlanner {
+  private targets = new Map<string, number>();
+  private samples: XpSample[] = [];
+  private trackingStart = Date.now();
+  private readonly rateWindowMs: number;
+
+  constructor(private client: HyperscapeClient, options: TrainingPlannerOptions = {}) {
+    this.rateWindowMs = options.rateWindowMs ?? 900000;
+    this.client.on("xpDrop", (drop: XpDrop) => this.recordXp(drop.skill, drop.xp));
+  }
+
+  /**
+   * Record XP gained (called for every xpDrop)
+   */
+  recordXp(skill: string, xp: number, at = Date.now()): void {
+    this.samples.push({ skill, xp, at });
+    const cutoff = at - Math.max(SAMPLE_RETENTION, this.rateWindowMs);
+    while (this.samples.length > 0 && this.samples[0].at < cutoff) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Train a skill toward a target level
+   */
+  setTarget(skill: string, level: number): void {
+    this.targets.set(skill.toLowerCase(), Math.min(Math.max(Math.floor(level), 2), 99));
+  }
+
+  clearTarget(skill: string): boolean {
+    return this.targets.delete(skill.toLowerCase());
+  }
+
+  getTargets(): Record<string, number> {
+    return Object.fromEntries(this.targets);
+  }
+
+  /**
+   * Observed XP/hour for a skill over the rate window (null if none gained)
+   */
+  getXpRate(skill: string, now = Date.now()): number | null {
+    const from = rateWindowStart(this.trackingStart, this.rateWindowMs, now);
+    const window = this.samples.filter(s => s.skill === skill && s.at >= from);
+    if (window.length === 0) return null;
+
+    return perHour(window.reduce((sum, s) => sum + s.xp, 0), from, now);
+  }
+
+  /**
+   * Plan for one skill toward a target level (default: its stored target, else next level)
+   */
+  planSkill(skill: string, targetLevel?: number): SkillPlan {
+    const key = skill.toLowerCase();
+    const data = this.client.state.playerEntity?.skills?.[key];
+    const currentXp = data?.xp ?? 0;
+    const currentLevel = data?.level ?? getLevelForXp(currentXp);
+    const target = Math.min(targetLevel ?? this.targets.get(key) ?? currentLevel + 1, 99);
+    const targetXp = xpForLevel(target);
+    const xpRemaining = Math.max(0, targetXp - currentXp);
+    const xpPerHour = this.getXpRate(key);
+
+    return {
+      skill: key,
+      currentLevel,
+      currentXp,
+      targetLevel: target,
+      targetXp,
+      xpRemaining,
+      xpPerHour: xpPerHour !== null ? Math.round(xpPerHour) : null,
+      etaMs: xpPerHour ? Math.round(xpRemaining / xpPerHour * 3600000) : null,
+      recommendation: recommendActivity(key, this.client.state),
+    };
+  }
+
+  /**
+   * Plans for every skill with a target, fewest XP remaining first
+   */
+  plan(): SkillPlan[] {
+    return Array.from(this.targets.keys())
+      .map(skill => this.planSkill(skill))
+      .sort((a, b) => a.xpRemaining - b.xpRemaining);
+  }
+
+  /**
+   * Plans whose target level hasn't been reached yet
+   */
+  getActivePlans(): SkillPlan[] {
+    return this.plan().filter(p => p.xpRemaining > 0);
+  }
+
+  /**
+   * Training summary for LLM context
+   */
+  getContext(): string {
+    const plans = this.plan();
+    if (plans.length === 0) return "## Training\nNo skill targets set.";
+
+    const lines = plans.map(p => {
+      if (p.xpRemaining === 0) return `- ${p.skill}: level ${p.targetLevel} reached`;
+      const rate = p.xpPerHour !== null ? `${p.xpPerHour.toLocaleString()} xp/h` : "no rate yet";
+      const eta = p.etaMs !== null ? `, ~${formatDuration(p.etaMs)}` : "";
+      return `- ${p.skill} ${p.currentLevel} → ${p.targetLevel}: ${p.xpRemaining.toLocaleString()} xp left (${rate}${eta}) - ${p.recommendation.description}`;
+    });
+    return `## Training\n${lines.join("\n")}`;
+  }
+}
+
+/**
+ * Activity for a skill, pointing at a nearby node for gathering skills
+ */
+export function recommendActivity(skill: string, state: GameState): TrainingActivity {
+  const activity = SKILL_ACTIVITIES[skill] ?? { goalId: null, description: `Train ${skill}` };
+  if (!activity.resourceType) return activity;
+
+  const node = selectResourceTarget(state, { type: activity.resourceType });
+  if (!node) return { ...activity, description: `${activity.description} (none known nearby)` };
+  const where = node.distance !== null ? ` ${node.distance.toFixed(0)}m away` : "";
+  return { ...activity, description: `${activity.description} - ${node.name ?? node.type ?? "node"} id:${node.id}${where}` };
+}
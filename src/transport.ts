@@ -0,0 +1,63 @@
+/**
+ * Transport layer for HyperscapeClient
+ *
+ * The client only needs something that can open, send binary frames,
+ * receive binary frames and close. The default is a real WebSocket;
+ * tests swap in an in-process transport from the mock server.
+ */
+
+import WebSocket from "ws";
+import { EventEmitter } from "events";
+
+/**
+ * A binary, message-oriented connection to a Hyperscape server.
+ *
+ * Emits:
+ * - "open"
+ * - "message" (data: Buffer | ArrayBuffer | Uint8Array)
+ * - "close" (code?: number, reason?: string)
+ * - "error" (error: Error)
+ */
+export interface ClientTransport extends EventEmitter {
+  /** True once "open" has fired and until the connection closes */
+  readonly isOpen: boolean;
+  send(data: Uint8Array): void;
+  close(): void;
+}
+
+/**
+ * Creates a transport connected (or connecting) to the given URL
+ */
+export type TransportFactory = (url: string) => ClientTransport;
+
+/**
+ * Default transport backed by the `ws` WebSocket client
+ */
+export class WebSocketTransport extends EventEmitter implements ClientTransport {
+  private ws: WebSocket;
+
+  constructor(url: string) {
+    super();
+    this.ws = new WebSocket(url);
+    this.ws.binaryType = "arraybuffer";
+
+    this.ws.on("open", () => this.emit("open"));
+    this.ws.on("message", (data: Buffer | ArrayBuffer) => this.emit("message", data));
+    this.ws.on("close", (code: number, reason: Buffer) => this.emit("close", code, reason.toString()));
+    this.ws.on("error", (error) => this.emit("error", error));
+  }
+
+  get isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN;
+  }
+
+  send(data: Uint8Array): void {
+    this.ws.send(data);
+  }
+
+  close(): void {
+    this.ws.close();
+  }
+}
+
+export const webSocketTransport: TransportFactory = (url) => new WebSocketTransport(url);
@@ -3,6 +3,9 @@
  * Synced from @hyperscape/shared packets.ts
  */
 
+import type { TransportFactory } from "./transport.js";
+import type { NavigatorConfig } from "./navigation.js";
+
 export interface Position {
   x: number;
   y: number;
@@ -21,6 +24,49 @@ export interface Entity {
   combatLevel?: number;
 }
 
+/** Tile coordinates on the server's movement grid (1 tile = 1 world unit) */
+export interface TileCoord {
+  x: number;
+  z: number;
+}
+
+export interface TileUpdate {
+  id: string;
+  tile: TileCoord;
+  worldPos?: [number, number, number];
+}
+
+export interface TileMovement {
+  id: string;
+  startTile?: TileCoord;
+  path?: TileCoord[];
+  destinationTile?: TileCoord;
+  running?: boolean;
+}
+
+export interface PositionCorrection {
+  position: [number, number, number];
+  seq?: number;
+}
+
+export type ResourceStatus = "available" | "depleted";
+
+export interface ResourceState {
+  id: string;
+  /** tree, rock, fishing... */
+  type?: string;
+  name?: string;
+  position?: [number, number, number];
+  status: ResourceStatus;
+  depletedAt: number | null;
+  /** When it should be back: from the server if given, else learned from earlier respawns */
+  respawnAt: number | null;
+  /** Last observed depleted → respawned time */
+  observedRespawnMs: number | null;
+  /** When a fishing spot last relocated */
+  movedAt: number | null;
+}
+
 export interface PlayerEntity extends Entity {
   type: "player";
   inventory?: InventoryItem[];
@@ -28,6 +74,7 @@ export interface PlayerEntity extends Entity {
   equipment?: Record<string, EquippedItem>;
   coins?: number;
   prayerPoints?: number;
+  maxPrayerPoints?: number;
   runEnergy?: number;
   weight?: number;
   inCombat?: boolean;
@@ -45,6 +92,35 @@ export interface EquippedItem {
   itemId: string;
   name?: string;
   slot: string;
+  bonuses?: EquipmentBonuses;
+}
+
+/** Combat bonuses an equipped item adds (missing = 0) */
+export interface EquipmentBonuses {
+  attack?: number;
+  strength?: number;
+  defence?: number;
+  ranged?: number;
+  magic?: number;
+}
+
+/** One combatDamageDealt hit involving the player */
+export interface CombatHit {
+  attackerId: string | null;
+  targetId: string;
+  /** Name (or type) of the mob on the other side, for per-mob averages */
+  mobName: string | null;
+  damage: number;
+  /** True when the player dealt the hit, false when the player took it */
+  dealt: boolean;
+  timestamp: number;
+}
+
+/** A character on the account, from characterList / characterCreated */
+export interface CharacterSummary {
+  id: string;
+  name: string;
+  combatLevel?: number;
 }
 
 export interface SkillData {
@@ -61,13 +137,178 @@ export interface BankItem {
   tab?: number;
 }
 
+export interface QuestStep {
+  id: string;
+  description: string;
+  current: number;
+  required: number;
+  completed: boolean;
+}
+
+export interface Quest {
+  questId: string;
+  name: string;
+  description?: string;
+  status: "available" | "active" | "completed";
+  pinned: boolean;
+  steps: QuestStep[];
+  rewards?: string[];
+}
+
+export interface TradeOfferItem {
+  itemId: string;
+  quantity: number;
+  slot?: number;
+  name?: string;
+  /** Coin value of one unit, when the server reports it */
+  value?: number;
+}
+
+export interface TradeRequest {
+  playerId: string;
+  playerName?: string;
+  receivedAt: number;
+}
+
+export interface TradeSession {
+  tradeId: string;
+  partnerId: string;
+  partnerName?: string;
+  myOffer: TradeOfferItem[];
+  theirOffer: TradeOfferItem[];
+  /** "offer" while items are being added, "confirm" on the final confirm screen */
+  stage: "offer" | "confirm";
+  myAccepted: boolean;
+  theirAccepted: boolean;
+  /** Partner's offer as it was when we last accepted */
+  acceptedTheirOffer: TradeOfferItem[] | null;
+  /** True if the partner's offer differs from what we last accepted */
+  counterOfferChanged: boolean;
+  lastError?: string;
+}
+
+export type DuelStage = "challenge" | "rules" | "stakes" | "confirm" | "countdown" | "fight" | "result";
+
+export interface DuelChallenge {
+  playerId: string;
+  playerName?: string;
+  combatLevel?: number;
+  receivedAt: number;
+}
+
+export interface DuelResult {
+  won: boolean;
+  winnerId?: string;
+  reason?: string;
+}
+
+export interface DuelSession {
+  duelId: string | null;
+  opponentId: string;
+  opponentName?: string;
+  stage: DuelStage;
+  /** Rule toggles, e.g. { noMagic: true, noFood: false } */
+  rules: Record<string, boolean>;
+  /** Equipment slots disabled for the fight */
+  disabledEquipment: string[];
+  myStakes: TradeOfferItem[];
+  theirStakes: TradeOfferItem[];
+  myAccepted: boolean;
+  theirAccepted: boolean;
+  /** Most our whole stake may be worth in coins, null for no limit */
+  stakeLimit: number | null;
+  countdown: number | null;
+  opponentDisconnected: boolean;
+  result: DuelResult | null;
+  lastError?: string;
+}
+
+export interface AbilityFailure {
+  abilityId: string;
+  reason: string;
+  at: number;
+}
+
+export interface Friend {
+  name: string;
+  playerId?: string;
+  online: boolean;
+  world?: string;
+}
+
+export interface FriendRequest {
+  name: string;
+  playerId?: string;
+  receivedAt: number;
+}
+
+export interface PrivateMessage {
+  direction: "incoming" | "outgoing";
+  /** The other party's name */
+  name: string;
+  message: string;
+  timestamp: number;
+}
+
+export interface SocialState {
+  /** Friends keyed by lowercased name */
+  friends: Map<string, Friend>;
+  pendingRequests: FriendRequest[];
+  ignoreList: string[];
+  /** Most recent private messages, oldest first (bounded ring buffer) */
+  messages: PrivateMessage[];
+  lastError: string | null;
+}
+
+export interface RecipeInput {
+  itemId: string;
+  quantity: number;
+  name?: string;
+}
+
+export interface ProductionRecipe {
+  /** Item ID of the bar or item produced */
+  itemId: string;
+  name: string;
+  levelRequired: number;
+  inputs: RecipeInput[];
+  xp?: number;
+  /** Whether we meet the level and have the inputs for one in inventory, kept current while open */
+  canMake: boolean;
+}
+
+export interface ProductionInterface {
+  type: "smelting" | "smithing";
+  sourceId: string;
+  recipes: ProductionRecipe[];
+}
+
+export interface ChatMessage {
+  id: string;
+  channel: string;
+  from: string;
+  fromId?: string;
+  body: string;
+  timestamp: number;
+}
+
 export interface GameState {
   connected: boolean;
   authenticated: boolean;
+  /** Characters on the account (from the last characterList) */
+  characters: CharacterSummary[];
+  /** Character selected for (or approved into) the world */
+  characterId: string | null;
   playerEntity: PlayerEntity | null;
   nearbyEntities: Map<string, Entity>;
+  /** Entity ID -> when (ms) the server last sent anything about it */
+  entityLastSeen: Map<string, number>;
   worldId: string | null;
   lastUpdate: number;
+  /** Server clock minus local clock in ms, from worldTimeSync (0 until synced) */
+  serverTimeOffset: number;
+  /** Sequence number of the last input the server acknowledged */
+  lastInputAck: number | null;
   // Bank state (when open)
   bankOpen: boolean;
   bankItems: BankItem[];
@@ -76,10 +317,99 @@ export interface GameState {
   attackStyle: string;
   autoRetaliate: boolean;
   currentTarget: string | null;
+  /** Recent hits dealt and taken (bounded, oldest first) */
+  combatHits: CombatHit[];
+  // Magic & abilities
+  autocastSpell: string | null;
+  /** Ability/spell ID -> when it is ready again (ms, see monotonicNow) */
+  abilityCooldowns: Map<string, number>;
+  lastAbilityFailure: AbilityFailure | null;
   // UI state
   dialogueOpen: boolean;
   storeOpen: boolean;
   tradeOpen: boolean;
+  smeltingOpen: boolean;
+  smithingOpen: boolean;
+  productionInterface: ProductionInterface | null;
+  // Prayer state
+  activePrayers: string[];
+  // Trade state
+  trade: TradeSession | null;
+  tradeRequests: TradeRequest[];
+  // Duel state
+  duel: DuelSession | null;
+  duelChallenges: DuelChallenge[];
+  // Chat history keyed by channel (bounded, oldest first)
+  chatHistory: Map<string, ChatMessage[]>;
+  // Friends, ignore list & private messages
+  social: SocialState;
+  // Quest log
+  quests: Map<string, Quest>;
+  pendingQuestStart: string | null;
+  // Resource nodes (trees, rocks, fishing spots) by entity ID
+  resources: Map<string, ResourceState>;
+  // Gathering in progress
+  gatheringResource: string | null;
+  gatheringTool: string | null;
+}
+
+export interface CommandResult<T = unknown> {
+  success: boolean;
+  /**
+   * Packet that settled the command, or "timeout" / "disconnected" / "notSent"
+   * ("sent" when no reply is expected, "quiet" when no failure arrived in time)
+   */
+  resolvedBy: string;
+  data?: T;
+  message?: string;
+}
+
+/** Automatic reconnection tuning */
+export interface ReconnectConfig {
+  /** Delay before the first attempt, doubled on each failure (default 1000ms) */
+  initialDelayMs?: number;
+  /** Cap on the backoff delay (default 30000ms) */
+  maxDelayMs?: number;
+  /** Give up after this many failed attempts in a row (default 10, 0 = never) */
+  maxAttempts?: number;
+  /** Random spread applied to each delay, 0-1 (default 0.3 = ±30%) */
+  jitter?: number;
+}
+
+export type ConnectionStatus = "disconnected" | "connecting" | "connected" | "reconnecting";
+
+export interface DisconnectInfo {
+  at: number;
+  /** WebSocket close code, if the transport gave one */
+  code?: number;
+  reason: string;
+  /** Payload of the kick packet that preceded the close, if any */
+  kick?: unknown;
+}
+
+/** Ping round trips over the last 100 pongs (null until the first) */
+export interface LatencyStats {
+  samples: number;
+  lastMs: number | null;
+  minMs: number | null;
+  avgMs: number | null;
+  p95Ms: number | null;
+}
+
+export interface ConnectionHealth {
+  status: ConnectionStatus;
+  /** Round trip of the last ping, null until a pong arrives */
+  latencyMs: number | null;
+  latency: LatencyStats;
+  /** When the server clock was last synced (local ms), null if never */
+  serverTimeSyncedAt: number | null;
+  serverTimeOffset: number;
+  /** Successful reconnects since the client was created */
+  reconnectCount: number;
+  /** Attempts made in the current reconnect cycle (0 when connected) */
+  reconnectAttempt: number;
+  connectedSince: number | null;
+  lastDisconnect: DisconnectInfo | null;
 }
 
 export interface ConnectionConfig {
@@ -87,6 +417,20 @@ export interface ConnectionConfig {
   authToken?: string;
   privyUserId?: string;
   autoReconnect?: boolean;
+  /** Backoff and attempt limit for autoReconnect */
+  reconnect?: ReconnectConfig;
+  /** How long awaitable commands wait for a confirming packet (default 5000ms) */
+  commandTimeout?: number;
+  /** How long commands the server only answers on failure wait for one (default 1000ms) */
+  quietWindow?: number;
+  /** Creates the underlying connection (default: WebSocket) */
+  transport?: TransportFactory;
+  /** Pathfinding and stuck detection tuning */
+  navigation?: NavigatorConfig;
+  /** JSON file for the persistent world map (in-memory only when unset) */
+  worldMapPath?: string;
+  /** Entities not updated for this long are flagged stale in getStateContext (default 30000ms) */
+  staleEntityMs?: number;
 }
 
 export interface XpDrop {
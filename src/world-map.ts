@@ -0,0 +1,304 @@
+/**
+ * WorldMap - persistent memory of static locations per world
+ *
+ * nearbyEntities only covers what is in view right now. The world map
+ * remembers where banks, stores, resource nodes and other NPCs were seen
+ * (keyed by worldId), saves them to a JSON file and answers "nearest known
+ * bank" / "willow trees within 200m" style queries.
+ */
+
+import { readFileSync } from "fs";
+import { mkdir, rename, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, extname, join } from "path";
+import type { HyperscapeClient } from "./client.js";
+import { distance2d, toPosition } from "./geometry.js";
+import { RESOURCE_ENTITY_TYPES, type RawResource } from "./resources.js";
+import { DEFAULT_SESSION_ID } from "./sessions.js";
+import type { Entity, ResourceState } from "./types.js";
+
+export type LocationKind = "bank" | "store" | "resource" | "npc";
+
+export interface KnownLocation {
+  id: string;
+  kind: LocationKind;
+  name: string;
+  /** Resource type ("tree", "fishing"...) or NPC role */
+  subtype?: string;
+  position: [number, number, number];
+  lastSeen: number;
+}
+
+export interface WorldMapQuery {
+  kind?: LocationKind;
+  /** Case-insensitive match on name, subtype or id */
+  name?: string;
+  /** Measure distance from here (default: player position) */
+  from?: [number, number, number];
+  /** Only locations within this many units */
+  within?: number;
+  limit?: number;
+}
+
+export interface WorldMapOptions {
+  /** JSON file to load from and save to; in-memory only when unset */
+  path?: string;
+  /** Delay before writing changes to disk (default 1000ms) */
+  saveDelay?: number;
+}
+
+interface WorldMapFile {
+  version: 1;
+  worlds: Record<string, KnownLocation[]>;
+}
+
+/** NPC fields that may describe a bank or store role */
+interface NpcRoles {
+  npcType?: string;
+  role?: string;
+  services?: string[];
+}
+
+const UNKNOWN_WORLD = "unknown";
+
+/**
+ * Where tool-managed clients keep their world map by default. Sessions other
+ * than the default one get their own file so they never overwrite each other.
+ */
+export function defaultWorldMapPath(sessionId: string = DEFAULT_SESSION_ID): string {
+  const path = process.env.HYPERSCAPE_WORLD_MAP ?? join(homedir(), ".hyperscape", "world-map.json");
+  if (sessionId === DEFAULT_SESSION_ID) return path;
+  const ext = extname(path);
+  return `${path.slice(0, path.length - ext.length)}.${encodeURIComponent(sessionId)}${ext}`;
+}
+
+/**
+ * Classify an entity as a bank, store, resource node or plain NPC (null for anything else)
+ */
+export function classifyEntity(entity: Entity): LocationKind | null {
+  if (RESOURCE_ENTITY_TYPES.includes(entity.type)) return "resource";
+
+  const roles = entity as Entity & NpcRoles;
+  const tags = [entity.type, entity.name, roles.npcType, roles.role, ...(roles.services ?? [])]
+    .filter((t): t is string => typeof t === "string")
+    .map(t => t.toLowerCase());
+
+  if (tags.some(t => t.includes("bank"))) return "bank";
+  if (tags.some(t => t.includes("store") || t.includes("shop") || t.includes("merchant"))) return "store";
+  if (entity.type === "npc") return "npc";
+  return null;
+}
+
+export class WorldMap {
+  private worlds = new Map<string, Map<string, KnownLocation>>();
+  private saveTimer: NodeJS.Timeout | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private readonly path: string | null;
+  private readonly saveDelay: number;
+
+  constructor(private client: HyperscapeClient, options: WorldMapOptions = {}) {
+    this.path = options.path ?? null;
+    this.saveDelay = options.saveDelay ?? 1000;
+    this.load();
+    this.setupClientListeners();
+  }
+
+  private setupClientListeners(): void {
+    this.client.on("resourceSpawnPoints", (data: unknown) => this.recordResources(data, "spawnPoints"));
+    this.client.on("resourceSnapshot", (data: unknown) => this.recordResources(data, "resources"));
+    this.client.on("resourceSpawned", (resource: ResourceState) => this.recordResources([resource], "resources"));
+    this.client.on("fishingSpotMoved", (moved: ResourceState & { oldId: string }) => {
+      if (moved.oldId !== moved.id) this.forget(moved.oldId);
+      this.recordResources([moved], "resources");
+    });
+
+    this.client.on("snapshot", () => {
+      for (const entity of this.client.state.nearbyEntities.values()) {
+        this.recordEntity(entity);
+      }
+    });
+    this.client.on("entityAdded", (entity: Entity) => this.recordEntity(entity));
+    this.client.on("disconnected", () => void this.flush());
+  }
+
+  private get worldId(): string {
+    return this.client.state.worldId ?? UNKNOWN_WORLD;
+  }
+
+  private getWorld(worldId = this.worldId): Map<string, KnownLocation> {
+    let world = this.worlds.get(worldId);
+    if (!world) {
+      world = new Map();
+      this.worlds.set(worldId, world);
+    }
+    return world;
+  }
+
+  private recordResources(data: unknown, key: "spawnPoints" | "resources"): void {
+    const list = Array.isArray(data)
+      ? data as RawResource[]
+      : ((data as Record<string, RawResource[] | undefined>)[key] ?? []);
+
+    for (const raw of list) {
+      const id = raw.id ?? raw.entityId;
+      const position = toPosition(raw.position);
+      if (!id || !position) continue;
+
+      const subtype = raw.resourceType ?? raw.subType ?? raw.type;
+      this.record({
+        id,
+        kind: "resource",
+        name: raw.name ?? raw.resourceId ?? subtype ?? id,
+        subtype,
+        position,
+        lastSeen: Date.now(),
+      });
+    }
+  }
+
+  private recordEntity(entity: Entity): void {
+    if (!entity.position || entity.id === this.client.state.playerEntity?.id) return;
+    const kind = classifyEntity(entity);
+    if (!kind) return;
+
+    this.record({
+      id: entity.id,
+      kind,
+      name: entity.name ?? entity.id,
+      subtype: kind === "resource"
+        ? entity.type
+        : (entity as Entity & NpcRoles).role ?? (entity as Entity & NpcRoles).npcType,
+      position: entity.position,
+      lastSeen: Date.now(),
+    });
+  }
+
+  /**
+   * Add or update a known location in the current world
+   */
+  record(location: KnownLocation): void {
+    this.getWorld().set(location.id, location);
+    this.scheduleSave();
+  }
+
+  /**
+   * Forget a location (e.g. it no longer exists)
+   */
+  forget(id: string): boolean {
+    const removed = this.getWorld().delete(id);
+    if (removed) this.scheduleSave();
+    return removed;
+  }
+
+  /**
+   * Known locations in the current world, nearest first
+   */
+  query(query: WorldMapQuery = {}): Array<KnownLocation & { distance: number | null }> {
+    const from = query.from ?? this.client.state.playerEntity?.position ?? null;
+    const name = query.name?.toLowerCase();
+
+    const results = Array.from(this.getWorld().values())
+      .filter(l => !query.kind || l.kind === query.kind)
+      .filter(l => !name || [l.name, l.subtype, l.id].some(v => v?.toLowerCase().includes(name)))
+      .map(l => ({ ...l, distance: from ? distance2d(from, l.position) : null }))
+      .filter(l => query.within === undefined || (l.distance !== null && l.distance <= query.within))
+      .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+
+    return query.limit ? results.slice(0, query.limit) : results;
+  }
+
+  /**
+   * Nearest known location of a kind, e.g. nearest("bank")
+   */
+  nearest(kind: LocationKind, query: Omit<WorldMapQuery, "kind" | "limit"> = {}): (KnownLocation & { distance: number | null }) | null {
+    return this.query({ ...query, kind, limit: 1 })[0] ?? null;
+  }
+
+  /**
+   * Number of known locations per kind in the current world
+   */
+  getCounts(): Record<LocationKind, number> {
+    const counts: Record<LocationKind, number> = { bank: 0, store: 0, resource: 0, npc: 0 };
+    for (const location of this.getWorld().values()) {
+      counts[location.kind]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Summary for LLM context
+   */
+  getContext(limit = 5): string {
+    const counts = this.getCounts();
+    const total = counts.bank + counts.store + counts.resource + counts.npc;
+    if (total === 0) return "## Known Locations\nNothing mapped yet in this world.";
+
+    const format = (l: KnownLocation & { distance: number | null }) =>
+      `- ${l.name} [${l.position.map(n => n.toFixed(0)).join(", ")}]${l.distance !== null ? ` (${l.distance.toFixed(0)}m)` : ""}`;
+
+    const sections = [`## Known Locations (${this.worldId})`];
+    for (const kind of ["bank", "store", "resource"] as LocationKind[]) {
+      const nearest = this.query({ kind, limit });
+      if (nearest.length === 0) continue;
+      sections.push(`${kind === "resource" ? "Resources" : kind === "bank" ? "Banks" : "Stores"} (${counts[kind]} known):`);
+      sections.push(...nearest.map(format));
+    }
+    if (counts.npc > 0) {
+      sections.push(`Other NPCs: ${counts.npc} known`);
+    }
+    return sections.join("\n");
+  }
+
+  private load(): void {
+    if (!this.path) return;
+    try {
+      const file = JSON.parse(readFileSync(this.path, "utf8")) as WorldMapFile;
+      for (const [worldId, locations] of Object.entries(file.worlds ?? {})) {
+        this.worlds.set(worldId, new Map(locations.map(l => [l.id, l])));
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`[WorldMap] Failed to load ${this.path}:`, err);
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.path || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, this.saveDelay);
+    this.saveTimer.unref?.();
+  }
+
+  /**
+   * Write every world to disk now
+   */
+  async save(): Promise<void> {
+    if (!this.path) return;
+    const path = this.path;
+    const file: WorldMapFile = { version: 1, worlds: {} };
+    for (const [worldId, locations] of this.worlds) {
+      file.worlds[worldId] = Array.from(locations.values());
+    }
+
+    // Write to a temp file and rename so a crash never leaves half a map
+    this.saving = this.saving.then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(`${path}.tmp`, JSON.stringify(file, null, 2));
+      await rename(`${path}.tmp`, path);
+    }).catch(err => console.error(`[WorldMap] Failed to save ${path}:`, err));
+    await this.saving;
+  }
+
+  /**
+   * Save pending changes, if any
+   */
+  async flush(): Promise<void> {
+    if (!this.saveTimer) return this.saving;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.save();
+  }
+}
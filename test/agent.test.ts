@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import { createAutonomousAgent, type AutonomousAgent } from "../src/autonomy/agent.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { PLAYER, connectClient, goblin } from "./helpers.js";
+
+describe("AutonomousAgent", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+  let agent: AutonomousAgent;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+  });
+
+  afterEach(async () => {
+    await agent?.stop();
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("attacks the lowest level mob when training combat", async () => {
+    client = await connectClient(server, [goblin("goblin-1", { level: 5 }), goblin("goblin-2", { level: 2 })]);
+    agent = createAutonomousAgent(client, { tickInterval: 5 });
+
+    await agent.start();
+    const attack = await server.waitForPacket("attackMob");
+
+    expect(attack).toEqual({ mobId: "goblin-2", attackType: "melee" });
+    expect(agent.getThoughts(1)[0]?.goal).toBe("Train Combat Skills");
+  });
+
+  it("respawns after dying", async () => {
+    client = await connectClient(server);
+    agent = createAutonomousAgent(client, { tickInterval: 5 });
+
+    await agent.start();
+    server.killPlayer(PLAYER);
+
+    await server.waitForPacket("requestRespawn");
+    expect(agent.getStats().deaths).toBe(1);
+  });
+
+  it("logs when the server rejects an action", async () => {
+    client = await connectClient(server, [goblin()]);
+    server.reply("attackMob", "showToast", { message: "You can't reach that", type: "error" });
+    agent = createAutonomousAgent(client, { tickInterval: 5 });
+    const logs: string[] = [];
+    agent.on("log", (line: string) => logs.push(line));
+
+    await agent.start();
+    await vi.waitFor(() => expect(logs.some(l => l.includes("You can't reach that"))).toBe(true));
+  });
+
+  it("pauses while the client reconnects and resumes afterwards", async () => {
+    client = await connectClient(server, [goblin()]);
+    agent = createAutonomousAgent(client, { tickInterval: 5 });
+
+    await agent.start();
+    client.emit("reconnecting", { attempt: 1, delayMs: 1000 });
+    expect(agent.isPaused()).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(server.receivedPackets("attackMob")).toHaveLength(0);
+
+    client.emit("reconnected", { reconnectCount: 1 });
+    expect(agent.isPaused()).toBe(false);
+    await server.waitForPacket("attackMob");
+  });
+
+  it("keeps a single tick loop when reconnecting during a slow tick", async () => {
+    client = await connectClient(server, [goblin()]);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    let calls = 0;
+    const planner = {
+      name: "slow",
+      plan: async () => {
+        calls++;
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        inFlight--;
+        return { thinking: "waiting", action: null };
+      },
+    };
+    agent = createAutonomousAgent(client, { tickInterval: 5, planner });
+
+    await agent.start();
+    await vi.waitFor(() => expect(inFlight).toBe(1));
+    client.emit("reconnecting", { attempt: 1, delayMs: 10 });
+    client.emit("reconnected", { reconnectCount: 1 });
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(maxInFlight).toBe(1);
+    // ~55ms per tick: a second loop would roughly double this
+    expect(calls).toBeLessThanOrEqual(5);
+  });
+});
@@ -0,0 +1,296 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { deflateSync } from "zlib";
+import { Packr } from "msgpackr";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { PLAYER, connectClient, goblin } from "./helpers.js";
+
+describe("HyperscapeClient", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+    client = await connectClient(server, [goblin()]);
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("applies snapshots to game state", () => {
+    expect(client.state.connected).toBe(true);
+    expect(client.state.worldId).toBe("world-1");
+    expect(client.state.playerEntity?.id).toBe(PLAYER.id);
+    expect(client.state.nearbyEntities.has("goblin-1")).toBe(true);
+  });
+
+  it("tracks entity additions, updates and removals", async () => {
+    server.addEntity(goblin("goblin-2"));
+    server.modifyEntity({ id: "goblin-1", health: 2 });
+    server.modifyEntity({ id: PLAYER.id, position: [3, 0, 4] });
+    server.removeEntity("goblin-2");
+    await server.flush();
+
+    expect(client.state.nearbyEntities.has("goblin-2")).toBe(false);
+    expect(client.state.nearbyEntities.get("goblin-1")?.health).toBe(2);
+    expect(client.state.playerEntity?.position).toEqual([3, 0, 4]);
+  });
+
+  it("applies batched, delta and compressed entity updates", async () => {
+    server.send("serverStateUpdate", {
+      entities: [
+        { id: "goblin-1", position: { x: 6, y: 0, z: 6 }, health: 4 },
+        goblin("goblin-2", { position: [9, 0, 9] }),
+      ],
+    });
+    server.send("deltaUpdate", { changes: [{ id: "goblin-2", health: 1 }, { id: "unknown-1", health: 3 }] });
+    const packed = new Packr().pack({ entities: { "goblin-1": { health: 2 } }, removed: ["goblin-2"] });
+    server.send("compressedUpdate", { data: deflateSync(packed) });
+    server.send("correction", { position: { x: 2, y: 0, z: 1 }, seq: 7 });
+    server.send("inputAck", { seq: 7 });
+    await server.flush();
+
+    expect(client.state.nearbyEntities.get("goblin-1")).toMatchObject({ position: [6, 0, 6], health: 2 });
+    expect(client.state.nearbyEntities.has("goblin-2")).toBe(false);
+    expect(client.state.nearbyEntities.has("unknown-1")).toBe(false);
+    expect(client.state.playerEntity?.position).toEqual([2, 0, 1]);
+    expect(client.state.lastInputAck).toBe(7);
+  });
+
+  it("flags and prunes entities the server stopped updating", async () => {
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 60000 });
+    try {
+      server.modifyEntity({ id: PLAYER.id, health: 9 });
+      server.addEntity(goblin("goblin-2"));
+      await server.flush();
+
+      expect(client.getStaleEntities().map(e => e.id)).toEqual(["goblin-1"]);
+      expect(client.getStateContext()).toMatch(/id:goblin-1 \(not updated for 60s\)/);
+      expect(client.getStateContext()).not.toMatch(/id:goblin-2 \(not updated/);
+
+      expect(client.pruneStaleEntities()).toEqual(["goblin-1"]);
+      expect(client.state.nearbyEntities.has("goblin-1")).toBe(false);
+      expect(client.getEntityLastSeen("goblin-2")).toBe(Date.now());
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("tracks death and respawn", async () => {
+    const onDeath = vi.fn();
+    client.on("death", onDeath);
+
+    server.killPlayer(PLAYER, "goblin-1");
+    await server.flush();
+    expect(client.state.playerEntity?.isDead).toBe(true);
+    expect(onDeath).toHaveBeenCalledWith({ killedBy: "goblin-1" });
+
+    server.respawnPlayer(PLAYER, [10, 0, 10]);
+    await server.flush();
+    expect(client.state.playerEntity?.isDead).toBe(false);
+    expect(client.state.playerEntity?.position).toEqual([10, 0, 10]);
+  });
+
+  it("stores bank state", async () => {
+    server.sendBankState([{ itemId: "logs", quantity: 50, slot: 0 }], 1234);
+    await server.flush();
+
+    expect(client.state.bankOpen).toBe(true);
+    expect(client.state.bankItems).toHaveLength(1);
+    expect(client.state.bankCoins).toBe(1234);
+    expect(client.getBankContext()).toContain("logs x50");
+  });
+
+  it("encodes outgoing packets with the shared packet IDs", async () => {
+    client.move([1, 0, 2], true);
+    expect(await server.waitForPacket("moveRequest")).toEqual({ target: [1, 0, 2], runMode: true });
+  });
+
+  describe("awaitable commands", () => {
+    it("resolves when the confirming packet arrives", async () => {
+      server.reply("pickupItem", "inventoryUpdated", {
+        items: [{ itemId: "bones", quantity: 1, slot: 0 }],
+      });
+
+      const result = await client.pickup("bones");
+
+      expect(result.success).toBe(true);
+      expect(result.resolvedBy).toBe("inventoryUpdated");
+      expect(client.state.playerEntity?.inventory).toHaveLength(1);
+    });
+
+    it("fails on an error toast", async () => {
+      server.reply("equipItem", "showToast", { message: "You need level 40 Attack", type: "error" });
+
+      const result = await client.equip("rune_sword");
+
+      expect(result).toMatchObject({ success: false, resolvedBy: "showToast", message: "You need level 40 Attack" });
+    });
+
+    it("fails on the command's failure packet", async () => {
+      server.reply("castSpell", "abilityFailed", { abilityId: "fire_bolt", reason: "Not enough runes" });
+
+      const result = await client.castSpell("fire_bolt", "goblin-1");
+
+      expect(result).toMatchObject({ success: false, message: "Not enough runes" });
+      expect(client.state.lastAbilityFailure?.reason).toBe("Not enough runes");
+    });
+
+    it("ignores confirmations meant for something else", async () => {
+      server.onPacket("attackMob", (_data, connection) => {
+        connection.send("combatDamageDealt", { attackerId: "goblin-1", targetId: PLAYER.id, damage: 1 });
+        connection.send("combatDamageDealt", { attackerId: PLAYER.id, targetId: "goblin-1", damage: 2 });
+      });
+      server.onPacket("pickupItem", (_data, connection) => {
+        connection.send("inventoryUpdated", { items: [] });
+        connection.send("inventoryUpdated", { items: [{ itemId: "bones", quantity: 1, slot: 0 }] });
+      });
+
+      const attack = await client.attack("goblin-1");
+      const pickup = await client.pickup("bones");
+
+      expect(attack).toMatchObject({ success: true, data: { attackerId: PLAYER.id } });
+      expect(pickup).toMatchObject({ success: true, data: { items: [{ itemId: "bones" }] } });
+    });
+
+    it("waits for the first hit while the server walks us to the target", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      try {
+        const attack = client.attack("goblin-1");
+        await vi.advanceTimersByTimeAsync(8000);
+        server.send("combatDamageDealt", { attackerId: PLAYER.id, targetId: "goblin-1", damage: 2 });
+        expect(await attack).toMatchObject({ success: true });
+        expect(client.state.currentTarget).toBe("goblin-1");
+
+        const missed = client.attackPlayer("player-2");
+        await vi.advanceTimersByTimeAsync(15000);
+        expect(await missed).toMatchObject({ success: false, resolvedBy: "timeout" });
+        expect(client.state.currentTarget).toBeNull();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("only fails commands that expect error toasts", async () => {
+      server.reply("changeAttackStyle", "showToast", { message: "Something else went wrong", type: "error" });
+
+      const result = await client.changeAttackStyle("aggressive");
+
+      expect(result).toMatchObject({ success: false, resolvedBy: "timeout" });
+    });
+
+    it("times out when the server stays silent", async () => {
+      const result = await client.bankWithdraw("logs", 5);
+      expect(result).toMatchObject({ success: false, resolvedBy: "timeout" });
+    });
+
+    it("fails immediately when not connected", async () => {
+      client.disconnect();
+      const result = await client.attack("goblin-1");
+      expect(result).toMatchObject({ success: false, resolvedBy: "notSent" });
+    });
+
+    it("succeeds after a quiet window when the server only answers failures", async () => {
+      server.onPacket("privateMessage", (data, connection) => {
+        if ((data as { targetName: string }).targetName === "Ghost") {
+          connection.send("privateMessageFailed", { reason: "Player is offline" });
+        }
+      });
+
+      expect(await client.privateMessage("Bob", "hi")).toMatchObject({ success: true, resolvedBy: "quiet" });
+      expect(await client.privateMessage("Ghost", "boo")).toMatchObject({ success: false, message: "Player is offline" });
+      expect(client.state.social.messages.map(m => m.message)).toEqual(["hi"]);
+    });
+
+    it("only drops an abandoned quest once the quest list shows it", async () => {
+      server.send("questProgressed", { questId: "cooks_assistant", step: { id: "eggs", description: "Get an egg", completed: false } });
+      await server.flush();
+
+      expect(await client.abandonQuest("cooks_assistant")).toMatchObject({ success: false, resolvedBy: "timeout" });
+      expect(client.state.quests.get("cooks_assistant")?.status).toBe("active");
+
+      server.reply("questAbandon", "questList", { quests: [{ questId: "sheep_shearer", status: "active" }] });
+      expect(await client.abandonQuest("cooks_assistant")).toMatchObject({ success: true, resolvedBy: "questList" });
+      expect(client.state.quests.get("cooks_assistant")).toMatchObject({ status: "available", steps: [] });
+    });
+
+    it("keeps private messages that were not sent out of the history", async () => {
+      await client.privateMessage("Bob", "hi");
+      client.disconnect();
+
+      expect(await client.privateMessage("Bob", "still there?")).toMatchObject({ success: false, resolvedBy: "notSent" });
+      expect(client.state.social.messages.map(m => m.message)).toEqual(["hi"]);
+    });
+
+    it("keeps chat lines that were not sent out of the history", async () => {
+      await client.chat("hello");
+      client.disconnect();
+
+      expect(await client.chat("anyone?")).toMatchObject({ success: false, resolvedBy: "notSent" });
+      expect(client.state.chatHistory.get("local")?.map(m => m.body)).toEqual(["hello"]);
+    });
+  });
+
+  describe("reconnection", () => {
+    const reconnectClient = async (reconnect = {}) => {
+      client.disconnect();
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      client = await connectClient(server, [], {
+        autoReconnect: true,
+        authToken: "token-1",
+        reconnect: { initialDelayMs: 5, jitter: 0, ...reconnect },
+      });
+      server.reply("enterWorld", "enterWorldApproved", { characterId: "char-1" });
+      await client.enterWorld("char-1");
+    };
+
+    it("re-authenticates and re-enters the world after being kicked", async () => {
+      await reconnectClient();
+      const reconnecting = vi.fn();
+      client.on("reconnecting", reconnecting);
+      const reconnected = new Promise(resolve => client.once("reconnected", resolve));
+
+      server.send("kick", { reason: "Server restarting" });
+      await server.flush();
+      server.disconnectAll(4000, "kicked");
+      await reconnected;
+
+      expect(reconnecting).toHaveBeenCalledWith({ attempt: 1, delayMs: 5 });
+      expect(server.receivedPackets("authenticate")).toHaveLength(2);
+      expect(server.receivedPackets("characterSelected")).toEqual([{ characterId: "char-1" }, { characterId: "char-1" }]);
+      expect(server.receivedPackets("clientReady")).toHaveLength(1);
+      expect(client.getConnectionHealth()).toMatchObject({
+        status: "connected",
+        reconnectCount: 1,
+        reconnectAttempt: 0,
+        lastDisconnect: { code: 4000, reason: "Server restarting", kick: { reason: "Server restarting" } },
+      });
+    });
+
+    it("backs off exponentially and gives up after maxAttempts", async () => {
+      await reconnectClient({ maxAttempts: 3 });
+      const delays: number[] = [];
+      client.on("reconnecting", (data: { delayMs: number }) => delays.push(data.delayMs));
+      const failed = new Promise(resolve => client.once("reconnectFailed", resolve));
+
+      server.setRefuseConnections(true);
+      server.disconnectAll();
+
+      expect(await failed).toMatchObject({ attempts: 3, lastDisconnect: { reason: "server closed" } });
+      expect(delays).toEqual([5, 10, 20]);
+      expect(client.getConnectionHealth().status).toBe("disconnected");
+    });
+
+    it("measures latency from pong", async () => {
+      server.send("pong", { timestamp: Date.now() - 40 });
+      await server.flush();
+
+      expect(client.getConnectionHealth().latencyMs).toBeGreaterThanOrEqual(40);
+      expect(client.getConnectionContext()).toContain("**Connection:** connected");
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import { LatencyTracker, computeServerTimeOffset, serverNow } from "../src/clock.js";
+import { checkGuardrails } from "../src/autonomy/guardrails.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { connectClient } from "./helpers.js";
+
+describe("LatencyTracker", () => {
+  it("reports min, average and p95 round trips", () => {
+    const latency = new LatencyTracker();
+    expect(latency.getStats()).toEqual({ samples: 0, lastMs: null, minMs: null, avgMs: null, p95Ms: null });
+
+    for (let ms = 10; ms <= 200; ms += 10) latency.record(ms);
+
+    expect(latency.getStats()).toEqual({ samples: 20, lastMs: 200, minMs: 10, avgMs: 105, p95Ms: 190 });
+  });
+
+  it("corrects server time by half a round trip", () => {
+    expect(computeServerTimeOffset(10_000, 9_000, 100)).toBe(1_050);
+    expect(computeServerTimeOffset(10_000, 9_000, null)).toBe(1_000);
+  });
+});
+
+describe("server clock", () => {
+  const NOW = new Date("2026-01-01T12:00:00Z").getTime();
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ["Date", "performance"], now: NOW });
+    server = new MockHyperscapeServer();
+    client = await connectClient(server);
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("tracks latency from pongs to the initial ping", async () => {
+    const [ping] = server.receivedPackets("ping") as Array<{ timestamp: number }>;
+    vi.setSystemTime(NOW + 80);
+    server.send("pong", ping);
+    await server.flush();
+
+    expect(client.getConnectionHealth().latency).toMatchObject({ samples: 1, lastMs: 80, minMs: 80, p95Ms: 80 });
+  });
+
+  it("derives the server time offset from worldTimeSync", async () => {
+    server.send("worldTimeSync", { serverTime: NOW + 5_000 });
+    await server.flush();
+
+    expect(client.state.serverTimeOffset).toBe(5_000);
+    expect(client.serverNow()).toBe(NOW + 5_000);
+    expect(serverNow(client.state)).toBe(NOW + 5_000);
+    expect(client.getConnectionContext()).toContain("**Server clock:** +5000ms vs local");
+  });
+
+  it("reads cooldown timestamps on the server clock", async () => {
+    server.send("worldTimeSync", { serverTime: NOW + 60_000 });
+    server.send("abilityCooldown", { abilityId: "fire_bolt", cooldownMs: 3_000, readyAt: NOW + 62_000 });
+    await server.flush();
+
+    expect(client.getCooldownRemaining("fire_bolt")).toBe(2_000);
+    const cast = { tool: "hyperscape_cast_spell", params: { spellId: "fire_bolt" } };
+    expect(checkGuardrails(client.state, cast).allowed).toBe(false);
+
+    vi.advanceTimersByTime(2_000);
+    expect(checkGuardrails(client.state, cast).allowed).toBe(true);
+    expect(client.getCooldownRemaining("fire_bolt")).toBe(0);
+  });
+
+  it("keeps running cooldowns when the clock offset changes", async () => {
+    server.send("abilityCooldown", { abilityId: "wind_strike", cooldownMs: 3_000 });
+    await server.flush();
+    server.send("worldTimeSync", { serverTime: NOW + 60_000 });
+    await server.flush();
+
+    expect(client.getCooldownRemaining("wind_strike")).toBe(3_000);
+  });
+});
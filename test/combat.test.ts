@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { assessThreat, getCombatLevel, selectCombatTarget } from "../src/combat.js";
+import { checkGuardrails } from "../src/autonomy/guardrails.js";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { PLAYER, connectClient, goblin } from "./helpers.js";
+
+describe("getCombatLevel", () => {
+  it("uses the best of melee, ranged and magic plus prayer", () => {
+    expect(getCombatLevel()).toBe(3);
+    const maxed = Object.fromEntries(
+      ["attack", "strength", "defence", "hitpoints", "prayer", "ranged", "magic"].map(s => [s, { level: 99, xp: 0 }]));
+    expect(getCombatLevel(maxed)).toBe(126);
+    expect(getCombatLevel({
+      defence: { level: 40, xp: 0 },
+      hitpoints: { level: 40, xp: 0 },
+      ranged: { level: 70, xp: 0 },
+    })).toBe(54);
+  });
+});
+
+describe("threat assessment", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("improves with equipment bonuses", async () => {
+    client = await connectClient(server, [goblin("goblin-1", { level: 5 })]);
+    const mob = client.state.nearbyEntities.get("goblin-1")!;
+    const unarmed = assessThreat(client.state, mob);
+
+    client.state.playerEntity!.equipment = {
+      weapon: { itemId: "steel_sword", slot: "weapon", bonuses: { attack: 30, strength: 40 } },
+      body: { itemId: "steel_platebody", slot: "body", bonuses: { defence: 50 } },
+    };
+    const armed = assessThreat(client.state, mob);
+
+    expect(armed.style).toBe("melee");
+    expect(armed.expectedHitDealt).toBeGreaterThan(unarmed.expectedHitDealt);
+    expect(armed.expectedHitTaken).toBeLessThan(unarmed.expectedHitTaken);
+    expect(armed.winProbability).toBeGreaterThan(unarmed.winProbability);
+  });
+
+  it("learns from observed hits and warns before a losing fight", async () => {
+    client = await connectClient(server, [goblin("goblin-1"), goblin("goblin-2", { name: "Goblin chief", level: 3 })]);
+    const attackChief = { tool: "hyperscape_attack", params: { targetId: "goblin-2" } };
+    expect(checkGuardrails(client.state, attackChief).warnings).toHaveLength(0);
+    expect(selectCombatTarget(client.state)?.mobId).toBe("goblin-1");
+
+    // The chief hits far harder than its level suggests
+    for (let i = 0; i < 10; i++) {
+      server.send("combatDamageDealt", { attackerId: "goblin-2", targetId: PLAYER.id, damage: 4 });
+    }
+    server.send("combatDamageDealt", { targetId: "goblin-2", damage: 0 });
+    server.send("combatDamageDealt", { attackerId: "other-player", targetId: "goblin-1", damage: 9 });
+    await server.flush();
+
+    expect(client.state.combatHits).toHaveLength(11);
+    const chief = assessThreat(client.state, client.state.nearbyEntities.get("goblin-2")!);
+    expect(chief.expectedHitTaken).toBeGreaterThan(2);
+    expect(["high", "deadly"]).toContain(chief.threat);
+    expect(checkGuardrails(client.state, attackChief).warnings[0]).toContain("likely to beat you");
+    expect(selectCombatTarget(client.state)?.mobId).toBe("goblin-1");
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { gatherUntil } from "../src/gathering.js";
+import { MockHyperscapeServer, type MockConnection } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import type { Entity } from "../src/types.js";
+import { PLAYER, connectClient } from "./helpers.js";
+
+function tree(id: string, x: number): Entity {
+  return { id, type: "tree", name: "Willow Tree", position: [x, 0, 0] };
+}
+
+/**
+ * Script a server where each node yields `logsPerNode` logs (25 woodcutting XP each) then depletes
+ */
+function scriptWoodcutting(server: MockHyperscapeServer, logsPerNode: number) {
+  let logs = 0;
+  const yieldLog = (connection: MockConnection) => {
+    logs++;
+    connection.send("gatheringComplete", {});
+    connection.send("inventoryUpdated", {
+      items: Array.from({ length: logs }, (_, slot) => ({ slot, itemId: "willow_logs", name: "Willow logs", quantity: 1 })),
+    });
+    connection.send("xpDrop", { skill: "woodcutting", xp: 25, totalXp: logs * 25, level: 1 });
+  };
+
+  server.onPacket("resourceInteract", (data, connection) => {
+    const { resourceId } = data as { resourceId: string };
+    connection.send("gatheringStarted", { resourceId });
+    connection.send("gatheringToolShow", { playerId: PLAYER.id, itemId: "bronze_hatchet" });
+    setTimeout(() => {
+      for (let i = 0; i < logsPerNode; i++) yieldLog(connection);
+      connection.send("resourceDepleted", { resourceId, respawnTime: 60000 });
+      connection.send("gatheringToolHide", { playerId: PLAYER.id });
+    }, 5);
+  });
+}
+
+describe("gatherUntil", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("moves to the next node on depletion and stops at the item target", async () => {
+    scriptWoodcutting(server, 3);
+    client = await connectClient(server, [tree("willow-1", 2), tree("willow-2", 6)]);
+
+    const summary = await gatherUntil(client, { type: "willow", maxItems: 5 });
+
+    expect(summary).toMatchObject({
+      success: true,
+      stopReason: "item_target",
+      nodesUsed: 2,
+      depletions: 1,
+    });
+    // The mock yields a whole node's logs at once, so the second node may overshoot
+    expect(summary.itemsGained["Willow logs"]).toBeGreaterThanOrEqual(5);
+    expect(summary.xpGained.woodcutting).toBe(summary.itemsGained["Willow logs"] * 25);
+    expect((server.receivedPackets("resourceInteract") as Array<{ resourceId: string }>).map(p => p.resourceId))
+      .toEqual(["willow-1", "willow-2"]);
+  });
+
+  it("stops at an XP target in one skill", async () => {
+    scriptWoodcutting(server, 10);
+    client = await connectClient(server, [tree("willow-1", 2)]);
+
+    const summary = await gatherUntil(client, { xpTarget: 50, xpSkill: "woodcutting" });
+
+    expect(summary.stopReason).toBe("xp_target");
+    expect(summary.totalXp).toBeGreaterThanOrEqual(50);
+  });
+
+  it("interrupts the gathering action when a stop condition is met", async () => {
+    server.onPacket("resourceInteract", (data, connection) => {
+      connection.send("gatheringStarted", data);
+      setTimeout(() => connection.send("xpDrop", { skill: "woodcutting", xp: 25, totalXp: 25, level: 1 }), 5);
+    });
+    client = await connectClient(server, [tree("willow-1", 2)]);
+
+    const summary = await gatherUntil(client, { xpTarget: 25 });
+    await server.flush();
+
+    expect(summary.stopReason).toBe("xp_target");
+    expect(server.receivedPackets("moveRequest")).toEqual([{ target: [0, 0, 0], runMode: false }]);
+  });
+
+  it("skips a node that stops gathering before giving anything", async () => {
+    server.onPacket("resourceInteract", (data, connection) => {
+      const { resourceId } = data as { resourceId: string };
+      connection.send("gatheringStarted", { resourceId });
+      if (resourceId === "willow-1") {
+        connection.send("gatheringStopped", { resourceId });
+        return;
+      }
+      connection.send("gatheringComplete", {});
+      connection.send("inventoryUpdated", { items: [{ slot: 0, itemId: "willow_logs", name: "Willow logs", quantity: 1 }] });
+    });
+    client = await connectClient(server, [tree("willow-1", 2), tree("willow-2", 6)]);
+
+    const summary = await gatherUntil(client, { maxItems: 1 });
+
+    expect(summary).toMatchObject({ success: true, stopReason: "item_target", nodesUsed: 1 });
+    expect((server.receivedPackets("resourceInteract") as Array<{ resourceId: string }>).map(p => p.resourceId))
+      .toEqual(["willow-1", "willow-2"]);
+  });
+
+  it("reports when there is nothing to gather", async () => {
+    client = await connectClient(server, []);
+
+    const summary = await gatherUntil(client, { type: "rock" });
+
+    expect(summary).toMatchObject({ success: false, stopReason: "no_resources", totalItems: 0 });
+  });
+});
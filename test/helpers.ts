@@ -0,0 +1,50 @@
+import { HyperscapeClient } from "../src/client.js";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { ConnectionConfig, Entity, PlayerEntity } from "../src/types.js";
+
+export const PLAYER: PlayerEntity = {
+  id: "player-1",
+  type: "player",
+  name: "Tester",
+  position: [0, 0, 0],
+  health: 10,
+  maxHealth: 10,
+  skills: {
+    attack: { level: 1, xp: 0 },
+    strength: { level: 1, xp: 0 },
+    defence: { level: 1, xp: 0 },
+    hitpoints: { level: 10, xp: 1154 },
+  },
+  inventory: [],
+  equipment: { weapon: { itemId: "bronze_sword", slot: "weapon" } },
+};
+
+export function goblin(id = "goblin-1", overrides: Partial<Entity> = {}): Entity {
+  return { id, type: "mob", name: "Goblin", level: 2, health: 5, maxHealth: 5, position: [5, 0, 5], ...overrides };
+}
+
+/**
+ * Connect a client to the mock server and deliver an initial snapshot
+ */
+export async function connectClient(
+  server: MockHyperscapeServer,
+  entities: Entity[] = [],
+  config: Partial<ConnectionConfig> = {},
+): Promise<HyperscapeClient> {
+  const client = new HyperscapeClient({
+    serverUrl: "ws://mock",
+    autoReconnect: false,
+    commandTimeout: 200,
+    quietWindow: 20,
+    transport: server.transport,
+    ...config,
+  });
+  await client.connect();
+  server.sendSnapshot({
+    playerId: PLAYER.id,
+    worldId: "world-1",
+    entities: [structuredClone(PLAYER), ...entities.map(e => structuredClone(e))],
+  });
+  await server.flush();
+  return client;
+}
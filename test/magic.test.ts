@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { connectClient, goblin } from "./helpers.js";
+
+describe("prayer", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+    client = await connectClient(server);
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("syncs active prayers and prayer points", async () => {
+    server.send("prayerStateSync", { activePrayers: ["thick_skin"], prayerPoints: 8, maxPrayerPoints: 10 });
+    await server.flush();
+
+    expect(client.state.activePrayers).toEqual(["thick_skin"]);
+    expect(client.state.playerEntity).toMatchObject({ prayerPoints: 8, maxPrayerPoints: 10 });
+  });
+
+  it("toggles prayers on the server's confirmation", async () => {
+    server.reply("prayerToggle", "prayerToggled", (data) => ({ prayerId: (data as { prayerId: string }).prayerId, active: true }));
+    server.send("prayerStateSync", { activePrayers: ["thick_skin"] });
+    await server.flush();
+
+    expect(await client.prayerToggle("burst_of_strength")).toMatchObject({ success: true, resolvedBy: "prayerToggled" });
+    expect(client.state.activePrayers).toEqual(["thick_skin", "burst_of_strength"]);
+
+    server.send("prayerToggled", { prayerId: "thick_skin", active: false });
+    await server.flush();
+    expect(client.state.activePrayers).toEqual(["burst_of_strength"]);
+  });
+
+  it("switches prayers off when points run out or on deactivate all", async () => {
+    server.send("prayerStateSync", { activePrayers: ["thick_skin"], prayerPoints: 1 });
+    server.send("prayerPointsChanged", { prayerPoints: 0 });
+    await server.flush();
+    expect(client.state.activePrayers).toEqual([]);
+    expect(client.state.playerEntity?.prayerPoints).toBe(0);
+
+    server.reply("altarPray", "prayerPointsChanged", { prayerPoints: 10, maxPrayerPoints: 10 });
+    expect(await client.altarPray("altar-1")).toMatchObject({ success: true });
+    expect(client.state.playerEntity?.prayerPoints).toBe(10);
+
+    server.send("prayerStateSync", { activePrayers: ["thick_skin", "clarity"] });
+    server.reply("prayerDeactivateAll", "prayerStateSync", { activePrayers: [] });
+    await server.flush();
+    expect(await client.prayerDeactivateAll()).toMatchObject({ success: true });
+    expect(client.state.activePrayers).toEqual([]);
+  });
+});
+
+describe("spells and abilities", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+    client = await connectClient(server, [goblin()]);
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("casts a spell and starts its cooldown", async () => {
+    server.reply("castSpell", "spellCast", { spellId: "wind_strike", cooldownMs: 2400 });
+
+    const result = await client.castSpell("wind_strike", "goblin-1");
+
+    expect(result).toMatchObject({ success: true, resolvedBy: "spellCast" });
+    expect(server.receivedPackets("castSpell")).toEqual([{ spellId: "wind_strike", targetId: "goblin-1" }]);
+    expect(client.state.currentTarget).toBe("goblin-1");
+    expect(client.getCooldownRemaining("wind_strike")).toBeGreaterThan(2000);
+  });
+
+  it("records why a spell failed until it is cast again", async () => {
+    server.send("abilityFailed", { abilityId: "fire_bolt", reason: "Not enough runes" });
+    server.send("abilityFailed", { abilityId: "wind_strike", reason: "Out of range" });
+    await server.flush();
+    expect(client.state.lastAbilityFailure).toMatchObject({ abilityId: "wind_strike", reason: "Out of range" });
+
+    // Another spell succeeding leaves the failure in place
+    server.send("spellCast", { spellId: "fire_bolt" });
+    await server.flush();
+    expect(client.state.lastAbilityFailure?.abilityId).toBe("wind_strike");
+
+    server.reply("castSpell", "spellCast", { spellId: "wind_strike" });
+    await client.castSpell("wind_strike", "goblin-1");
+    expect(client.state.lastAbilityFailure).toBeNull();
+  });
+
+  it("ignores failures for other spells while waiting for a cast", async () => {
+    server.onPacket("castSpell", (_data, connection) => {
+      connection.send("abilityFailed", { abilityId: "fire_bolt", reason: "Not enough runes" });
+      connection.send("spellCast", { spellId: "wind_strike" });
+    });
+
+    expect(await client.castSpell("wind_strike", "goblin-1")).toMatchObject({ success: true });
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AgentMetrics } from "../src/autonomy/metrics.js";
+import { createAutonomousAgent, type AutonomousAgent } from "../src/autonomy/agent.js";
+import type { AgentEvent, AgentEventPayloads, AgentEventType } from "../src/autonomy/events.js";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { PLAYER, connectClient, goblin } from "./helpers.js";
+
+const START = 1_700_000_000_000;
+const MINUTE = 60000;
+
+function event<T extends AgentEventType>(type: T, minute: number, data: AgentEventPayloads[T]): AgentEvent {
+  return { type, level: "info", timestamp: START + minute * MINUTE, message: "", data } as AgentEvent;
+}
+
+describe("AgentMetrics", () => {
+  it("reports rates and goal success over rolling windows", () => {
+    const metrics = new AgentMetrics();
+    metrics.reset(START);
+    metrics.write(event("xp_gained", 5, { skill: "woodcutting", xp: 500, totalXp: 500, level: 5, sessionXp: 500 }));
+    metrics.write(event("coins_changed", 10, { coins: 300, delta: 300 }));
+    metrics.write(event("goal_selected", 10, { goalId: "train_combat", goalName: "Train", category: "combat" }));
+    metrics.write(event("goal_completed", 20, { goalId: "train_combat", goalName: "Train", durationMs: 10 * MINUTE }));
+    metrics.write(event("goal_selected", 50, { goalId: "train_combat", goalName: "Train", category: "combat" }));
+    metrics.write(event("death", 52, { killedBy: "Goblin, the Strong", deaths: 1 }));
+    metrics.write(event("goal_failed", 52, { goalId: "train_combat", goalName: "Train", reason: "death", durationMs: 2 * MINUTE }));
+    metrics.write(event("xp_gained", 55, { skill: "attack", xp: 100, totalXp: 100, level: 1, sessionXp: 100 }));
+    metrics.write(event("status", 55, {}));
+
+    const now = START + 60 * MINUTE;
+    expect(metrics.getSummary(null, now)).toMatchObject({
+      xpPerHour: { woodcutting: 500, attack: 100 },
+      totalXpPerHour: 600,
+      gpPerHour: 300,
+      deathsPerHour: 1,
+      goals: { train_combat: { selected: 2, completed: 1, failed: 1, successRate: 0.5 } },
+      goalSuccessRate: 0.5,
+    });
+    // Last 15 minutes: only the death, the failed goal and the attack XP
+    expect(metrics.getSummary(15 * MINUTE, now)).toMatchObject({
+      xpPerHour: { attack: 400 },
+      gpPerHour: 0,
+      deathsPerHour: 4,
+      goalSuccessRate: 0,
+    });
+
+    const csv = metrics.toCsv().trim().split("\n");
+    expect(csv[0]).toBe("timestamp,metric,key,value");
+    expect(csv).toHaveLength(9);
+    expect(csv).toContain(`${new Date(START + 52 * MINUTE).toISOString()},death,"Goblin, the Strong",1`);
+  });
+
+  it("exports JSON or CSV by file extension", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "metrics-"));
+    try {
+      const metrics = new AgentMetrics();
+      metrics.write(event("coins_changed", 0, { coins: 50, delta: 50 }));
+
+      expect(await metrics.export(join(dir, "run.csv"))).toBe("csv");
+      expect(await readFile(join(dir, "run.csv"), "utf8")).toContain(",gp,,50");
+
+      expect(await metrics.export(join(dir, "out", "run.json"))).toBe("json");
+      const json = JSON.parse(await readFile(join(dir, "out", "run.json"), "utf8"));
+      expect(json.summaries).toHaveLength(3);
+      expect(json.samples).toEqual([{ timestamp: START, metric: "gp", key: "", value: 50 }]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("AutonomousAgent metrics", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+  let agent: AutonomousAgent;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+  });
+
+  afterEach(async () => {
+    await agent?.stop();
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("records coin changes and fails the current goal on death", async () => {
+    client = await connectClient(server, [goblin()]);
+    server.reply("attackMob", "combatDamageDealt", { attackerId: PLAYER.id, targetId: "goblin-1", damage: 1 });
+    agent = createAutonomousAgent(client, { tickInterval: 5 });
+
+    await agent.start();
+    await server.waitForPacket("attackMob");
+    server.send("coinsUpdated", { coins: 25 });
+    server.send("coinsUpdated", { coins: 40 });
+    server.killPlayer(PLAYER);
+    await server.waitForPacket("requestRespawn");
+
+    const samples = agent.getMetrics().getSamples();
+    expect(samples.filter(s => s.metric === "gp").map(s => s.value)).toEqual([15]);
+    expect(samples.find(s => s.metric === "goal_failed")).toMatchObject({ key: "train_combat" });
+    expect(agent.getMetrics().getSummary().goals.train_combat).toMatchObject({ failed: 1, successRate: 0 });
+  });
+});
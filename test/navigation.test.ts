@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WalkableGrid, findPath, simplifyPath } from "../src/navigation.js";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { PLAYER, connectClient, goblin } from "./helpers.js";
+
+describe("findPath", () => {
+  it("routes around blocked tiles without cutting corners", () => {
+    const grid = new WalkableGrid();
+    // Wall at x = 2 from z = -1 to z = 3, gap below
+    for (let z = -1; z <= 3; z++) grid.markBlocked({ x: 2, z });
+
+    const path = findPath(grid, { x: 0, z: 0 }, { x: 4, z: 0 });
+
+    expect(path?.[0]).toEqual({ x: 0, z: 0 });
+    expect(path?.at(-1)).toEqual({ x: 4, z: 0 });
+    expect(path?.some(t => t.x === 2 && t.z >= -1 && t.z <= 3)).toBe(false);
+  });
+
+  it("prefers learned walkable tiles and fails when the goal is blocked", () => {
+    const grid = new WalkableGrid();
+    for (let x = 1; x <= 5; x++) grid.markWalkable({ x, z: 1 });
+
+    const path = findPath(grid, { x: 0, z: 0 }, { x: 6, z: 0 })!;
+    expect(path.filter(t => t.z === 1)).toHaveLength(5);
+
+    grid.markBlocked({ x: 6, z: 0 });
+    expect(findPath(grid, { x: 0, z: 0 }, { x: 6, z: 0 })).toBeNull();
+  });
+
+  it("simplifies to turns and capped straight segments", () => {
+    const path = [0, 1, 2, 3, 4].map(x => ({ x, z: 0 })).concat([{ x: 4, z: 1 }]);
+    expect(simplifyPath(path, 2)).toEqual([{ x: 2, z: 0 }, { x: 4, z: 0 }, { x: 4, z: 1 }]);
+  });
+});
+
+describe("Navigator", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  const navigation = { checkIntervalMs: 5, stuckTimeoutMs: 30, maxReplans: 2 };
+
+  it("walks waypoints and learns tiles from movement packets", async () => {
+    // Server moves the player to wherever it is asked to go
+    server.onPacket("moveRequest", (data, connection) => {
+      const [x, y, z] = (data as { target: [number, number, number] }).target;
+      connection.send("tileMovementEnd", { id: PLAYER.id, tile: { x: Math.floor(x), z: Math.floor(z) }, worldPos: [x, y, z] });
+    });
+    client = await connectClient(server, [], { navigation: { ...navigation, maxSegmentTiles: 4 } });
+
+    const result = await client.navigation.navigateTo(10, 0);
+
+    expect(result).toMatchObject({ success: true, outcome: "arrived" });
+    expect(server.receivedPackets("moveRequest").length).toBeGreaterThan(1);
+    expect(client.state.playerEntity?.position).toEqual([10, 0, 0]);
+    expect(client.navigation.grid.isWalkable({ x: 10, z: 0 })).toBe(true);
+  });
+
+  it("walks to a target inside the player's own tile", async () => {
+    client = await connectClient(server, [], { navigation });
+    client.state.playerEntity!.position = [0.05, 0, 0.05];
+
+    server.onPacket("moveRequest", (data, connection) => {
+      const [x, y, z] = (data as { target: [number, number, number] }).target;
+      connection.send("tileMovementEnd", { id: PLAYER.id, tile: { x: Math.floor(x), z: Math.floor(z) }, worldPos: [x, y, z] });
+    });
+    const arrived = await client.navigation.navigateTo(0.95, 0.95, { timeoutMs: 1000, arriveDistance: 0.5 });
+
+    expect(arrived.outcome).toBe("arrived");
+    expect(server.receivedPackets("moveRequest").at(-1)).toMatchObject({ target: [0.95, 0, 0.95] });
+  });
+
+  it("marks tiles blocked when stuck and gives up after replanning", async () => {
+    client = await connectClient(server, [], { navigation });
+    const stuck: unknown[] = [];
+    client.navigation.on("stuck", tile => stuck.push(tile));
+
+    const result = await client.navigation.navigateTo(5, 0);
+
+    expect(result.outcome).toBe("stuck");
+    expect(result.replans).toBe(3);
+    expect(stuck).toHaveLength(3);
+    expect(client.navigation.grid.blockedCount).toBe(3);
+  });
+
+  it("goes to the nearest entity of a type", async () => {
+    server.onPacket("moveRequest", (data, connection) => {
+      const [x, y, z] = (data as { target: [number, number, number] }).target;
+      connection.send("entityTileUpdate", { id: PLAYER.id, tile: { x: Math.floor(x), z: Math.floor(z) }, worldPos: [x, y, z] });
+    });
+    client = await connectClient(server, [goblin("far", { position: [20, 0, 20] }), goblin("near", { position: [3, 0, 0] })], { navigation });
+
+    const result = await client.navigation.goToNearest("mob");
+
+    expect(result.entity?.id).toBe("near");
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createAutonomousAgent, type AutonomousAgent } from "../src/autonomy/agent.js";
+import type { AgentEvent } from "../src/autonomy/events.js";
+import { parseToolCall, type CompletionMessage } from "../src/autonomy/planner.js";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { PLAYER, connectClient, goblin } from "./helpers.js";
+
+describe("parseToolCall", () => {
+  it("reads THINKING and a JSON tool call", () => {
+    const decision = parseToolCall('THINKING: Goblin is weak.\nACTION: {"tool": "hyperscape_attack", "params": {"targetId": "g-1"}}');
+    expect(decision).toEqual({ thinking: "Goblin is weak.", action: { tool: "hyperscape_attack", params: { targetId: "g-1" } } });
+  });
+
+  it("accepts fenced name/arguments calls and explicit no-op", () => {
+    const fenced = parseToolCall('THINKING: go\nACTION:\n```json\n{"name": "hyperscape_move", "arguments": "{\\"x\\": 1, \\"z\\": 2}"}\n```');
+    expect(fenced?.action).toEqual({ tool: "hyperscape_move", params: { x: 1, z: 2 } });
+    expect(parseToolCall("THINKING: resting\nACTION: none")).toEqual({ thinking: "resting", action: null });
+    expect(parseToolCall("I think I will attack")).toBeNull();
+  });
+});
+
+describe("AutonomousAgent planner", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+  let agent: AutonomousAgent;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+  });
+
+  afterEach(async () => {
+    await agent?.stop();
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("executes the tool call chosen by the model", async () => {
+    client = await connectClient(server, [goblin("goblin-1", { level: 1 }), goblin("goblin-2", { level: 3 })]);
+    const prompts: CompletionMessage[][] = [];
+    const complete = async (messages: CompletionMessage[]) => {
+      prompts.push(messages);
+      return 'THINKING: The level 3 goblin gives more XP.\nACTION: {"tool": "hyperscape_attack", "params": {"targetId": "goblin-2"}}';
+    };
+    agent = createAutonomousAgent(client, { tickInterval: 5, complete });
+
+    await agent.start();
+    expect(await server.waitForPacket("attackMob")).toMatchObject({ mobId: "goblin-2" });
+
+    const user = prompts[0][1].content;
+    expect(user).toContain("Train Combat Skills");
+    expect(user).toContain("Goblin");
+    expect(user).toContain("hyperscape_attack");
+    // Listed by the client but not executable by the agent loop
+    expect(user).not.toContain("hyperscape_chat");
+    expect(agent.getThoughts(1)[0]).toMatchObject({ planner: "llm", thinking: "The level 3 goblin gives more XP." });
+  });
+
+  it("falls back to the rule-based planner when the model answer is unusable", async () => {
+    client = await connectClient(server, [goblin("goblin-1", { level: 4 }), goblin("goblin-2", { level: 2 })]);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    agent = createAutonomousAgent(client, { tickInterval: 5, complete: async () => 'ACTION: {"tool": "rm_rf", "params": {}}' });
+
+    await agent.start();
+    expect(await server.waitForPacket("attackMob")).toMatchObject({ mobId: "goblin-2" });
+    expect(agent.getThoughts(1)[0]?.planner).toBe("rules");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Ignoring rm_rf"));
+  });
+
+  it("still runs model actions through the guardrails", async () => {
+    client = await connectClient(server, [goblin()]);
+    server.modifyEntity({ id: PLAYER.id, health: 1 });
+    await server.flush();
+    const events: AgentEvent[] = [];
+    agent = createAutonomousAgent(client, {
+      tickInterval: 5,
+      complete: async () => 'THINKING: fight\nACTION: {"tool": "hyperscape_attack", "params": {"targetId": "goblin-1"}}',
+      sinks: [{ name: "test", write: e => { events.push(e); } }],
+    });
+
+    await agent.start();
+    await server.waitForPacket("homeTeleport");
+
+    expect(server.receivedPackets("attackMob")).toHaveLength(0);
+    expect(events.find(e => e.type === "guardrail_blocked")?.data).toMatchObject({
+      tool: "hyperscape_attack",
+      alternative: "hyperscape_home_teleport",
+    });
+  });
+});
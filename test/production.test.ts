@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import { sessions, setClient, tools } from "../src/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import type { InventoryItem } from "../src/types.js";
+import { connectClient } from "./helpers.js";
+
+const ORE: InventoryItem[] = [
+  { itemId: "copper_ore", quantity: 1, slot: 0 },
+  { itemId: "tin_ore", quantity: 1, slot: 1 },
+  { itemId: "copper_ore", quantity: 1, slot: 2 },
+  { itemId: "tin_ore", quantity: 1, slot: 3 },
+];
+
+const BRONZE_BAR = {
+  itemId: "bronze_bar",
+  name: "Bronze bar",
+  level: 1,
+  materials: [{ itemId: "copper_ore", quantity: 1 }, { itemId: "tin_ore", quantity: 1 }],
+  xp: 6,
+};
+
+describe("smelting and smithing", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+    client = await connectClient(server);
+    setClient(client);
+    server.send("inventoryUpdated", { items: ORE });
+    server.send("skillsUpdated", { skills: { smithing: { level: 1, xp: 0 } } });
+    await server.flush();
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await sessions.destroyAll();
+    vi.restoreAllMocks();
+  });
+
+  it("opens the furnace, parses its recipes and smelts", async () => {
+    server.reply("smeltingSourceInteract", "smeltingInterfaceOpen", {
+      furnaceId: "furnace-1",
+      recipes: [BRONZE_BAR, { id: "iron_bar", name: "Iron bar", levelRequired: 15, inputs: [{ itemId: "iron_ore", quantity: 1 }] }],
+    });
+    server.reply("processingSmelting", "inventoryUpdated", {
+      items: [...ORE.slice(2), { itemId: "bronze_bar", quantity: 1, slot: 0 }],
+    });
+
+    const result = await tools.hyperscape_smelt.handler({ barId: "bronze_bar", furnaceId: "furnace-1" });
+
+    expect(result).toEqual({ success: true, message: "Smelting 1x bronze_bar" });
+    expect(server.receivedPackets("processingSmelting")).toEqual([{ itemId: "bronze_bar", quantity: 1, sourceId: "furnace-1" }]);
+    expect(client.state.productionInterface?.recipes).toMatchObject([
+      { itemId: "bronze_bar", levelRequired: 1, inputs: BRONZE_BAR.materials, canMake: true },
+      { itemId: "iron_bar", levelRequired: 15, canMake: false },
+    ]);
+    expect(client.getProductionContext()).toContain("❌ Iron bar (Lv15) id:iron_bar needs 1x iron_ore");
+  });
+
+  it("checks recipes against the current inventory and the quantity asked for", async () => {
+    server.send("smeltingInterfaceOpen", { furnaceId: "furnace-1", recipes: [BRONZE_BAR] });
+    await server.flush();
+
+    expect(await tools.hyperscape_smelt.handler({ barId: "bronze_bar", quantity: 3 })).toMatchObject({
+      success: false,
+      message: "Cannot smelt 3x Bronze bar: needs level 1 and materials",
+    });
+
+    server.send("inventoryUpdated", { items: [{ itemId: "bronze_bar", quantity: 2, slot: 0 }] });
+    await server.flush();
+    expect(client.state.productionInterface?.recipes[0].canMake).toBe(false);
+    expect(await tools.hyperscape_smelt.handler({ barId: "bronze_bar" })).toMatchObject({ success: false });
+    expect(server.receivedPackets("processingSmelting")).toHaveLength(0);
+  });
+
+  it("closes the interface when the server does", async () => {
+    server.send("smithingInterfaceOpen", { anvilId: "anvil-1", recipes: [] });
+    await server.flush();
+    expect(client.state).toMatchObject({ smithingOpen: true, smeltingOpen: false });
+    expect(client.getProductionContext()).toBe("**Anvil Open**\nNo recipes available");
+
+    server.send("smithingClose", {});
+    await server.flush();
+    expect(client.state).toMatchObject({ smithingOpen: false, productionInterface: null });
+    expect(await tools.hyperscape_smith.handler({ itemId: "bronze_dagger" })).toEqual({
+      success: false,
+      message: "Anvil is not open. Provide anvilId",
+    });
+  });
+
+  it("lets a smithing level-up unlock recipes at the open anvil", async () => {
+    server.send("inventoryUpdated", { items: [{ itemId: "bronze_bar", quantity: 5, slot: 0 }] });
+    server.send("smithingInterfaceOpen", {
+      anvilId: "anvil-1",
+      recipes: [{ itemId: "bronze_platebody", name: "Bronze platebody", level: 2, inputs: [{ itemId: "bronze_bar", quantity: 5 }] }],
+    });
+    await server.flush();
+    expect(await tools.hyperscape_smith.handler({ itemId: "bronze_platebody" })).toMatchObject({ success: false });
+
+    server.send("xpDrop", { skill: "smithing", xp: 100, totalXp: 100, level: 2 });
+    server.reply("processingSmithing", "inventoryUpdated", { items: [{ itemId: "bronze_platebody", quantity: 1, slot: 0 }] });
+    await server.flush();
+
+    expect(await tools.hyperscape_smith.handler({ itemId: "bronze_platebody" })).toEqual({
+      success: true,
+      message: "Smithing 1x bronze_platebody",
+    });
+    expect(server.receivedPackets("processingSmithing")).toEqual([{ itemId: "bronze_platebody", quantity: 1, sourceId: "anvil-1" }]);
+  });
+});
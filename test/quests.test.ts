@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { connectClient } from "./helpers.js";
+
+const EGGS = { id: "eggs", description: "Bring an egg", current: 0, required: 1, completed: false };
+const FLOUR = { id: "flour", description: "Bring a pot of flour", current: 1, required: 1, completed: true };
+
+describe("quests", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+    client = await connectClient(server);
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("parses the quest list and details into the quest log", async () => {
+    server.reply("getQuestList", "questList", {
+      quests: [
+        { questId: "cooks_assistant", name: "Cook's Assistant", status: "active" },
+        { questId: "sheep_shearer", name: "Sheep Shearer", status: "available" },
+        { questId: "rune_mysteries", name: "Rune Mysteries", status: "completed" },
+      ],
+    });
+    server.reply("getQuestDetail", "questDetail", {
+      quest: { questId: "cooks_assistant", description: "Help the cook", steps: [FLOUR, EGGS], rewards: ["300 Cooking XP"] },
+    });
+
+    expect(await client.requestQuestList()).toMatchObject({ success: true });
+    expect(await client.requestQuestDetail("cooks_assistant")).toMatchObject({ success: true });
+
+    expect(client.state.quests.get("cooks_assistant")).toMatchObject({
+      name: "Cook's Assistant",
+      status: "active",
+      pinned: false,
+      steps: [FLOUR, EGGS],
+      rewards: ["300 Cooking XP"],
+    });
+    const context = client.getQuestContext();
+    expect(context).toContain("- Cook's Assistant id:cooks_assistant (1/2 steps)\n  - Bring an egg 0/1");
+    expect(context).toContain("**Available:**\n- Sheep Shearer id:sheep_shearer");
+    expect(context).toContain("**Completed:** Rune Mysteries");
+  });
+
+  it("only settles a detail request on the quest asked for", async () => {
+    server.reply("getQuestDetail", "questDetail", { quest: { questId: "sheep_shearer", steps: [] } });
+
+    expect(await client.requestQuestDetail("cooks_assistant")).toMatchObject({ success: false, resolvedBy: "timeout" });
+    expect(client.state.quests.has("sheep_shearer")).toBe(true);
+  });
+
+  it("pins quests and lists pinned ones first", async () => {
+    server.send("questList", {
+      quests: [
+        { questId: "cooks_assistant", name: "Cook's Assistant", status: "active" },
+        { questId: "sheep_shearer", name: "Sheep Shearer", status: "active" },
+      ],
+    });
+    server.reply("questTogglePin", "questPinned", { questId: "sheep_shearer", pinned: true });
+    await server.flush();
+
+    expect(await client.toggleQuestPin("sheep_shearer")).toMatchObject({ success: true });
+    expect(client.state.quests.get("sheep_shearer")?.pinned).toBe(true);
+    expect(client.getQuestContext()).toContain("**Active:**\n- 📌 Sheep Shearer id:sheep_shearer\n- Cook's Assistant");
+  });
+
+  it("tracks step progress and completion", async () => {
+    server.send("questProgressed", { questId: "cooks_assistant", step: EGGS });
+    server.send("questProgressed", { questId: "cooks_assistant", step: { ...EGGS, current: 1, completed: true } });
+    await server.flush();
+    expect(client.state.quests.get("cooks_assistant")).toMatchObject({ status: "active", steps: [{ id: "eggs", completed: true }] });
+
+    server.send("questPinned", { questId: "cooks_assistant", pinned: true });
+    server.send("questCompleted", { questId: "cooks_assistant", name: "Cook's Assistant", rewards: ["1 Quest Point"] });
+    await server.flush();
+    expect(client.state.quests.get("cooks_assistant")).toMatchObject({
+      status: "completed",
+      pinned: false,
+      rewards: ["1 Quest Point"],
+    });
+  });
+});
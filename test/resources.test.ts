@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { selectResourceTarget } from "../src/resources.js";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import type { Entity } from "../src/types.js";
+import { connectClient } from "./helpers.js";
+
+function tree(id: string, x: number): Entity {
+  return { id, type: "tree", name: "Oak Tree", position: [x, 0, 0] };
+}
+
+describe("resource lifecycle", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("skips depleted nodes and prefers the one respawning soonest", async () => {
+    client = await connectClient(server, [tree("near", 2), tree("far", 10)]);
+
+    expect(selectResourceTarget(client.state)?.id).toBe("near");
+
+    server.send("resourceDepleted", { resourceId: "near", respawnTicks: 50 });
+    await server.flush();
+    expect(client.state.resources.get("near")?.status).toBe("depleted");
+    expect(selectResourceTarget(client.state)?.id).toBe("far");
+
+    server.send("resourceDepleted", { resourceId: "far", respawnTime: 5000 });
+    await server.flush();
+    const target = selectResourceTarget(client.state);
+    expect(target).toMatchObject({ id: "far", status: "depleted" });
+    expect(target?.waitMs).toBeLessThanOrEqual(5000);
+    expect(client.getResourceContext()).toContain("0 available, 2 depleted");
+  });
+
+  it("learns respawn times from depleted → respawned", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    client = await connectClient(server, [tree("a", 2), tree("b", 4)]);
+
+    server.send("resourceDepleted", { id: "a" });
+    await server.flush();
+    expect(client.state.resources.get("a")?.respawnAt).toBeNull();
+
+    vi.setSystemTime(Date.now() + 12000);
+    server.send("resourceRespawned", { id: "a" });
+    server.send("resourceDepleted", { id: "b" });
+    await server.flush();
+
+    expect(client.state.resources.get("a")).toMatchObject({ status: "available", observedRespawnMs: 12000 });
+    expect(client.state.resources.get("b")?.respawnAt).toBe(Date.now() + 12000);
+  });
+
+  it("forgets resource state on a new snapshot and respawn times on a world change", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    client = await connectClient(server, [tree("a", 2), tree("b", 4)]);
+    server.send("resourceDepleted", { id: "a" });
+    await server.flush();
+    vi.setSystemTime(Date.now() + 12000);
+    server.send("resourceRespawned", { id: "a" });
+    server.send("resourceDepleted", { id: "b" });
+    await server.flush();
+
+    server.sendSnapshot({ playerId: "player-1", worldId: "world-1", entities: [tree("c", 6)] });
+    server.send("resourceDepleted", { id: "c" });
+    await server.flush();
+    expect(Array.from(client.state.resources.keys())).toEqual(["c"]);
+    expect(client.state.resources.get("c")?.respawnAt).toBe(Date.now() + 12000);
+
+    server.sendSnapshot({ playerId: "player-1", worldId: "world-2", entities: [tree("d", 8)] });
+    server.send("resourceDepleted", { id: "d" });
+    await server.flush();
+    expect(Array.from(client.state.resources.keys())).toEqual(["d"]);
+    expect(client.state.resources.get("d")?.respawnAt).toBeNull();
+  });
+
+  it("follows fishing spots that move", async () => {
+    client = await connectClient(server, [{ id: "spot-1", type: "fishing", name: "Fishing Spot", position: [5, 0, 5] }]);
+
+    server.send("fishingSpotMoved", { oldId: "spot-1", newId: "spot-2", position: { x: 20, y: 0, z: 8 } });
+    await server.flush();
+
+    expect(client.state.nearbyEntities.has("spot-1")).toBe(false);
+    expect(client.state.nearbyEntities.get("spot-2")?.position).toEqual([20, 0, 8]);
+    expect(client.state.resources.get("spot-2")).toMatchObject({ type: "fishing", status: "available" });
+    expect(client.worldMap.query({ kind: "resource" }).map(l => l.id)).toEqual(["spot-2"]);
+  });
+});
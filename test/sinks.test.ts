@@ -0,0 +1,105 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createAutonomousAgent, type AutonomousAgent } from "../src/autonomy/agent.js";
+import type { AgentEvent } from "../src/autonomy/events.js";
+import { JsonlFileLogSink, acceptsEvent, type LogSink } from "../src/autonomy/sinks.js";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { PLAYER, connectClient, goblin } from "./helpers.js";
+
+function event(overrides: Partial<AgentEvent> = {}): AgentEvent {
+  return { type: "status", level: "info", timestamp: 0, message: "hello", data: {}, ...overrides } as AgentEvent;
+}
+
+describe("acceptsEvent", () => {
+  it("filters by level and event type", () => {
+    expect(acceptsEvent({ level: "info" }, event({ level: "debug" }))).toBe(false);
+    expect(acceptsEvent({}, event({ level: "debug" }))).toBe(true);
+    expect(acceptsEvent({ events: ["death"] }, event())).toBe(false);
+  });
+});
+
+describe("JsonlFileLogSink", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "hyperscape-sink-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends one JSON object per event in order", async () => {
+    const path = join(dir, "logs", "agent.jsonl");
+    const sink = new JsonlFileLogSink(path);
+
+    sink.write(event({ message: "one" }));
+    sink.write(event({ message: "two", level: "debug" }));
+    await sink.flush();
+
+    const lines = (await readFile(path, "utf8")).trim().split("\n").map(l => JSON.parse(l));
+    expect(lines.map(l => l.message)).toEqual(["one", "two"]);
+  });
+});
+
+describe("AutonomousAgent events", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+  let agent: AutonomousAgent;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+  });
+
+  afterEach(async () => {
+    await agent?.stop();
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("delivers typed events to every configured sink", async () => {
+    client = await connectClient(server, [goblin("goblin-1", { level: 2 })]);
+    const first: AgentEvent[] = [];
+    const second: AgentEvent[] = [];
+    const sink = (name: string, events: AgentEvent[]): LogSink => ({ name, write: e => { events.push(e); } });
+
+    server.reply("attackMob", "combatDamageDealt", { attackerId: PLAYER.id, targetId: "goblin-1", damage: 1 });
+    agent = createAutonomousAgent(client, { tickInterval: 5, sinks: [sink("a", first), sink("b", second)] });
+    await agent.start();
+    await server.waitForPacket("attackMob");
+    server.send("xpDrop", { skill: "attack", xp: 40, totalXp: 40, level: 1 });
+
+    await vi.waitFor(() => {
+      expect(first.some(e => e.type === "xp_gained")).toBe(true);
+      expect(first.some(e => e.type === "action_executed")).toBe(true);
+    });
+    await agent.stop();
+
+    const goal = first.find(e => e.type === "goal_selected");
+    expect(goal?.data).toMatchObject({ goalId: "train_combat", category: "combat" });
+    const action = first.find(e => e.type === "action_executed");
+    expect(action?.data).toMatchObject({ tool: "hyperscape_attack", params: { targetId: "goblin-1" } });
+    expect(first.find(e => e.type === "xp_gained")?.data).toMatchObject({ skill: "attack", xp: 40, sessionXp: 40 });
+    expect(first.at(-1)?.type).toBe("session_stats");
+    expect(second.map(e => e.type)).toEqual(first.map(e => e.type));
+  });
+
+  it("keeps the text logger for info events only", async () => {
+    client = await connectClient(server, [goblin()]);
+    agent = createAutonomousAgent(client, { tickInterval: 5 });
+    const lines: string[] = [];
+    agent.setLogger(async line => { lines.push(line); });
+
+    await agent.start();
+    await server.waitForPacket("attackMob");
+    await agent.stop();
+
+    expect(lines.some(l => l.includes("New goal"))).toBe(true);
+    expect(lines.some(l => l.includes("Action: hyperscape_attack"))).toBe(false);
+    expect(agent.getSinks()).toEqual(["logger"]);
+  });
+});
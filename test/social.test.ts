@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { connectClient } from "./helpers.js";
+
+describe("friends and private messages", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+    client = await connectClient(server);
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("syncs friends, ignores and pending requests", async () => {
+    server.send("friendsListSync", {
+      friends: [{ name: "Alice", online: true, world: "world-1" }, { name: "Bob", online: false }],
+      ignoreList: ["Spammer"],
+      pendingRequests: [{ name: "Carol" }],
+    });
+    server.send("friendStatusUpdate", { name: "bob", online: true });
+    await server.flush();
+
+    expect(client.state.social.friends.get("bob")).toMatchObject({ name: "bob", online: true });
+    expect(client.state.social.ignoreList).toEqual(["Spammer"]);
+    expect(client.state.social.pendingRequests.map(r => r.name)).toEqual(["Carol"]);
+    expect(client.getSocialContext()).toContain("🟢 Alice (world-1)");
+    expect(client.getSocialContext()).toContain("**Pending Friend Requests:** Carol");
+  });
+
+  it("collects incoming friend requests and messages, except from ignored players", async () => {
+    server.send("friendsListSync", { ignoreList: ["Spammer"] });
+    server.send("friendRequestIncoming", { name: "Dave", playerId: "player-4" });
+    server.send("friendRequestIncoming", { name: "dave", playerId: "player-4" });
+    server.send("friendRequestIncoming", { name: "spammer" });
+    server.send("privateMessageReceived", { from: "Dave", message: "hi there", timestamp: 1000 });
+    server.send("privateMessageReceived", { from: "SPAMMER", message: "buy gold" });
+    await server.flush();
+
+    expect(client.state.social.pendingRequests.map(r => r.name)).toEqual(["dave"]);
+    expect(client.state.social.messages).toEqual([
+      { direction: "incoming", name: "Dave", message: "hi there", timestamp: 1000 },
+    ]);
+  });
+
+  it("accepts friend requests once the list syncs", async () => {
+    server.send("friendRequestIncoming", { name: "Dave" });
+    server.reply("friendAccept", "friendsListSync", { friends: [{ name: "Dave", online: true }] });
+    await server.flush();
+
+    expect(await client.friendAccept("dave")).toMatchObject({ success: true });
+    expect(client.state.social.friends.has("dave")).toBe(true);
+    expect(client.state.social.pendingRequests).toEqual([]);
+  });
+});
+
+describe("chat", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+    client = await connectClient(server);
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps history per channel and merges it in time order", async () => {
+    server.send("chatAdded", { from: "Alice", body: "hello", channel: "local", createdAt: "2026-01-01T12:00:00Z" });
+    server.send("chatAdded", { from: "Bob", message: "lf group", channel: "trade", createdAt: "2026-01-01T12:00:05Z" });
+    await server.flush();
+    await client.chat("hi Alice");
+
+    expect(client.state.chatHistory.get("local")?.map(m => m.body)).toEqual(["hello", "hi Alice"]);
+    expect(client.state.chatHistory.get("trade")?.map(m => m.from)).toEqual(["Bob"]);
+    expect(server.receivedPackets("chatAdded")).toMatchObject([{ body: "hi Alice", channel: "local", from: "Tester" }]);
+    expect(client.getChatContext(20, "trade")).toBe("[12:00:05] [trade] Bob: lf group");
+    expect(client.getChatContext(2).split("\n")).toEqual([
+      "[12:00:05] [trade] Bob: lf group",
+      expect.stringMatching(/\[local\] Tester: hi Alice$/),
+    ]);
+  });
+
+  it("clears one channel or all of them", async () => {
+    server.send("chatAdded", { from: "Alice", body: "hello", channel: "local" });
+    server.send("chatAdded", { from: "Bob", body: "wts logs", channel: "trade" });
+    server.send("chatCleared", { channel: "trade" });
+    await server.flush();
+    expect(Array.from(client.state.chatHistory.keys())).toEqual(["local"]);
+
+    server.send("chatCleared", {});
+    await server.flush();
+    expect(client.state.chatHistory.size).toBe(0);
+    expect(client.getChatContext()).toBe("No chat messages.");
+  });
+});
@@ -0,0 +1,162 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TelegramLogSink, escapeTelegramMarkdown } from "../src/autonomy/telegram.js";
+import { createAutonomousAgent } from "../src/autonomy/agent.js";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import { connectClient } from "./helpers.js";
+
+interface BotRequest {
+  path: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Local stand-in for the Telegram Bot API
+ */
+function startBotApi(respond: (request: BotRequest, index: number) => { status: number; body: unknown }) {
+  const requests: BotRequest[] = [];
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", chunk => { raw += chunk; });
+    req.on("end", () => {
+      const request = { path: req.url ?? "", body: JSON.parse(raw) as Record<string, unknown> };
+      requests.push(request);
+      const { status, body } = respond(request, requests.length - 1);
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  return new Promise<{ server: Server; url: string; requests: BotRequest[] }>(resolve => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+const OK = { status: 200, body: { ok: true, result: {} } };
+
+describe("escapeTelegramMarkdown", () => {
+  it("escapes MarkdownV2 characters and keeps bold spans", () => {
+    expect(escapeTelegramMarkdown("📊 **Session Stats** (1.5x)")).toBe("📊 *Session Stats* \\(1\\.5x\\)");
+    expect(escapeTelegramMarkdown("goal_selected: Train-Combat!")).toBe("goal\\_selected: Train\\-Combat\\!");
+  });
+});
+
+describe("TelegramLogSink", () => {
+  let api: Awaited<ReturnType<typeof startBotApi>>;
+
+  afterEach(async () => {
+    await new Promise(resolve => api.server.close(resolve));
+  });
+
+  it("batches lines into one sendMessage for the topic", async () => {
+    api = await startBotApi(() => OK);
+    const sink = new TelegramLogSink({ botToken: "123:abc", chatId: "-100", topicId: 42, apiBaseUrl: api.url });
+
+    await sink.send("first line");
+    await sink.send("second.line");
+    await sink.flush();
+
+    expect(api.requests).toHaveLength(1);
+    expect(api.requests[0].path).toBe("/bot123:abc/sendMessage");
+    expect(api.requests[0].body).toMatchObject({
+      chat_id: "-100",
+      message_thread_id: 42,
+      parse_mode: "MarkdownV2",
+      text: "first line\nsecond\\.line",
+    });
+  });
+
+  it("waits retry_after and retries on 429", async () => {
+    api = await startBotApi((_request, index) =>
+      index === 0 ? { status: 429, body: { ok: false, error_code: 429, parameters: { retry_after: 0.01 } } } : OK
+    );
+    const sink = new TelegramLogSink({ botToken: "123:abc", chatId: "-100", apiBaseUrl: api.url });
+
+    await sink.send("hello");
+    await sink.flush();
+
+    expect(api.requests).toHaveLength(2);
+    expect(api.requests[1].body.text).toBe("hello");
+    expect(api.requests[1].body).not.toHaveProperty("message_thread_id");
+  });
+
+  it("splits batches that exceed the message length limit", async () => {
+    api = await startBotApi(() => OK);
+    const sink = new TelegramLogSink({ botToken: "123:abc", chatId: "-100", apiBaseUrl: api.url });
+
+    await sink.send("a".repeat(3000));
+    await sink.send("b".repeat(3000));
+    await sink.flush();
+
+    expect(api.requests.map(r => (r.body.text as string).length)).toEqual([3000, 3000]);
+  });
+
+  it("truncates long lines before escaping them", async () => {
+    api = await startBotApi(() => OK);
+    const sink = new TelegramLogSink({ botToken: "123:abc", chatId: "-100", apiBaseUrl: api.url });
+
+    await sink.send("a" + ".".repeat(5000));
+    await sink.flush();
+
+    const text = api.requests[0].body.text as string;
+    expect(text.length).toBeLessThanOrEqual(4096);
+    expect(text).toBe("a" + "\\.".repeat(2047));
+  });
+
+  it("resends as plain text when MarkdownV2 is rejected", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    api = await startBotApi(request =>
+      request.body.parse_mode
+        ? { status: 400, body: { ok: false, description: "Bad Request: can't parse entities" } }
+        : OK
+    );
+    const sink = new TelegramLogSink({ botToken: "123:abc", chatId: "-100", topicId: 42, apiBaseUrl: api.url });
+
+    await sink.send("📊 **Session Stats** (1.5x)");
+    await sink.flush();
+    vi.restoreAllMocks();
+
+    expect(api.requests).toHaveLength(2);
+    expect(api.requests[1].body).toMatchObject({ text: "📊 **Session Stats** (1.5x)", message_thread_id: 42 });
+    expect(api.requests[1].body).not.toHaveProperty("parse_mode");
+  });
+});
+
+describe("AutonomousAgent Telegram wiring", () => {
+  let api: Awaited<ReturnType<typeof startBotApi>>;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise(resolve => api.server.close(resolve));
+  });
+
+  it("streams agent logs to the configured chat and flushes on stop", async () => {
+    api = await startBotApi(() => OK);
+    const client = await connectClient(new MockHyperscapeServer());
+    const agent = createAutonomousAgent(client, {
+      tickInterval: 60000,
+      telegramChatId: "-100",
+      telegramTopicId: 7,
+      telegramBotToken: "123:abc",
+      telegramApiUrl: api.url,
+    });
+
+    expect(agent.isLoggingToTelegram()).toBe(true);
+    await agent.start();
+    await agent.stop();
+    client.disconnect();
+
+    const text = api.requests.map(r => r.body.text).join("\n");
+    expect(api.requests.every(r => r.body.message_thread_id === 7)).toBe(true);
+    expect(text).toContain("Autonomous agent started");
+    expect(text).toContain("*Session Stats*");
+  });
+});
@@ -0,0 +1,279 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import { getSessionProviders, sessions, setClient, tools, providers } from "../src/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { createAutonomousAgent } from "../src/autonomy/agent.js";
+import { connectClient, goblin } from "./helpers.js";
+
+describe("tools", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+    client = await connectClient(server, [goblin()]);
+    setClient(client);
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await sessions.destroyAll();
+    vi.restoreAllMocks();
+  });
+
+  it("report success only after the server confirms", async () => {
+    server.reply("attackMob", "combatDamageDealt", { targetId: "goblin-1", damage: 2 });
+
+    const result = await tools.hyperscape_attack.handler({ targetId: "goblin-1" });
+
+    expect(result).toEqual({ success: true, message: "Attacking goblin-1" });
+    expect(server.receivedPackets("attackMob")).toEqual([{ mobId: "goblin-1", attackType: "melee" }]);
+  });
+
+  it("report the server's rejection", async () => {
+    server.reply("storeBuy", "showToast", { message: "Not enough coins", type: "error" });
+    server.send("storeOpen", { items: [] });
+    await server.flush();
+
+    const result = await tools.hyperscape_store_buy.handler({ itemId: "rune_sword" });
+
+    expect(result).toEqual({ success: false, message: "Not enough coins" });
+  });
+
+  it("report trade, duel and quest outcomes from the server", async () => {
+    server.send("tradeStarted", { tradeId: "trade-1", partnerId: "player-2" });
+    server.reply("tradeAddItem", "tradeError", { message: "You don't have that item" });
+    server.reply("duel:challenge", "duelChallengeSent", { targetId: "player-3" });
+    server.reply("questTogglePin", "questPinned", { questId: "cooks_assistant", pinned: true });
+    await server.flush();
+
+    expect(await tools.hyperscape_trade_offer.handler({ itemId: "logs" })).toEqual({
+      success: false,
+      message: "You don't have that item",
+    });
+    expect(await tools.hyperscape_duel_challenge.handler({ playerId: "player-3" })).toEqual({
+      success: true,
+      message: "Challenged player-3 to a duel",
+    });
+    expect(client.state.duel).toMatchObject({ opponentId: "player-3", stage: "challenge" });
+    expect(await tools.hyperscape_quest_pin.handler({ questId: "cooks_assistant" })).toEqual({
+      success: true,
+      message: "Toggled pin for quest cooks_assistant",
+    });
+  });
+
+  it("fetch the quest log before abandoning a quest it does not list yet", async () => {
+    server.reply("getQuestList", "questList", {
+      quests: [{ questId: "cooks_assistant", status: "active" }, { questId: "sheep_shearer", status: "completed" }],
+    });
+    server.reply("questAbandon", "questList", { quests: [{ questId: "cooks_assistant", status: "available" }] });
+
+    expect(await tools.hyperscape_quest_abandon.handler({ questId: "cooks_assistant" })).toEqual({
+      success: true,
+      message: "Abandoning quest cooks_assistant",
+    });
+    expect(server.receivedPackets("getQuestList")).toHaveLength(1);
+    expect(await tools.hyperscape_quest_abandon.handler({ questId: "sheep_shearer" })).toEqual({
+      success: false,
+      message: "Quest sheep_shearer is not active",
+    });
+    expect(server.receivedPackets("getQuestList")).toHaveLength(1);
+  });
+
+  it("let a trade go through once the changed offer is accepted again", async () => {
+    const logs = [{ itemId: "logs", quantity: 5 }];
+    const ore = [{ itemId: "copper_ore", quantity: 1 }];
+    server.send("tradeStarted", { tradeId: "trade-1", partnerId: "player-2", partnerName: "Bob" });
+    server.send("tradeUpdated", { theirOffer: logs });
+    server.reply("tradeAccept", "tradeUpdated", { myAccepted: true });
+    await server.flush();
+
+    expect(await tools.hyperscape_trade_accept.handler()).toMatchObject({ success: true });
+    server.send("tradeUpdated", { theirOffer: ore, myAccepted: false });
+    await server.flush();
+    expect(client.state.trade?.counterOfferChanged).toBe(true);
+
+    // Accepting the new offer on the offer screen agrees to it
+    expect(await tools.hyperscape_trade_accept.handler()).toMatchObject({ success: true });
+    server.send("tradeConfirmScreen", { theirOffer: ore });
+    await server.flush();
+    expect(await tools.hyperscape_trade_accept.handler()).toMatchObject({ success: true });
+
+    // A change that shows up on the confirm screen is still refused
+    server.send("tradeConfirmScreen", { theirOffer: logs });
+    await server.flush();
+    expect(await tools.hyperscape_trade_accept.handler()).toMatchObject({ success: false });
+  });
+
+  it("withdraw a trade acceptance without cancelling the trade", async () => {
+    server.send("tradeStarted", { tradeId: "trade-1", partnerId: "player-2", partnerName: "Bob" });
+    server.reply("tradeAccept", "tradeUpdated", { myAccepted: true });
+    server.reply("tradeCancelAccept", "tradeUpdated", { myAccepted: false });
+    await server.flush();
+
+    expect(await tools.hyperscape_trade_unaccept.handler()).toEqual({
+      success: false,
+      message: "You have not accepted this trade",
+    });
+    await tools.hyperscape_trade_accept.handler();
+    expect(client.getAvailableActions()).toContain("hyperscape_trade_unaccept");
+
+    expect(await tools.hyperscape_trade_unaccept.handler()).toMatchObject({ success: true, message: "Withdrew trade acceptance" });
+    expect(client.state.trade).toMatchObject({ tradeId: "trade-1", myAccepted: false });
+    expect(server.receivedPackets("tradeCancelAccept")).toHaveLength(1);
+    expect(server.receivedPackets("tradeCancel")).toHaveLength(0);
+  });
+
+  it("allow re-challenging or withdrawing an unanswered duel challenge", async () => {
+    server.reply("duel:challenge", "duelChallengeSent", {});
+
+    await tools.hyperscape_duel_challenge.handler({ playerId: "player-2" });
+    expect(await tools.hyperscape_duel_challenge.handler({ playerId: "player-3", maxStake: 100 })).toMatchObject({ success: true });
+    expect(client.state.duel).toMatchObject({ opponentId: "player-3", stage: "challenge", stakeLimit: 100 });
+
+    expect(await tools.hyperscape_duel_cancel.handler()).toEqual({ success: true, message: "Duel cancelled" });
+    expect(client.state.duel).toBeNull();
+    await server.flush();
+    expect(server.receivedPackets("duel:cancel")).toHaveLength(1);
+  });
+
+  it("hold duel stakes to the limit in coin value", async () => {
+    const sword = { itemId: "rune_sword", name: "Rune sword", quantity: 1 };
+    server.reply("duel:challenge:respond", "duelSessionStarted", { duelId: "duel-1", opponentId: "player-2" });
+    server.reply("duel:add:stake", "duelStakesUpdated", (data) => ({
+      myStakes: (data as { itemId: string }).itemId === "coins"
+        ? [{ itemId: "coins", quantity: 60 }]
+        : [{ itemId: "coins", quantity: 60 }, sword],
+    }));
+    server.reply("duel:accept:stakes", "duelAcceptanceUpdated", { myAccepted: true, theirAccepted: false });
+
+    await tools.hyperscape_duel_respond.handler({ playerId: "player-2", accept: true, maxStake: 100 });
+    server.send("duelMoveToStakes", {});
+    await server.flush();
+
+    expect(await tools.hyperscape_duel_stake.handler({ itemId: "coins", quantity: 150 })).toMatchObject({ success: false });
+    expect(await tools.hyperscape_duel_stake.handler({ itemId: "coins", quantity: 60 })).toMatchObject({ success: true });
+    // Not valued yet, so staking is allowed but accepting is not
+    expect(await tools.hyperscape_duel_stake.handler({ itemId: "rune_sword" })).toMatchObject({ success: true });
+    expect(await tools.hyperscape_duel_accept.handler()).toMatchObject({
+      success: false,
+      message: expect.stringContaining("value of Rune sword is unknown"),
+    });
+
+    server.send("duelStakesUpdated", { myStakes: [{ itemId: "coins", quantity: 60 }, { ...sword, value: 30 }] });
+    await server.flush();
+    expect(await tools.hyperscape_duel_stake.handler({ itemId: "rune_sword" })).toMatchObject({ success: false });
+    expect(await tools.hyperscape_duel_accept.handler()).toEqual({ success: true, message: "Accepted duel stakes" });
+  });
+
+  it("still stop the agent when the metrics export fails", async () => {
+    const session = sessions.resolve()!;
+    session.agent = createAutonomousAgent(client, { tickInterval: 60000 });
+
+    const metrics = await tools.hyperscape_auto_metrics.handler({ exportPath: "/dev/null/metrics.json" });
+    expect(metrics).toMatchObject({ success: true, exportError: expect.stringContaining("/dev/null/metrics.json") });
+
+    const stopped = await tools.hyperscape_auto_stop.handler({ exportPath: "/dev/null/metrics.csv" });
+    expect(stopped).toMatchObject({ success: true, stats: { deaths: 0 }, exportError: expect.stringContaining("Could not export") });
+    expect(session.agent).toBeNull();
+  });
+
+  it("stop the running agent and gathering before starting a new agent", async () => {
+    const session = sessions.resolve()!;
+    const previous = createAutonomousAgent(client, { tickInterval: 60000 });
+    await previous.start();
+    session.agent = previous;
+    const gathering = new AbortController();
+    session.gathering = gathering;
+
+    expect(await tools.hyperscape_auto_start.handler({ tickInterval: 60000 })).toMatchObject({ success: true });
+
+    expect(previous.isRunning()).toBe(false);
+    expect(gathering.signal.aborted).toBe(true);
+    expect(session.gathering).toBeNull();
+    expect(session.agent).not.toBe(previous);
+    expect(session.client).toBe(client);
+  });
+
+  it("refuse bank actions while the bank is closed", async () => {
+    const result = await tools.hyperscape_bank_withdraw.handler({ itemId: "logs" });
+
+    expect(result).toEqual({ success: false, message: "Bank is not open" });
+    expect(server.receivedPackets("bankWithdraw")).toHaveLength(0);
+  });
+
+  it("list, create and select characters", async () => {
+    server.reply("characterListRequest", "characterList", {
+      characters: [{ id: "char-1", name: "Woody", combatLevel: 3 }],
+    });
+    server.reply("characterCreate", "characterCreated", (data) => ({
+      character: { id: "char-2", name: (data as { name: string }).name },
+    }));
+    server.reply("enterWorld", "enterWorldApproved", { characterId: "char-2" });
+
+    const listed = await tools.hyperscape_list_characters.handler();
+    expect(listed.characters).toEqual([{ id: "char-1", name: "Woody", combatLevel: 3 }]);
+
+    const created = await tools.hyperscape_create_character.handler({ name: "Fighter" });
+    expect(created).toMatchObject({ success: true, character: { id: "char-2", name: "Fighter" } });
+
+    const selected = await tools.hyperscape_select_character.handler({ name: "fighter" });
+    expect(selected).toEqual({ success: true, message: "Entered world as char-2" });
+    expect(server.receivedPackets("characterSelected")).toEqual([{ characterId: "char-2" }]);
+    await server.flush();
+    expect(server.receivedPackets("clientReady")).toHaveLength(1);
+    expect(client.state.characterId).toBe("char-2");
+  });
+
+  it("surface the reason the server refused entry", async () => {
+    server.reply("enterWorld", "enterWorldRejected", { reason: "Character is banned" });
+
+    const result = await tools.hyperscape_select_character.handler({ characterId: "char-1" });
+
+    expect(result).toEqual({ success: false, message: "Character is banned" });
+    expect(server.receivedPackets("clientReady")).toHaveLength(0);
+  });
+
+  it("route tools and providers to the session named by sessionId", async () => {
+    const created = await tools.hyperscape_session_create.handler({ sessionId: "fighter", authToken: "token-2" });
+    expect(created.success).toBe(true);
+    const fighterServer = new MockHyperscapeServer();
+    const fighter = await connectClient(fighterServer, [goblin("goblin-9", { name: "Cow" })]);
+    setClient(fighter, "fighter");
+    fighterServer.reply("attackMob", "combatDamageDealt", { targetId: "goblin-9", damage: 1 });
+
+    const result = await tools.hyperscape_attack.handler({ targetId: "goblin-9", sessionId: "fighter" });
+
+    expect(result).toEqual({ success: true, message: "Attacking goblin-9" });
+    expect(fighterServer.receivedPackets("attackMob")).toHaveLength(1);
+    expect(server.receivedPackets("attackMob")).toHaveLength(0);
+    expect(providers.gameState.get("fighter")).toContain("Cow");
+    expect(providers.gameState.get()).toContain("Goblin");
+    expect(getSessionProviders("fighter").gameState.get()).toContain("Cow");
+
+    const listed = await tools.hyperscape_session_list.handler();
+    expect(listed.sessions.map(s => [s.id, s.connected])).toEqual([["default", true], ["fighter", true]]);
+
+    expect(await tools.hyperscape_session_destroy.handler({ sessionId: "fighter" })).toMatchObject({ success: true });
+    expect(fighter.state.connected).toBe(false);
+    expect(providers.gameState.get("fighter")).toBe("Not connected to Hyperscape.");
+  });
+
+  it("refuse unknown and duplicate sessions", async () => {
+    expect(await tools.hyperscape_status.handler({ sessionId: "ghost" })).toEqual({
+      success: false,
+      message: "Unknown session ghost (create it with hyperscape_session_create)",
+    });
+    await tools.hyperscape_session_create.handler({ sessionId: "woodcutter" });
+    expect(await tools.hyperscape_session_create.handler({ sessionId: "woodcutter" })).toEqual({
+      success: false,
+      message: "Session woodcutter already exists",
+    });
+  });
+
+  it("expose game state through providers", () => {
+    expect(providers.gameState.get()).toContain("Goblin Lv2");
+    expect(providers.availableActions.get()).toContain("hyperscape_attack");
+  });
+});
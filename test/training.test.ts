@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { xpForLevel } from "../src/training.js";
+import { GOAL_TEMPLATES, createGoalContext, selectGoal } from "../src/autonomy/goals.js";
+import { RuleBasedPlanner } from "../src/autonomy/planner.js";
+import { AgentMetrics } from "../src/autonomy/metrics.js";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import { connectClient } from "./helpers.js";
+
+describe("TrainingPlanner", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("estimates time to a target level from observed XP/hour", async () => {
+    vi.useFakeTimers({ toFake: ["Date"], now: 1_000_000 });
+    client = await connectClient(server);
+
+    client.training.setTarget("attack", 5);
+    server.send("xpDrop", { skill: "attack", xp: 100, totalXp: 100, level: 1 });
+    await server.flush();
+    vi.setSystemTime(1_000_000 + 10 * 60000);
+    server.send("xpDrop", { skill: "attack", xp: 100, totalXp: 200, level: 2 });
+    await server.flush();
+
+    const [plan] = client.training.plan();
+    expect(plan).toMatchObject({
+      skill: "attack",
+      currentXp: 200,
+      targetLevel: 5,
+      targetXp: xpForLevel(5),
+      xpRemaining: 188,
+      xpPerHour: 1200,
+      etaMs: 564000,
+      recommendation: { goalId: "train_combat" },
+    });
+    expect(client.training.getContext()).toContain("attack 2 → 5: 188 xp left (1,200 xp/h, ~10m)");
+  });
+
+  it("reports the same XP/hour as the session metrics", async () => {
+    vi.useFakeTimers({ toFake: ["Date"], now: 1_000_000 });
+    client = await connectClient(server);
+    const metrics = new AgentMetrics();
+    metrics.reset(1_000_000);
+
+    // One late drop: measured over the time since tracking began, not since the drop
+    vi.setSystemTime(1_000_000 + 5 * 60000);
+    server.send("xpDrop", { skill: "mining", xp: 50, totalXp: 50, level: 1 });
+    metrics.write({
+      type: "xp_gained",
+      level: "info",
+      timestamp: Date.now(),
+      message: "",
+      data: { skill: "mining", xp: 50, totalXp: 50, level: 1, sessionXp: 50 },
+    });
+    await server.flush();
+    vi.setSystemTime(1_000_000 + 10 * 60000);
+
+    expect(client.training.planSkill("mining").xpPerHour).toBe(300);
+    expect(metrics.getSummary(900000).xpPerHour.mining).toBe(300);
+  });
+
+  it("has no rate or ETA before any XP is gained", async () => {
+    client = await connectClient(server);
+
+    const plan = client.training.planSkill("mining", 2);
+    expect(plan).toMatchObject({ xpRemaining: 83, xpPerHour: null, etaMs: null });
+    expect(plan.recommendation).toMatchObject({ goalId: "gather_resources", resourceType: "rock" });
+    expect(client.training.getTargets()).toEqual({});
+  });
+
+  it("steers goal selection and resource choice toward an unmet target", async () => {
+    client = await connectClient(server, [
+      { id: "copper-1", type: "rock", name: "Copper Rock", position: [2, 0, 0] },
+      { id: "oak-1", type: "tree", name: "Oak Tree", position: [6, 0, 0] },
+    ]);
+    const context = { ...createGoalContext(), recentGoalCounts: { gather_resources: 3 } };
+
+    // Gathered too often recently: the diversity penalty makes the agent wander off
+    expect(selectGoal(client.state, context)?.id).toBe("explore_area");
+
+    client.training.setTarget("woodcutting", 5);
+    context.trainingPlans = client.training.getActivePlans();
+    const goal = selectGoal(client.state, context);
+    expect(goal?.id).toBe("gather_resources");
+
+    const action = new RuleBasedPlanner().selectActionForGoal(client.state, goal!, context);
+    expect(action).toEqual({ tool: "hyperscape_gather", params: { resourceId: "oak-1" } });
+    expect(GOAL_TEMPLATES.find(g => g.id === "gather_resources")!.score(client.state, context)).toBe(80);
+  });
+});
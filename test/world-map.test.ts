@@ -0,0 +1,110 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createAutonomousAgent, type AutonomousAgent } from "../src/autonomy/agent.js";
+import { MockHyperscapeServer } from "../src/testing/index.js";
+import type { HyperscapeClient } from "../src/client.js";
+import type { Entity } from "../src/types.js";
+import { defaultWorldMapPath } from "../src/world-map.js";
+import { PLAYER, connectClient } from "./helpers.js";
+
+const BANKER: Entity = { id: "banker-1", type: "npc", name: "Banker", position: [120, 0, 40] };
+const SHOPKEEPER = { id: "shop-1", type: "npc", name: "Bob", services: ["store"], position: [10, 0, 10] } as Entity;
+
+describe("WorldMap", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+    dir = await mkdtemp(join(tmpdir(), "hyperscape-map-"));
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("remembers banks, stores and resource spawn points after they leave view", async () => {
+    client = await connectClient(server, [BANKER, SHOPKEEPER]);
+    server.send("resourceSpawnPoints", {
+      spawnPoints: [
+        { id: "tree-1", type: "tree", name: "Willow Tree", position: { x: 50, y: 0, z: 0 } },
+        { id: "tree-2", type: "tree", name: "Willow Tree", position: [300, 0, 0] },
+        { id: "tree-3", type: "tree", name: "Oak Tree", position: [20, 0, 0] },
+      ],
+    });
+    server.removeEntity(BANKER.id);
+    await server.flush();
+
+    expect(client.state.nearbyEntities.has(BANKER.id)).toBe(false);
+    expect(client.worldMap.nearest("bank")).toMatchObject({ id: "banker-1", position: [120, 0, 40] });
+    expect(client.worldMap.nearest("store")?.id).toBe("shop-1");
+    expect(client.worldMap.query({ kind: "resource", name: "willow", within: 200 }).map(l => l.id)).toEqual(["tree-1"]);
+  });
+
+  it("persists per world and loads in a later session", async () => {
+    const path = join(dir, "world-map.json");
+    client = await connectClient(server, [BANKER], { worldMapPath: path });
+    await client.worldMap.flush();
+    client.disconnect();
+
+    const file = JSON.parse(await readFile(path, "utf8"));
+    expect(file.worlds["world-1"].map((l: { id: string }) => l.id)).toEqual(["banker-1"]);
+
+    client = await connectClient(new MockHyperscapeServer(), [], { worldMapPath: path });
+    expect(client.worldMap.nearest("bank")?.id).toBe("banker-1");
+  });
+});
+
+describe("bank_items with a remembered bank", () => {
+  let server: MockHyperscapeServer;
+  let client: HyperscapeClient;
+  let agent: AutonomousAgent;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = new MockHyperscapeServer();
+  });
+
+  afterEach(async () => {
+    await agent?.stop();
+    client.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("walks toward a bank that is out of view", async () => {
+    client = await connectClient(server, [BANKER], { navigation: { checkIntervalMs: 5, stuckTimeoutMs: 50 } });
+    server.removeEntity(BANKER.id);
+    server.send("inventoryUpdated", {
+      items: Array.from({ length: 28 }, (_, slot) => ({ slot, itemId: "logs", name: "Logs", quantity: 1 })),
+    });
+    await server.flush();
+    agent = createAutonomousAgent(client, { tickInterval: 5 });
+
+    await agent.start();
+    const move = await server.waitForPacket("moveRequest") as { target: [number, number, number] };
+
+    expect(agent.getThoughts(1)[0]?.goal).toBe("Bank Inventory");
+    expect(move.target[0]).toBeGreaterThan(PLAYER.position![0]);
+  });
+});
+
+describe("defaultWorldMapPath", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("gives each named session its own file", () => {
+    vi.stubEnv("HYPERSCAPE_WORLD_MAP", "/data/world-map.json");
+
+    expect(defaultWorldMapPath()).toBe("/data/world-map.json");
+    expect(defaultWorldMapPath("default")).toBe("/data/world-map.json");
+    expect(defaultWorldMapPath("fighter")).toBe("/data/world-map.fighter.json");
+    expect(defaultWorldMapPath("../alt")).toBe("/data/world-map...%2Falt.json");
+  });
+});